@@ -38,6 +38,11 @@ import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
 import gamesData from "@/data/games.json"
 import EmulatorJS from "@/components/EmulatorJS"
+import InputSettingsDialog from "@/components/InputSettingsDialog"
+import TouchController from "@/components/TouchController"
+import { useIsMobile, useIsTouchDevice } from "@/hooks/use-mobile"
+import type { PeripheralType } from "@/src/emulator/core/controller"
+import { useInputManager } from "@/lib/hooks/useInputManager"
 
 // Configure IPFS gateway
 const IPFS_GATEWAY = 'https://yappy-chocolate-squid.myfilebase.com/ipfs/';
@@ -76,6 +81,7 @@ type Game = {
   description: string[];
   features: string[];
   screenshots: string[];
+  controllers?: PeripheralType[];
   similarGames?: {
     id: number;
     title: string;
@@ -137,6 +143,17 @@ export default function GamePlayerPage({ params }: { params: Promise<{ slug: str
   // Get game data based on slug
   const game = getGameBySlug(slug)
 
+  // Keyboard and gamepad input is read here and fed to EmulatorJS, whose own
+  // bindings are cleared (see EmulatorJS.tsx); its button indices match SNESButton
+  const input = useInputManager((port, button, pressed) => {
+    window.EJS_emulator?.gameManager?.simulateInput(port, button, pressed ? 1 : 0)
+  })
+
+  // The on-screen pad shows on phones and tablets
+  const isMobile = useIsMobile()
+  const isTouchDevice = useIsTouchDevice()
+  const showTouchController = isMobile || isTouchDevice
+
   useEffect(() => {
     setIsLoading(true);
     setIsReady(false);
@@ -386,6 +403,7 @@ export default function GamePlayerPage({ params }: { params: Promise<{ slug: str
             key={key}
             romUrl={romUrl}
             core="snes9x"
+            controllers={game.controllers}
           />
 
           {/* Error overlay */}
@@ -466,70 +484,7 @@ export default function GamePlayerPage({ params }: { params: Promise<{ slug: str
                 </div>
 
                 <div className="flex items-center gap-2">
-                  <Dialog>
-                    <DialogTrigger asChild>
-                      <Button variant="ghost" size="icon">
-                        <Keyboard className="h-5 w-5" />
-                      </Button>
-                    </DialogTrigger>
-                    <DialogContent className="sm:max-w-[500px] bg-gray-800 text-white">
-                      <DialogHeader>
-                        <DialogTitle>Keyboard Controls</DialogTitle>
-                        <DialogDescription className="text-gray-400">
-                          EmulatorJS uses these keyboard shortcuts.
-                        </DialogDescription>
-                      </DialogHeader>
-                      <div className="grid grid-cols-2 gap-4 py-4">
-                        <div className="space-y-4">
-                          <h4 className="font-semibold">D-Pad</h4>
-                          <div className="grid grid-cols-2 gap-2 text-sm">
-                            <div className="text-gray-400">Up</div>
-                            <div className="font-mono bg-gray-700 px-2 py-1 rounded text-center">Arrow Up</div>
-                            <div className="text-gray-400">Down</div>
-                            <div className="font-mono bg-gray-700 px-2 py-1 rounded text-center">Arrow Down</div>
-                            <div className="text-gray-400">Left</div>
-                            <div className="font-mono bg-gray-700 px-2 py-1 rounded text-center">Arrow Left</div>
-                            <div className="text-gray-400">Right</div>
-                            <div className="font-mono bg-gray-700 px-2 py-1 rounded text-center">Arrow Right</div>
-                          </div>
-                        </div>
-
-                        <div className="space-y-4">
-                          <h4 className="font-semibold">Buttons</h4>
-                          <div className="grid grid-cols-2 gap-2 text-sm">
-                            <div className="text-gray-400">A Button</div>
-                            <div className="font-mono bg-gray-700 px-2 py-1 rounded text-center">X</div>
-                            <div className="text-gray-400">B Button</div>
-                            <div className="font-mono bg-gray-700 px-2 py-1 rounded text-center">Z</div>
-                            <div className="text-gray-400">X Button</div>
-                            <div className="font-mono bg-gray-700 px-2 py-1 rounded text-center">S</div>
-                            <div className="text-gray-400">Y Button</div>
-                            <div className="font-mono bg-gray-700 px-2 py-1 rounded text-center">A</div>
-                          </div>
-                        </div>
-
-                        <div className="space-y-4">
-                          <h4 className="font-semibold">Shoulder Buttons</h4>
-                          <div className="grid grid-cols-2 gap-2 text-sm">
-                            <div className="text-gray-400">L Button</div>
-                            <div className="font-mono bg-gray-700 px-2 py-1 rounded text-center">Q</div>
-                            <div className="text-gray-400">R Button</div>
-                            <div className="font-mono bg-gray-700 px-2 py-1 rounded text-center">W</div>
-                          </div>
-                        </div>
-
-                        <div className="space-y-4">
-                          <h4 className="font-semibold">Special</h4>
-                          <div className="grid grid-cols-2 gap-2 text-sm">
-                            <div className="text-gray-400">Start</div>
-                            <div className="font-mono bg-gray-700 px-2 py-1 rounded text-center">Enter</div>
-                            <div className="text-gray-400">Select</div>
-                            <div className="font-mono bg-gray-700 px-2 py-1 rounded text-center">Shift</div>
-                          </div>
-                        </div>
-                      </div>
-                    </DialogContent>
-                  </Dialog>
+                  <InputSettingsDialog manager={input} />
 
                   <TooltipProvider>
                     <Tooltip>
@@ -545,8 +500,12 @@ export default function GamePlayerPage({ params }: { params: Promise<{ slug: str
               </div>
             </div>
           )}
+
+          {showTouchController && isFullscreen && <TouchController manager={input} overlay />}
         </div>
 
+        {showTouchController && !isFullscreen && <TouchController manager={input} />}
+
         {/* Game Features */}
         <div className="mt-6 bg-gray-800 rounded-lg p-4 text-white border border-gray-700">
           <h3 className="font-bold text-lg mb-2">Free Features</h3>
@@ -563,7 +522,9 @@ export default function GamePlayerPage({ params }: { params: Promise<{ slug: str
               <h3 className="font-semibold mb-2 flex items-center">
                 <Keyboard className="h-4 w-4 mr-2" /> Keyboard Controls
               </h3>
-              <p className="text-gray-400 mb-4">Use your keyboard to control the game:</p>
+              <p className="text-gray-400 mb-4">
+                Default keys are listed below. Use the keyboard button under the game to rebind them or set up a gamepad.
+              </p>
               <div className="grid grid-cols-2 gap-2 text-sm">
                 <div className="text-gray-400">Movement</div>
                 <div>Arrow Keys</div>
@@ -645,6 +606,9 @@ declare global {
       start?: () => void;
       pause?: () => void;
       audioContext?: AudioContext;
+      gameManager?: {
+        simulateInput: (player: number, index: number, value: number) => void;
+      };
     };
     EJS_player?: string;
     EJS_gameUrl?: string;
@@ -663,6 +627,8 @@ declare global {
       audio?: boolean;
       volume?: number;
     };
+    EJS_mouse?: boolean;
+    EJS_multitap?: boolean;
     EJS_onGameStart?: () => void;
     EJS_onLoadError?: (error: string) => void;
   }
@@ -1,11 +1,14 @@
 "use client";
 
 import { useLayoutEffect, useRef, useState } from 'react';
+import type { PeripheralType } from '@/src/emulator/core/controller';
 
 interface EmulatorJSProps {
   romUrl: string;
   gameId: string;
   romName: string;
+  // What the game expects in each controller port (see data/games.json)
+  controllers?: PeripheralType[];
   onReady?: () => void;
   onError?: (error: string) => void;
 }
@@ -18,6 +21,9 @@ declare global {
       start?: () => void;
       pause?: () => void;
       audioContext?: AudioContext;
+      gameManager?: {
+        simulateInput: (player: number, index: number, value: number) => void;
+      };
     };
     EJS_player?: string;
     EJS_gameUrl?: string;
@@ -38,13 +44,20 @@ declare global {
       'save-state-location'?: string;
       audio?: boolean;
     };
+    // Per-player key/gamepad bindings, keyed by player then button index
+    EJS_defaultControls?: {
+      [player: number]: { [button: number]: { value?: string; value2?: string } };
+    };
+    // Plug an SNES Mouse / a multitap into the core's second port
+    EJS_mouse?: boolean;
+    EJS_multitap?: boolean;
     EJS_onGameStart?: () => void;
     EJS_onLoadError?: (error: string) => void;
     EJS_gameName?: string;
   }
 }
 
-export default function EmulatorJS({ romUrl, gameId, romName, onReady, onError }: EmulatorJSProps) {
+export default function EmulatorJS({ romUrl, gameId, romName, controllers, onReady, onError }: EmulatorJSProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [isLoading, setIsLoading] = useState(true);
   const initRef = useRef(false);
@@ -53,6 +66,8 @@ export default function EmulatorJS({ romUrl, gameId, romName, onReady, onError }
   const emulatorRef = useRef<any>(null);
   const cleanupInProgressRef = useRef(false);
   const scriptLoadedRef = useRef(false);
+  const mouseEnabled = controllers?.includes('mouse') ?? false;
+  const multitapEnabled = controllers?.includes('multitap') ?? false;
 
   const cleanup = async () => {
     if (cleanupInProgressRef.current) {
@@ -117,6 +132,9 @@ export default function EmulatorJS({ romUrl, gameId, romName, onReady, onError }
         'EJS_onGameStart',
         'EJS_onLoadError',
         'EJS_defaultOptions',
+        'EJS_defaultControls',
+        'EJS_mouse',
+        'EJS_multitap',
         'EJS_emulator'
       ].forEach(key => {
         try {
@@ -228,6 +246,13 @@ export default function EmulatorJS({ romUrl, gameId, romName, onReady, onError }
           'shader': 'disabled'
         };
 
+        // No built-in bindings: the page's input manager drives the players
+        // through gameManager.simulateInput
+        window.EJS_defaultControls = { 0: {}, 1: {}, 2: {}, 3: {} };
+
+        window.EJS_mouse = mouseEnabled;
+        window.EJS_multitap = multitapEnabled;
+
         // Set up callbacks
         window.EJS_onGameStart = () => {
           if (mountedRef.current && !cleanupInProgressRef.current) {
@@ -290,7 +315,7 @@ export default function EmulatorJS({ romUrl, gameId, romName, onReady, onError }
       mountedRef.current = false;
       cleanup();
     };
-  }, [romUrl, gameId, romName, onReady, onError]);
+  }, [romUrl, gameId, romName, mouseEnabled, multitapEnabled, onReady, onError]);
 
   // Handle fullscreen changes
   useLayoutEffect(() => {
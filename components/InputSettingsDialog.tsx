@@ -0,0 +1,223 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Keyboard, Gamepad2, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Label } from "@/components/ui/label"
+import type { SNESButton } from "@/src/emulator/core/controller"
+import {
+  BINDABLE_BUTTONS,
+  formatKeyCode,
+  type InputDevice,
+  type InputManager,
+  type InputSettings,
+} from "@/lib/input/inputManager"
+
+interface InputSettingsDialogProps {
+  manager: InputManager | null
+}
+
+// Gamepad API slots offered for each player
+const GAMEPAD_SLOTS = 4
+
+export default function InputSettingsDialog({ manager }: InputSettingsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [settings, setSettings] = useState<InputSettings | null>(null)
+  const [waiting, setWaiting] = useState<{ port: number; button: SNESButton; device: InputDevice } | null>(null)
+  const [gamepadNames, setGamepadNames] = useState<(string | null)[]>([])
+  const stopCaptureRef = useRef<(() => void) | null>(null)
+
+  // Pick up the current bindings each time the dialog opens
+  useEffect(() => {
+    if (open && manager) setSettings(manager.getSettings())
+  }, [open, manager])
+
+  // List connected pads while the dialog is open
+  useEffect(() => {
+    if (!open) return
+    const refresh = () => {
+      const pads = navigator.getGamepads ? Array.from(navigator.getGamepads()) : []
+      setGamepadNames(Array.from({ length: GAMEPAD_SLOTS }, (_, i) => pads[i]?.id ?? null))
+    }
+    refresh()
+    window.addEventListener("gamepadconnected", refresh)
+    window.addEventListener("gamepaddisconnected", refresh)
+    return () => {
+      window.removeEventListener("gamepadconnected", refresh)
+      window.removeEventListener("gamepaddisconnected", refresh)
+    }
+  }, [open])
+
+  // Stop waiting for a press when the dialog closes
+  useEffect(() => {
+    if (open) return
+    stopCaptureRef.current?.()
+    stopCaptureRef.current = null
+    setWaiting(null)
+  }, [open])
+
+  const updateSettings = (next: InputSettings) => {
+    setSettings(next)
+    manager?.setSettings(next)
+  }
+
+  const startRebind = (port: number, button: SNESButton, device: InputDevice) => {
+    if (!manager) return
+    stopCaptureRef.current?.()
+    setWaiting({ port, button, device })
+    stopCaptureRef.current = manager.captureNext(device, (input) => {
+      stopCaptureRef.current = null
+      setWaiting(null)
+      if (!input) return
+
+      const current = manager.getSettings()
+      const players = current.players.map((player, i) => {
+        if (i !== port) return player
+        // A key or pad button drives one SNES button per player, so it moves
+        // off whichever button had it before
+        if (input.type === "key") {
+          const keyboard = { ...player.keyboard }
+          for (const { button: other } of BINDABLE_BUTTONS) {
+            if (keyboard[other] === input.code) delete keyboard[other]
+          }
+          keyboard[button] = input.code
+          return { ...player, keyboard }
+        }
+        const gamepad = { ...player.gamepad }
+        for (const { button: other } of BINDABLE_BUTTONS) {
+          if (gamepad[other] === input.index) delete gamepad[other]
+        }
+        gamepad[button] = input.index
+        return { ...player, gamepad }
+      })
+      updateSettings({ ...current, players })
+    })
+  }
+
+  const resetBindings = () => {
+    if (!manager) return
+    manager.resetToDefaults()
+    setSettings(manager.getSettings())
+  }
+
+  const bindingLabel = (port: number, button: SNESButton, device: InputDevice) => {
+    if (waiting && waiting.port === port && waiting.button === button && waiting.device === device) {
+      return "Press..."
+    }
+    const player = settings?.players[port]
+    if (device === "keyboard") {
+      const code = player?.keyboard[button]
+      return code ? formatKeyCode(code) : "—"
+    }
+    const index = player?.gamepad[button]
+    return index !== undefined ? `Button ${index}` : "—"
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" disabled={!manager}>
+          <Keyboard className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px] bg-gray-800 text-white">
+        <DialogHeader>
+          <DialogTitle>Controls</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Click a binding, then press a key or gamepad button. Escape cancels. Bindings are saved in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        {settings && (
+          <Tabs defaultValue="0">
+            <TabsList className="grid w-full grid-cols-5">
+              {settings.players.map((_, port) => (
+                <TabsTrigger key={port} value={String(port)}>P{port + 1}</TabsTrigger>
+              ))}
+            </TabsList>
+
+            {settings.players.map((player, port) => (
+              <TabsContent key={port} value={String(port)} className="space-y-4">
+                <div className="flex items-center gap-4">
+                  <Label className="whitespace-nowrap">Gamepad</Label>
+                  <Select
+                    value={player.gamepadIndex === null ? "none" : String(player.gamepadIndex)}
+                    onValueChange={(value) => {
+                      const players = settings.players.map((p, i) =>
+                        i === port ? { ...p, gamepadIndex: value === "none" ? null : Number(value) } : p
+                      )
+                      updateSettings({ ...settings, players })
+                    }}
+                  >
+                    <SelectTrigger className="bg-gray-700 border-gray-600">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {gamepadNames.map((name, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          Gamepad {index + 1}{name ? ` — ${name}` : " (not connected)"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid grid-cols-[1fr_2fr_2fr] gap-2 text-sm items-center">
+                  <div />
+                  <div className="text-gray-400 flex items-center gap-1"><Keyboard className="h-4 w-4" /> Keyboard</div>
+                  <div className="text-gray-400 flex items-center gap-1"><Gamepad2 className="h-4 w-4" /> Gamepad</div>
+                  {BINDABLE_BUTTONS.map(({ button, label }) => (
+                    <div key={button} className="contents">
+                      <div className="text-gray-400">{label}</div>
+                      {(["keyboard", "gamepad"] as InputDevice[]).map((device) => (
+                        <button
+                          key={device}
+                          type="button"
+                          className="font-mono bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-center"
+                          onClick={() => startRebind(port, button, device)}
+                        >
+                          {bindingLabel(port, button, device)}
+                        </button>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+
+        {settings && (
+          <div className="space-y-2">
+            <Label>Analog stick threshold: {Math.round(settings.analogThreshold * 100)}%</Label>
+            <Slider
+              value={[Math.round(settings.analogThreshold * 100)]}
+              min={10}
+              max={90}
+              step={5}
+              onValueChange={(value) => updateSettings({ ...settings, analogThreshold: value[0] / 100 })}
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={resetBindings} className="text-gray-900">
+            <RotateCcw className="h-4 w-4 mr-2" /> Reset to defaults
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,15 +1,20 @@
 "use client";
 
 import { useEffect, useRef } from 'react';
+import type { PeripheralType } from '@/src/emulator/core/controller';
 
 interface SNESEmulatorProps {
   romUrl: string;
   width?: number;
   height?: number;
+  // Devices in ports 1 and 2, from the game's metadata
+  controllers?: PeripheralType[];
 }
 
-export default function SNESEmulator({ romUrl, width = 640, height = 480 }: SNESEmulatorProps) {
+export default function SNESEmulator({ romUrl, width = 640, height = 480, controllers = ['pad', 'pad'] }: SNESEmulatorProps) {
   const emulatorRef = useRef<HTMLDivElement>(null);
+  const mouseEnabled = controllers.includes('mouse');
+  const multitapEnabled = controllers.includes('multitap');
   
   useEffect(() => {
     if (!emulatorRef.current) return;
@@ -24,8 +29,8 @@ export default function SNESEmulator({ romUrl, width = 640, height = 480 }: SNES
       EJS_player = '#game';
       EJS_gameUrl = '${romUrl}';
       EJS_core = 'snes';
-      EJS_mouse = false;
-      EJS_multitap = false;
+      EJS_mouse = ${mouseEnabled};
+      EJS_multitap = ${multitapEnabled};
       EJS_pathtodata = '/emulatorjs/data/';
       EJS_gameID = 'snes-game';
     `;
@@ -39,7 +44,7 @@ export default function SNESEmulator({ romUrl, width = 640, height = 480 }: SNES
       const ejsElements = document.querySelectorAll('[id^="ejs-"]');
       ejsElements.forEach(element => element.remove());
     };
-  }, [romUrl]);
+  }, [romUrl, mouseEnabled, multitapEnabled]);
   
   return (
     <div style={{ width, height }}>
@@ -0,0 +1,308 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Settings } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { SNESButton } from "@/src/emulator/core/controller"
+import type { InputManager } from "@/lib/input/inputManager"
+import {
+  loadTouchControllerSettings,
+  saveTouchControllerSettings,
+  type TouchControllerSettings,
+} from "@/lib/input/touchControllerSettings"
+
+interface TouchControllerProps {
+  manager: InputManager | null
+  port?: number
+  // Float over the screen whatever the orientation (e.g. in fullscreen)
+  overlay?: boolean
+}
+
+// Base sizes in pixels before the user's scale is applied
+const BUTTON_SIZE = 56
+const DPAD_SIZE = 150
+const SHOULDER_WIDTH = 96
+
+// Fraction of the D-pad radius around its centre that presses nothing
+const DPAD_DEAD_ZONE = 0.2
+// How far the off-axis component must reach, relative to the main one, to
+// press a diagonal
+const DPAD_DIAGONAL_RATIO = 0.5
+
+// Directions pressed by a touch at (x, y) on the D-pad element
+function dpadDirections(element: Element, x: number, y: number): SNESButton[] {
+  const rect = element.getBoundingClientRect()
+  const dx = (x - (rect.left + rect.width / 2)) / (rect.width / 2)
+  const dy = (y - (rect.top + rect.height / 2)) / (rect.height / 2)
+  if (Math.hypot(dx, dy) < DPAD_DEAD_ZONE) return []
+
+  const directions: SNESButton[] = []
+  const major = Math.max(Math.abs(dx), Math.abs(dy))
+  if (Math.abs(dx) >= major * DPAD_DIAGONAL_RATIO) directions.push(dx < 0 ? SNESButton.Left : SNESButton.Right)
+  if (Math.abs(dy) >= major * DPAD_DIAGONAL_RATIO) directions.push(dy < 0 ? SNESButton.Up : SNESButton.Down)
+  return directions
+}
+
+// Buttons under a touch point, found through the data-touch-button attributes
+function buttonsAt(x: number, y: number): SNESButton[] {
+  const element = document.elementFromPoint(x, y)?.closest<HTMLElement>("[data-touch-button]")
+  if (!element) return []
+  const value = element.dataset.touchButton
+  if (value === "dpad") return dpadDirections(element, x, y)
+  return [Number(value) as SNESButton]
+}
+
+function useIsLandscape() {
+  const [isLandscape, setIsLandscape] = useState(false)
+
+  useEffect(() => {
+    const mql = window.matchMedia("(orientation: landscape)")
+    const onChange = () => setIsLandscape(mql.matches)
+    mql.addEventListener("change", onChange)
+    setIsLandscape(mql.matches)
+    return () => mql.removeEventListener("change", onChange)
+  }, [])
+
+  return isLandscape
+}
+
+/**
+ * On-screen SNES pad. Every touch is hit-tested on each touch event, so
+ * several buttons can be held at once and a finger can slide between them;
+ * presses go through the InputManager like keys and gamepad buttons do.
+ * In landscape it floats over the sides of the screen, in portrait it sits
+ * below the game.
+ */
+export default function TouchController({ manager, port = 0, overlay = false }: TouchControllerProps) {
+  const [settings, setSettings] = useState<TouchControllerSettings>(loadTouchControllerSettings)
+  const [held, setHeld] = useState<Set<SNESButton>>(new Set())
+  const isLandscape = useIsLandscape()
+  const padRef = useRef<HTMLDivElement>(null)
+  const settingsRef = useRef(settings)
+
+  useEffect(() => {
+    settingsRef.current = settings
+  }, [settings])
+
+  useEffect(() => {
+    const pad = padRef.current
+    if (!pad || !manager) return
+
+    let pressed = new Set<SNESButton>()
+
+    const update = (event: TouchEvent) => {
+      // Let taps reach the settings button
+      const target = event.target as Element | null
+      if (!target?.closest("[data-touch-settings]")) event.preventDefault()
+
+      const next = new Set<SNESButton>()
+      for (const touch of Array.from(event.touches)) {
+        for (const button of buttonsAt(touch.clientX, touch.clientY)) next.add(button)
+      }
+
+      let newPress = false
+      next.forEach(button => {
+        if (pressed.has(button)) return
+        manager.setTouchButton(port, button, true)
+        newPress = true
+      })
+      pressed.forEach(button => {
+        if (!next.has(button)) manager.setTouchButton(port, button, false)
+      })
+      pressed = next
+      setHeld(next)
+
+      if (newPress && settingsRef.current.haptics && typeof navigator.vibrate === "function") {
+        navigator.vibrate(12)
+      }
+    }
+
+    const events = ["touchstart", "touchmove", "touchend", "touchcancel"] as const
+    // Not passive: preventDefault stops the page scrolling and zooming under the pad
+    events.forEach(type => pad.addEventListener(type, update, { passive: false }))
+
+    return () => {
+      events.forEach(type => pad.removeEventListener(type, update))
+      pressed.forEach(button => manager.setTouchButton(port, button, false))
+      setHeld(new Set())
+    }
+  }, [manager, port])
+
+  const updateSettings = (next: TouchControllerSettings) => {
+    setSettings(next)
+    saveTouchControllerSettings(next)
+  }
+
+  const size = (pixels: number) => Math.round(pixels * settings.scale)
+
+  const roundButton = (button: SNESButton, label: string, style: React.CSSProperties) => (
+    <div
+      data-touch-button={button}
+      className={`absolute flex items-center justify-center rounded-full font-bold text-white border-2 border-white/40 ${
+        held.has(button) ? "bg-white/50" : "bg-gray-900/70"
+      }`}
+      style={{ width: size(BUTTON_SIZE), height: size(BUTTON_SIZE), ...style }}
+    >
+      {label}
+    </div>
+  )
+
+  const pillButton = (button: SNESButton, label: string) => (
+    <div
+      data-touch-button={button}
+      className={`flex items-center justify-center rounded-full text-xs font-semibold text-white border-2 border-white/40 ${
+        held.has(button) ? "bg-white/50" : "bg-gray-900/70"
+      }`}
+      style={{ width: size(SHOULDER_WIDTH * 0.75), height: size(BUTTON_SIZE * 0.5) }}
+    >
+      {label}
+    </div>
+  )
+
+  const shoulder = (button: SNESButton, label: string) => (
+    <div
+      data-touch-button={button}
+      className={`flex items-center justify-center rounded-lg font-bold text-white border-2 border-white/40 ${
+        held.has(button) ? "bg-white/50" : "bg-gray-900/70"
+      }`}
+      style={{ width: size(SHOULDER_WIDTH), height: size(BUTTON_SIZE * 0.7) }}
+    >
+      {label}
+    </div>
+  )
+
+  const dpadArm = (button: SNESButton, style: React.CSSProperties) => (
+    <div
+      className={`absolute ${held.has(button) ? "bg-white/50" : "bg-gray-900/70"}`}
+      style={{ width: size(DPAD_SIZE / 3), height: size(DPAD_SIZE / 3), ...style }}
+    />
+  )
+
+  const third = size(DPAD_SIZE / 3)
+  const dpad = (
+    <div
+      data-touch-button="dpad"
+      className="relative rounded-full"
+      style={{ width: size(DPAD_SIZE), height: size(DPAD_SIZE) }}
+    >
+      {dpadArm(SNESButton.Up, { left: third, top: 0, borderRadius: "6px 6px 0 0" })}
+      {dpadArm(SNESButton.Down, { left: third, bottom: 0, borderRadius: "0 0 6px 6px" })}
+      {dpadArm(SNESButton.Left, { left: 0, top: third, borderRadius: "6px 0 0 6px" })}
+      {dpadArm(SNESButton.Right, { right: 0, top: third, borderRadius: "0 6px 6px 0" })}
+      <div className="absolute bg-gray-900/70" style={{ left: third, top: third, width: third, height: third }} />
+    </div>
+  )
+
+  // Diamond laid out like the SNES pad: X top, A right, B bottom, Y left
+  const faceSize = size(BUTTON_SIZE * 2.6)
+  const faceOffset = (faceSize - size(BUTTON_SIZE)) / 2
+  const faceButtons = (
+    <div className="relative" style={{ width: faceSize, height: faceSize }}>
+      {roundButton(SNESButton.X, "X", { left: faceOffset, top: 0 })}
+      {roundButton(SNESButton.A, "A", { right: 0, top: faceOffset })}
+      {roundButton(SNESButton.B, "B", { left: faceOffset, bottom: 0 })}
+      {roundButton(SNESButton.Y, "Y", { left: 0, top: faceOffset })}
+    </div>
+  )
+
+  const leftCluster = (
+    <div className="flex flex-col items-center gap-4 pointer-events-auto">
+      {shoulder(settings.leftHanded ? SNESButton.R : SNESButton.L, settings.leftHanded ? "R" : "L")}
+      {settings.leftHanded ? faceButtons : dpad}
+    </div>
+  )
+
+  const rightCluster = (
+    <div className="flex flex-col items-center gap-4 pointer-events-auto">
+      {shoulder(settings.leftHanded ? SNESButton.L : SNESButton.R, settings.leftHanded ? "L" : "R")}
+      {settings.leftHanded ? dpad : faceButtons}
+    </div>
+  )
+
+  const centerCluster = (
+    <div className="flex flex-col items-center gap-3 pointer-events-auto">
+      <div className="flex gap-3">
+        {pillButton(SNESButton.Select, "SELECT")}
+        {pillButton(SNESButton.Start, "START")}
+      </div>
+      <Dialog>
+        <DialogTrigger asChild>
+          <Button data-touch-settings variant="ghost" size="icon" className="text-white">
+            <Settings className="h-5 w-5" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="sm:max-w-[425px] bg-gray-800 text-white">
+          <DialogHeader>
+            <DialogTitle>Touch Controls</DialogTitle>
+            <DialogDescription className="text-gray-400">Adjust the on-screen pad.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-6 py-4">
+            <div className="space-y-2">
+              <Label>Opacity: {Math.round(settings.opacity * 100)}%</Label>
+              <Slider
+                value={[Math.round(settings.opacity * 100)]}
+                min={10}
+                max={100}
+                step={5}
+                onValueChange={(value) => updateSettings({ ...settings, opacity: value[0] / 100 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Size: {Math.round(settings.scale * 100)}%</Label>
+              <Slider
+                value={[Math.round(settings.scale * 100)]}
+                min={75}
+                max={150}
+                step={5}
+                onValueChange={(value) => updateSettings({ ...settings, scale: value[0] / 100 })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="touch-left-handed">Left-handed layout</Label>
+              <Switch
+                id="touch-left-handed"
+                checked={settings.leftHanded}
+                onCheckedChange={(checked) => updateSettings({ ...settings, leftHanded: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="touch-haptics">Vibrate on press</Label>
+              <Switch
+                id="touch-haptics"
+                checked={settings.haptics}
+                onCheckedChange={(checked) => updateSettings({ ...settings, haptics: checked })}
+              />
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+
+  return (
+    <div
+      ref={padRef}
+      className={
+        isLandscape || overlay
+          ? "fixed inset-x-0 bottom-0 z-30 flex items-end justify-between p-4 pointer-events-none select-none"
+          : "relative w-full flex items-end justify-between p-4 mt-4 select-none"
+      }
+      style={{ opacity: settings.opacity, touchAction: "none", WebkitUserSelect: "none" }}
+    >
+      {leftCluster}
+      {centerCluster}
+      {rightCluster}
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import { Emulator } from '@/src/emulator/core/emulator';
+import { SNESButton, PeripheralType, SuperScopeButtons } from '@/src/emulator/core/controller';
 
 export class SNESEmulator {
     private emulator: Emulator | null = null;
@@ -99,11 +100,46 @@ export class SNESEmulator {
         }
     }
 
-    setButtonState(button: string, pressed: boolean): void {
+    setButtonState(button: SNESButton, pressed: boolean, player: number = 0): void {
         if (!this.emulator) {
             throw new Error('Emulator not initialized');
         }
-        this.emulator.setButtonState(button, pressed);
+        this.emulator.setButtonState(button, pressed, player);
+    }
+
+    setPeripheral(port: number, type: PeripheralType): void {
+        if (!this.emulator) {
+            throw new Error('Emulator not initialized');
+        }
+        this.emulator.setPeripheral(port, type);
+    }
+
+    moveMouse(dx: number, dy: number): void {
+        if (!this.emulator) {
+            throw new Error('Emulator not initialized');
+        }
+        this.emulator.moveMouse(dx, dy);
+    }
+
+    setMouseButtons(left: boolean, right: boolean): void {
+        if (!this.emulator) {
+            throw new Error('Emulator not initialized');
+        }
+        this.emulator.setMouseButtons(left, right);
+    }
+
+    aimSuperScope(x: number | null, y: number | null): void {
+        if (!this.emulator) {
+            throw new Error('Emulator not initialized');
+        }
+        this.emulator.aimSuperScope(x, y);
+    }
+
+    setSuperScopeButtons(buttons: SuperScopeButtons): void {
+        if (!this.emulator) {
+            throw new Error('Emulator not initialized');
+        }
+        this.emulator.setSuperScopeButtons(buttons);
     }
 
     async cleanup(): Promise<void> {
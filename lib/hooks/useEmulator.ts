@@ -1,5 +1,8 @@
 import { useEffect, useRef, useState, useCallback } from 'react'
 import { SNESEmulator } from '../emulator/core'
+import type { SNESButton, PeripheralType } from '@/src/emulator/core/controller'
+import { useInputManager } from './useInputManager'
+import { usePeripheralInput } from './usePeripheralInput'
 
 interface EmulatorState {
   isReady: boolean
@@ -19,6 +22,8 @@ export function useEmulator(canvasRef: React.RefObject<HTMLCanvasElement>) {
   const initializedRef = useRef<boolean>(false)
   const initAttemptsRef = useRef<number>(0)
   const maxInitAttempts = 3
+  const peripheralsRef = useRef<PeripheralType[]>(['pad', 'pad'])
+  const [peripherals, setPeripheralState] = useState<PeripheralType[]>(peripheralsRef.current)
 
   // Initialize emulator
   useEffect(() => {
@@ -60,6 +65,9 @@ export function useEmulator(canvasRef: React.RefObject<HTMLCanvasElement>) {
         console.debug('[DEBUG] Setting canvas')
         await emulator.setCanvas(canvasRef.current)
 
+        // Plug in the devices chosen before the emulator existed
+        peripheralsRef.current.forEach((type, port) => emulator.setPeripheral(port, type))
+
         initializedRef.current = true
         setState(prev => ({
           ...prev,
@@ -182,11 +190,27 @@ export function useEmulator(canvasRef: React.RefObject<HTMLCanvasElement>) {
   }, [])
 
   // Input handling
-  const setButtonState = useCallback((button: string, pressed: boolean) => {
+  const setButtonState = useCallback((button: SNESButton, pressed: boolean, player: number = 0) => {
+    if (!emulatorRef.current || !initializedRef.current) return
+    emulatorRef.current.setButtonState(button, pressed, player)
+  }, [])
+
+  // Keyboard and gamepad input, routed to the players' pads
+  const input = useInputManager(useCallback((player: number, button: SNESButton, pressed: boolean) => {
+    setButtonState(button, pressed, player)
+  }, [setButtonState]))
+
+  // Devices in the two controller ports (see Game.controllers)
+  const setPeripherals = useCallback((types: PeripheralType[]) => {
+    peripheralsRef.current = types
+    setPeripheralState(types)
     if (!emulatorRef.current || !initializedRef.current) return
-    emulatorRef.current.setButtonState(button, pressed)
+    types.forEach((type, port) => emulatorRef.current?.setPeripheral(port, type))
   }, [])
 
+  // Pointer input for the mouse and Super Scope
+  usePeripheralInput(canvasRef, emulatorRef, peripherals)
+
   return {
     ...state,
     loadROM,
@@ -194,6 +218,9 @@ export function useEmulator(canvasRef: React.RefObject<HTMLCanvasElement>) {
     stop,
     reset,
     setButtonState,
+    input,
+    peripherals,
+    setPeripherals,
     emulator: emulatorRef.current
   }
 }
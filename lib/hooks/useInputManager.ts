@@ -0,0 +1,35 @@
+import { useEffect, useRef, useState } from 'react'
+import { InputManager, type ButtonChangeHandler } from '../input/inputManager'
+
+// Owns an InputManager for the lifetime of the component: listens for keys
+// while mounted and polls the gamepads once per animation frame, reporting
+// button changes to onChange
+export function useInputManager(onChange: ButtonChangeHandler) {
+  const onChangeRef = useRef(onChange)
+  const [manager, setManager] = useState<InputManager | null>(null)
+
+  useEffect(() => {
+    onChangeRef.current = onChange
+  }, [onChange])
+
+  useEffect(() => {
+    const input = new InputManager((port, button, pressed) => onChangeRef.current(port, button, pressed))
+    input.attach()
+    setManager(input)
+
+    let frameId = 0
+    const pollLoop = () => {
+      input.poll()
+      frameId = requestAnimationFrame(pollLoop)
+    }
+    frameId = requestAnimationFrame(pollLoop)
+
+    return () => {
+      cancelAnimationFrame(frameId)
+      input.detach()
+      setManager(null)
+    }
+  }, [])
+
+  return manager
+}
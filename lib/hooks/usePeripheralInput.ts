@@ -0,0 +1,106 @@
+import { useEffect, type RefObject } from 'react'
+import type { SNESEmulator } from '../emulator/core'
+import type { PeripheralType } from '@/src/emulator/core/controller'
+
+// Size of the picture the canvas shows
+const SCREEN_WIDTH = 256
+const SCREEN_HEIGHT = 224
+
+// Feeds the canvas's mouse to an SNES Mouse or Super Scope plugged into either
+// port. The mouse uses pointer lock (click the canvas to capture, Escape to
+// release) so movement is not limited by the screen edge; the Super Scope aims
+// wherever the pointer is over the canvas. Left/right buttons map to the
+// mouse buttons or trigger/cursor, and the middle button to the scope's pause.
+export function usePeripheralInput(
+  canvasRef: RefObject<HTMLCanvasElement>,
+  emulatorRef: RefObject<SNESEmulator | null>,
+  peripherals: PeripheralType[]
+) {
+  const hasMouse = peripherals.includes('mouse')
+  const hasSuperScope = peripherals.includes('superscope')
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !hasMouse) return
+
+    const isLocked = () => document.pointerLockElement === canvas
+
+    const handleClick = () => {
+      if (isLocked()) return
+      // Rejected when clicking again too soon after Escape left pointer lock;
+      // older browsers return nothing
+      canvas.requestPointerLock()?.catch((err: unknown) => {
+        console.warn('[DEBUG] usePeripheralInput: Pointer lock request failed:', err)
+      })
+    }
+    const handleMove = (event: MouseEvent) => {
+      if (isLocked()) emulatorRef.current?.moveMouse(event.movementX, event.movementY)
+    }
+    const handleButtons = (event: MouseEvent) => {
+      if (!isLocked()) return
+      emulatorRef.current?.setMouseButtons((event.buttons & 1) !== 0, (event.buttons & 2) !== 0)
+    }
+    const handleLockChange = () => {
+      // Nothing stays held once the pointer is released
+      if (!isLocked()) emulatorRef.current?.setMouseButtons(false, false)
+    }
+    const preventMenu = (event: MouseEvent) => event.preventDefault()
+
+    canvas.addEventListener('click', handleClick)
+    canvas.addEventListener('contextmenu', preventMenu)
+    document.addEventListener('mousemove', handleMove)
+    document.addEventListener('mousedown', handleButtons)
+    document.addEventListener('mouseup', handleButtons)
+    document.addEventListener('pointerlockchange', handleLockChange)
+
+    return () => {
+      canvas.removeEventListener('click', handleClick)
+      canvas.removeEventListener('contextmenu', preventMenu)
+      document.removeEventListener('mousemove', handleMove)
+      document.removeEventListener('mousedown', handleButtons)
+      document.removeEventListener('mouseup', handleButtons)
+      document.removeEventListener('pointerlockchange', handleLockChange)
+      if (isLocked()) document.exitPointerLock()
+    }
+  }, [canvasRef, emulatorRef, hasMouse])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !hasSuperScope) return
+
+    const handleMove = (event: PointerEvent) => {
+      // Canvas pixels to SNES screen coordinates, whatever the display size
+      const rect = canvas.getBoundingClientRect()
+      const x = ((event.clientX - rect.left) / rect.width) * SCREEN_WIDTH
+      const y = ((event.clientY - rect.top) / rect.height) * SCREEN_HEIGHT
+      emulatorRef.current?.aimSuperScope(x, y)
+    }
+    const handleLeave = () => {
+      emulatorRef.current?.aimSuperScope(null, null)
+    }
+    const handleButtons = (event: PointerEvent) => {
+      emulatorRef.current?.setSuperScopeButtons({
+        trigger: (event.buttons & 1) !== 0,
+        cursor: (event.buttons & 2) !== 0,
+        turbo: false,
+        pause: (event.buttons & 4) !== 0
+      })
+    }
+    const preventMenu = (event: MouseEvent) => event.preventDefault()
+
+    canvas.addEventListener('pointermove', handleMove)
+    canvas.addEventListener('pointerleave', handleLeave)
+    canvas.addEventListener('pointerdown', handleButtons)
+    canvas.addEventListener('pointerup', handleButtons)
+    canvas.addEventListener('contextmenu', preventMenu)
+
+    return () => {
+      canvas.removeEventListener('pointermove', handleMove)
+      canvas.removeEventListener('pointerleave', handleLeave)
+      canvas.removeEventListener('pointerdown', handleButtons)
+      canvas.removeEventListener('pointerup', handleButtons)
+      canvas.removeEventListener('contextmenu', preventMenu)
+      emulatorRef.current?.aimSuperScope(null, null)
+    }
+  }, [canvasRef, emulatorRef, hasSuperScope])
+}
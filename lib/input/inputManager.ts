@@ -0,0 +1,338 @@
+import { SNESButton } from '@/src/emulator/core/controller'
+
+// Up to five players: a pad in port 1 plus a multitap in port 2
+export const INPUT_PLAYERS = 5
+export const INPUT_STORAGE_KEY = 'snes-input-bindings'
+
+// Buttons in the order the settings dialog lists them
+export const BINDABLE_BUTTONS: { button: SNESButton; label: string }[] = [
+  { button: SNESButton.Up, label: 'Up' },
+  { button: SNESButton.Down, label: 'Down' },
+  { button: SNESButton.Left, label: 'Left' },
+  { button: SNESButton.Right, label: 'Right' },
+  { button: SNESButton.A, label: 'A' },
+  { button: SNESButton.B, label: 'B' },
+  { button: SNESButton.X, label: 'X' },
+  { button: SNESButton.Y, label: 'Y' },
+  { button: SNESButton.L, label: 'L' },
+  { button: SNESButton.R, label: 'R' },
+  { button: SNESButton.Start, label: 'Start' },
+  { button: SNESButton.Select, label: 'Select' }
+]
+
+// One player's bindings: a KeyboardEvent.code and a Gamepad API button index
+// per SNES button, and the gamepad (navigator.getGamepads() slot) they read
+export interface PlayerBindings {
+  keyboard: Partial<Record<SNESButton, string>>
+  gamepad: Partial<Record<SNESButton, number>>
+  gamepadIndex: number | null
+}
+
+export interface InputSettings {
+  players: PlayerBindings[]
+  // How far (0-1) the left stick must be pushed to count as a D-pad press
+  analogThreshold: number
+}
+
+// Which kind of input a binding reads
+export type InputDevice = 'keyboard' | 'gamepad'
+
+// What the next key or pad button press becomes while rebinding
+export type CapturedInput =
+  | { type: 'key'; code: string }
+  | { type: 'gamepad'; index: number }
+
+export type ButtonChangeHandler = (port: number, button: SNESButton, pressed: boolean) => void
+
+// Buttons of the "standard" Gamepad API layout, face buttons by position
+// (bottom B, right A, left Y, top X) as on an SNES pad
+const STANDARD_GAMEPAD: Partial<Record<SNESButton, number>> = {
+  [SNESButton.B]: 0,
+  [SNESButton.A]: 1,
+  [SNESButton.Y]: 2,
+  [SNESButton.X]: 3,
+  [SNESButton.L]: 4,
+  [SNESButton.R]: 5,
+  [SNESButton.Select]: 8,
+  [SNESButton.Start]: 9,
+  [SNESButton.Up]: 12,
+  [SNESButton.Down]: 13,
+  [SNESButton.Left]: 14,
+  [SNESButton.Right]: 15
+}
+
+// The keys EmulatorJS documents on the play page
+const DEFAULT_KEYBOARD: Partial<Record<SNESButton, string>> = {
+  [SNESButton.Up]: 'ArrowUp',
+  [SNESButton.Down]: 'ArrowDown',
+  [SNESButton.Left]: 'ArrowLeft',
+  [SNESButton.Right]: 'ArrowRight',
+  [SNESButton.A]: 'KeyX',
+  [SNESButton.B]: 'KeyZ',
+  [SNESButton.X]: 'KeyS',
+  [SNESButton.Y]: 'KeyA',
+  [SNESButton.L]: 'KeyQ',
+  [SNESButton.R]: 'KeyW',
+  [SNESButton.Start]: 'Enter',
+  [SNESButton.Select]: 'ShiftRight'
+}
+
+export function defaultInputSettings(): InputSettings {
+  return {
+    players: [
+      { keyboard: { ...DEFAULT_KEYBOARD }, gamepad: { ...STANDARD_GAMEPAD }, gamepadIndex: 0 },
+      { keyboard: {}, gamepad: { ...STANDARD_GAMEPAD }, gamepadIndex: 1 },
+      { keyboard: {}, gamepad: { ...STANDARD_GAMEPAD }, gamepadIndex: 2 },
+      { keyboard: {}, gamepad: { ...STANDARD_GAMEPAD }, gamepadIndex: 3 },
+      { keyboard: {}, gamepad: { ...STANDARD_GAMEPAD }, gamepadIndex: null }
+    ],
+    analogThreshold: 0.5
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isPadIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+// Keeps the entries of a stored binding map whose key is an SNES button and
+// whose value passes isValid
+function parseButtonMap<T>(value: unknown, isValid: (entry: unknown) => entry is T): Partial<Record<SNESButton, T>> | null {
+  if (!isRecord(value)) return null
+  const map: Partial<Record<SNESButton, T>> = {}
+  for (const { button } of BINDABLE_BUTTONS) {
+    const entry = value[button]
+    if (isValid(entry)) map[button] = entry
+  }
+  return map
+}
+
+// A stored player's bindings, with anything missing or malformed taken from
+// that player's defaults
+function parsePlayerBindings(value: unknown, defaults: PlayerBindings): PlayerBindings {
+  if (!isRecord(value)) return defaults
+  const gamepadIndex = value.gamepadIndex
+  return {
+    keyboard: parseButtonMap(value.keyboard, (entry): entry is string => typeof entry === 'string') ?? defaults.keyboard,
+    gamepad: parseButtonMap(value.gamepad, isPadIndex) ?? defaults.gamepad,
+    gamepadIndex: gamepadIndex === null || isPadIndex(gamepadIndex) ? gamepadIndex : defaults.gamepadIndex
+  }
+}
+
+export function loadInputSettings(): InputSettings {
+  const defaults = defaultInputSettings()
+  if (typeof window === 'undefined') return defaults
+
+  try {
+    const stored = window.localStorage.getItem(INPUT_STORAGE_KEY)
+    if (!stored) return defaults
+    const parsed: unknown = JSON.parse(stored)
+    if (!isRecord(parsed)) return defaults
+    const players = Array.isArray(parsed.players) ? parsed.players : []
+    const threshold = parsed.analogThreshold
+    return {
+      players: defaults.players.map((player, port) => parsePlayerBindings(players[port], player)),
+      analogThreshold: typeof threshold === 'number' && threshold >= 0 && threshold <= 1 ? threshold : defaults.analogThreshold
+    }
+  } catch (err) {
+    console.warn('[DEBUG] Failed to load input bindings, using defaults:', err)
+    return defaults
+  }
+}
+
+export function saveInputSettings(settings: InputSettings): void {
+  if (typeof window === 'undefined') return
+  try {
+    window.localStorage.setItem(INPUT_STORAGE_KEY, JSON.stringify(settings))
+  } catch (err) {
+    console.warn('[DEBUG] Failed to save input bindings:', err)
+  }
+}
+
+// Human-readable name for a KeyboardEvent.code
+export function formatKeyCode(code: string): string {
+  if (code.startsWith('Key')) return code.slice(3)
+  if (code.startsWith('Digit')) return code.slice(5)
+  if (code.startsWith('Arrow')) return `Arrow ${code.slice(5)}`
+  return code.replace(/(Left|Right)$/, ' $1')
+}
+
+/**
+ * Turns keyboard events, the Gamepad API and the on-screen touch pad into SNES
+ * button presses. Keys and touches are tracked as events arrive; gamepads can
+ * only be polled, so poll() must run once per frame, and it reports only
+ * buttons whose state changed.
+ */
+export class InputManager {
+  private settings: InputSettings
+  private keysDown = new Set<string>()
+  private touchButtons: Set<SNESButton>[] = Array.from({ length: INPUT_PLAYERS }, () => new Set<SNESButton>())
+  private buttonStates: boolean[][] = Array.from({ length: INPUT_PLAYERS }, () => [])
+  private padButtonsDown = new Set<string>() // "pad:button" pressed at the last poll
+  private capture: { device: InputDevice; callback: (input: CapturedInput | null) => void } | null = null
+  private attached: boolean = false
+
+  constructor(private onChange: ButtonChangeHandler, settings: InputSettings = loadInputSettings()) {
+    this.settings = settings
+  }
+
+  attach(): void {
+    if (this.attached) return
+    window.addEventListener('keydown', this.handleKeyDown)
+    window.addEventListener('keyup', this.handleKeyUp)
+    window.addEventListener('blur', this.handleBlur)
+    this.attached = true
+  }
+
+  detach(): void {
+    if (!this.attached) return
+    window.removeEventListener('keydown', this.handleKeyDown)
+    window.removeEventListener('keyup', this.handleKeyUp)
+    window.removeEventListener('blur', this.handleBlur)
+    this.attached = false
+    this.keysDown.clear()
+    this.touchButtons.forEach(buttons => buttons.clear())
+    this.releaseAll()
+  }
+
+  getSettings(): InputSettings {
+    return this.settings
+  }
+
+  // Replaces the bindings and persists them
+  setSettings(settings: InputSettings): void {
+    this.settings = settings
+    saveInputSettings(settings)
+  }
+
+  resetToDefaults(): void {
+    this.setSettings(defaultInputSettings())
+  }
+
+  // The next press on device (a key or a gamepad button) goes to callback
+  // instead of the game; presses on the other device are ignored and Escape
+  // cancels with null. Returns a function that stops waiting.
+  captureNext(device: InputDevice, callback: (input: CapturedInput | null) => void): () => void {
+    const capture = { device, callback }
+    this.capture = capture
+    return () => {
+      if (this.capture === capture) this.capture = null
+    }
+  }
+
+  // Presses or releases a button of the on-screen pad; picked up by the next poll
+  setTouchButton(port: number, button: SNESButton, pressed: boolean): void {
+    const buttons = this.touchButtons[port]
+    if (!buttons) return
+    if (pressed) {
+      buttons.add(button)
+    } else {
+      buttons.delete(button)
+    }
+  }
+
+  isCapturing(): boolean {
+    return this.capture !== null
+  }
+
+  // Reads the gamepads and reports every SNES button whose state changed
+  poll(): void {
+    const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : []
+    const padButtonsDown = new Set<string>()
+    for (const pad of pads) {
+      if (!pad) continue
+      pad.buttons.forEach((button, index) => {
+        if (button.pressed) padButtonsDown.add(`${pad.index}:${index}`)
+      })
+    }
+
+    if (this.capture?.device === 'gamepad') {
+      for (const id of padButtonsDown) {
+        if (this.padButtonsDown.has(id)) continue
+        const { callback } = this.capture
+        this.capture = null
+        callback({ type: 'gamepad', index: Number(id.split(':')[1]) })
+        break
+      }
+    }
+    this.padButtonsDown = padButtonsDown
+
+    for (let port = 0; port < INPUT_PLAYERS; port++) {
+      const bindings = this.settings.players[port]
+      const pad = bindings.gamepadIndex !== null ? pads[bindings.gamepadIndex] ?? null : null
+      for (const { button } of BINDABLE_BUTTONS) {
+        const pressed = !this.capture && (this.touchButtons[port].has(button) || this.isPressed(bindings, pad, button))
+        if (pressed !== (this.buttonStates[port][button] ?? false)) {
+          this.buttonStates[port][button] = pressed
+          this.onChange(port, button, pressed)
+        }
+      }
+    }
+  }
+
+  private isPressed(bindings: PlayerBindings, pad: Gamepad | null, button: SNESButton): boolean {
+    const code = bindings.keyboard[button]
+    if (code !== undefined && this.keysDown.has(code)) return true
+    if (!pad) return false
+
+    const index = bindings.gamepad[button]
+    if (index !== undefined && pad.buttons[index]?.pressed) return true
+
+    // Left stick: axis 0 is X (right positive), axis 1 is Y (down positive)
+    const threshold = this.settings.analogThreshold
+    const x = pad.axes[0] ?? 0
+    const y = pad.axes[1] ?? 0
+    switch (button) {
+      case SNESButton.Left: return x <= -threshold
+      case SNESButton.Right: return x >= threshold
+      case SNESButton.Up: return y <= -threshold
+      case SNESButton.Down: return y >= threshold
+      default: return false
+    }
+  }
+
+  private isBound(code: string): boolean {
+    return this.settings.players.some(player => Object.values(player.keyboard).includes(code))
+  }
+
+  private releaseAll(): void {
+    this.buttonStates.forEach((states, port) => {
+      states.forEach((pressed, button) => {
+        if (pressed) this.onChange(port, button, false)
+      })
+    })
+    this.buttonStates = Array.from({ length: INPUT_PLAYERS }, () => [])
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    const target = event.target as HTMLElement | null
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return
+
+    if (this.capture) {
+      const { device, callback } = this.capture
+      if (device !== 'keyboard' && event.code !== 'Escape') return
+      event.preventDefault()
+      this.capture = null
+      callback(event.code === 'Escape' ? null : { type: 'key', code: event.code })
+      return
+    }
+
+    if (this.isBound(event.code)) {
+      // Keep arrows and space from scrolling the page
+      event.preventDefault()
+      this.keysDown.add(event.code)
+    }
+  }
+
+  private handleKeyUp = (event: KeyboardEvent): void => {
+    this.keysDown.delete(event.code)
+  }
+
+  // Keys released while the window is unfocused never send keyup
+  private handleBlur = (): void => {
+    this.keysDown.clear()
+  }
+}
@@ -0,0 +1,58 @@
+export const TOUCH_STORAGE_KEY = 'snes-touch-controller'
+
+export interface TouchControllerSettings {
+  // 0.1-1
+  opacity: number
+  // Multiplier on the default button sizes, 0.75-1.5
+  scale: number
+  // Puts the D-pad on the right and the face buttons on the left
+  leftHanded: boolean
+  // Short vibration on each press, where navigator.vibrate exists
+  haptics: boolean
+}
+
+export function defaultTouchControllerSettings(): TouchControllerSettings {
+  return {
+    opacity: 0.6,
+    scale: 1,
+    leftHanded: false,
+    haptics: true
+  }
+}
+
+function isInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && value >= min && value <= max
+}
+
+// Stored fields that are missing, of the wrong type or out of range fall back
+// to their defaults
+export function loadTouchControllerSettings(): TouchControllerSettings {
+  const defaults = defaultTouchControllerSettings()
+  if (typeof window === 'undefined') return defaults
+
+  try {
+    const stored = window.localStorage.getItem(TOUCH_STORAGE_KEY)
+    if (!stored) return defaults
+    const parsed: unknown = JSON.parse(stored)
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return defaults
+    const { opacity, scale, leftHanded, haptics } = parsed as Record<string, unknown>
+    return {
+      opacity: isInRange(opacity, 0.1, 1) ? opacity : defaults.opacity,
+      scale: isInRange(scale, 0.75, 1.5) ? scale : defaults.scale,
+      leftHanded: typeof leftHanded === 'boolean' ? leftHanded : defaults.leftHanded,
+      haptics: typeof haptics === 'boolean' ? haptics : defaults.haptics
+    }
+  } catch (err) {
+    console.warn('[DEBUG] Failed to load touch controller settings, using defaults:', err)
+    return defaults
+  }
+}
+
+export function saveTouchControllerSettings(settings: TouchControllerSettings): void {
+  if (typeof window === 'undefined') return
+  try {
+    window.localStorage.setItem(TOUCH_STORAGE_KEY, JSON.stringify(settings))
+  } catch (err) {
+    console.warn('[DEBUG] Failed to save touch controller settings:', err)
+  }
+}
@@ -1,10 +1,34 @@
+// Ring buffer header layout, shared with src/emulator/core/audioRingBuffer.ts
+const RING_WRITE_INDEX = 0
+const RING_READ_INDEX = 1
+const RING_UNDERRUNS = 2
+const RING_OVERRUNS = 3
+
+// How often (in render quanta) the message-port fallback reports its fill level
+const STATS_INTERVAL = 8
+
 class SNESAudioProcessor extends AudioWorkletProcessor {
-  constructor() {
+  constructor(options) {
     super()
-    this.volume = 1.0
-    this.bufferSize = 2048
-    this.audioBuffer = new Float32Array(this.bufferSize)
-    this.bufferIndex = 0
+    const { shared, capacity } = options.processorOptions
+
+    this.capacity = capacity
+    this.quantaSinceStats = 0
+    this.lastLeft = 0
+    this.lastRight = 0
+
+    if (shared) {
+      // Lock-free path: the emulator writes straight into shared memory
+      this.header = new Int32Array(shared.header)
+      this.data = new Float32Array(shared.data)
+      this.shared = true
+    } else {
+      // Fallback path: samples arrive over the message port into a private ring
+      this.header = new Int32Array(4)
+      this.data = new Float32Array(capacity * 2)
+      this.shared = false
+      this.port.onmessage = (event) => this.receiveAudioData(event.data)
+    }
   }
 
   static get parameterDescriptors() {
@@ -17,32 +41,74 @@ class SNESAudioProcessor extends AudioWorkletProcessor {
     }]
   }
 
+  availableRead() {
+    const write = Atomics.load(this.header, RING_WRITE_INDEX)
+    const read = Atomics.load(this.header, RING_READ_INDEX)
+    return (write - read + this.capacity) % this.capacity
+  }
+
   process(inputs, outputs, parameters) {
     const output = outputs[0]
+    const left = output[0]
+    const right = output[1] || output[0]
     const volume = parameters.volume[0]
+    const frames = left.length
+
+    const available = this.availableRead()
+    const count = Math.min(frames, available)
+    let read = Atomics.load(this.header, RING_READ_INDEX)
 
-    // Process each channel (stereo)
-    for (let channel = 0; channel < output.length; channel++) {
-      const outputChannel = output[channel]
+    for (let i = 0; i < count; i++) {
+      this.lastLeft = this.data[read * 2]
+      this.lastRight = this.data[read * 2 + 1]
+      left[i] = this.lastLeft * volume
+      right[i] = this.lastRight * volume
+      read = (read + 1) % this.capacity
+    }
+    Atomics.store(this.header, RING_READ_INDEX, read)
 
-      // Fill output buffer with audio data
-      for (let i = 0; i < outputChannel.length; i++) {
-        if (this.bufferIndex >= this.audioBuffer.length) {
-          this.bufferIndex = 0
-        }
-        outputChannel[i] = this.audioBuffer[this.bufferIndex++] * volume
+    // Underrun: hold the last sample rather than clicking to silence
+    if (count < frames) {
+      for (let i = count; i < frames; i++) {
+        left[i] = this.lastLeft * volume
+        right[i] = this.lastRight * volume
       }
+      Atomics.add(this.header, RING_UNDERRUNS, 1)
+    }
+
+    if (!this.shared && ++this.quantaSinceStats >= STATS_INTERVAL) {
+      this.quantaSinceStats = 0
+      this.port.postMessage({
+        type: 'stats',
+        bufferedFrames: this.availableRead(),
+        underruns: this.header[RING_UNDERRUNS],
+        overruns: this.header[RING_OVERRUNS]
+      })
     }
 
     return true
   }
 
-  // Method to receive audio data from the emulator
+  // Message-port fallback: append a chunk of interleaved stereo frames
   receiveAudioData(data) {
-    // Copy new audio data to our buffer
-    this.audioBuffer.set(data)
-    this.bufferIndex = 0
+    if (data.type !== 'samples') return
+
+    const samples = data.samples
+    const frames = samples.length / 2
+    const writable = Math.min(frames, this.capacity - 1 - this.availableRead())
+    let write = this.header[RING_WRITE_INDEX]
+
+    for (let i = 0; i < writable; i++) {
+      this.data[write * 2] = samples[i * 2]
+      this.data[write * 2 + 1] = samples[i * 2 + 1]
+      write = (write + 1) % this.capacity
+    }
+    this.header[RING_WRITE_INDEX] = write
+
+    if (writable < frames) {
+      this.header[RING_OVERRUNS] += frames - writable
+    }
   }
 }
 
-registerProcessor('snes-audio-processor', SNESAudioProcessor) 
\ No newline at end of file
+registerProcessor('snes-audio-processor', SNESAudioProcessor)
@@ -1,19 +1,82 @@
-import { Memory } from './memory';
+import { SPC700, SPC700Bus, SPC700State } from './spc700';
+import { DSP } from './dsp';
 
-// Basic APU placeholder
-export class APU {
-    private memory: Memory | null = null;
+// IPL boot ROM mapped at $FFC0-$FFFF while CONTROL bit 7 is set. It clears the
+// zero page, signals $BBAA on ports 0/1 and runs the upload protocol the main
+// CPU drives through $2140-$2143.
+const IPL_ROM = new Uint8Array([
+    0xCD, 0xEF, 0xBD, 0xE8, 0x00, 0xC6, 0x1D, 0xD0, 0xFC, 0x8F, 0xAA, 0xF4, 0x8F, 0xBB, 0xF5, 0x78,
+    0xCC, 0xF4, 0xD0, 0xFB, 0x2F, 0x19, 0xEB, 0xF4, 0xD0, 0xFC, 0x7E, 0xF4, 0xD0, 0x0B, 0xE4, 0xF5,
+    0xCB, 0xF4, 0xD7, 0x00, 0xFC, 0xD0, 0xF3, 0xAB, 0x01, 0x10, 0xEF, 0x7E, 0xF4, 0x10, 0xEB, 0xBA,
+    0xF6, 0xDA, 0x00, 0xBA, 0xF4, 0xC4, 0xF4, 0xDD, 0x5D, 0xD0, 0xDB, 0x1F, 0x00, 0x00, 0xC0, 0xFF
+]);
+const IPL_ROM_BASE = 0xFFC0;
+
+// The SPC700 runs at 1.024MHz against the 21.477MHz master clock
+const MASTER_CYCLES_PER_APU_CYCLE = 21;
+
+// The DSP produces one stereo sample every 32 SPC700 cycles (32kHz)
+const APU_CYCLES_PER_SAMPLE = 32;
+const DSP_SAMPLE_RATE = 32000;
+
+// 32kHz samples buffered between the emulation loop and the audio callback
+const SAMPLE_BUFFER_SIZE = 8192;
+
+// Timers 0 and 1 tick at 8kHz, timer 2 at 64kHz
+const TIMER_DIVIDERS = [128, 128, 16];
+
+interface APUTimer {
+    enabled: boolean;
+    target: number;  // $FA-$FC; 0 means 256
+    divider: number; // SPC700 cycles until the next tick
+    stage: number;   // Ticks since the output last incremented
+    output: number;  // 4-bit counter read (and cleared) through $FD-$FF
+}
+
+export interface APUState {
+    cycles: number;
+    spc: SPC700State;
+    portsIn: number[];
+    portsOut: number[];
+    iplEnabled: boolean;
+}
+
+// Sound processing unit: SPC700 CPU, S-DSP, 64KB of ARAM, I/O ports and timers
+export class APU implements SPC700Bus {
     private cycles: number = 0;
+    private masterCycleRemainder: number = 0; // Master cycles not yet converted to APU cycles
+    private cycleDebt: number = 0; // APU cycles owed to the SPC700 (negative when it ran ahead)
 
     // Target sample rate for SNES audio
     public static readonly SAMPLE_RATE = 44100;
 
-    // APU registers and internal state
-    private registers: Uint8Array = new Uint8Array(256);
+    private spc: SPC700;
+    private aram: Uint8Array = new Uint8Array(0x10000);
+
+    // I/O ports: the main CPU writes portsIn ($2140-$2143 → $F4-$F7) and reads
+    // portsOut ($F4-$F7 → $2140-$2143)
+    private portsIn: Uint8Array = new Uint8Array(4);
+    private portsOut: Uint8Array = new Uint8Array(4);
+
+    private iplEnabled: boolean = true;
+    private timers: APUTimer[] = [];
+
+    // DSP register file, accessed by the SPC700 through $F2/$F3
     private dspRegisters: Uint8Array = new Uint8Array(128);
     private dspAddress: number = 0;
+    private dsp: DSP;
+    private dspCycles: number = 0; // SPC700 cycles towards the next DSP sample
+
+    // Ring buffer of DSP output, drained and resampled by readSamples
+    private sampleBufferL: Int16Array = new Int16Array(SAMPLE_BUFFER_SIZE);
+    private sampleBufferR: Int16Array = new Int16Array(SAMPLE_BUFFER_SIZE);
+    private sampleReadPos: number = 0;
+    private sampleWritePos: number = 0;
+    private resamplePhase: number = 0; // Fractional position between the two oldest samples
 
     constructor() {
+        this.spc = new SPC700(this);
+        this.dsp = new DSP(this.aram, this.dspRegisters);
         // Initialize APU state
         this.reset();
         console.debug('[DEBUG] APU: Initialized');
@@ -21,7 +84,21 @@ export class APU {
 
     reset(): void {
         this.cycles = 0;
-        // TODO: Reset SPC700/DSP state here
+        this.masterCycleRemainder = 0;
+        this.cycleDebt = 0;
+        this.aram.fill(0);
+        this.portsIn.fill(0);
+        this.portsOut.fill(0);
+        this.iplEnabled = true;
+        this.timers = TIMER_DIVIDERS.map(divider => ({ enabled: false, target: 0, divider, stage: 0, output: 0 }));
+        this.dspRegisters.fill(0);
+        this.dspAddress = 0;
+        this.dsp.reset();
+        this.dspCycles = 0;
+        this.sampleReadPos = 0;
+        this.sampleWritePos = 0;
+        this.resamplePhase = 0;
+        this.spc.reset();
         console.debug('[DEBUG] APU: Reset');
     }
 
@@ -31,64 +108,192 @@ export class APU {
      * So APU cycles are roughly CPU cycles / 21.
      */
     runCycles(cpuCycles: number): void {
-        const apuCycles = Math.floor(cpuCycles / 21); 
-        this.cycles += apuCycles;
-        // TODO: Emulate SPC700/DSP cycles here
+        const total = this.masterCycleRemainder + cpuCycles;
+        const apuCycles = Math.floor(total / MASTER_CYCLES_PER_APU_CYCLE);
+        this.masterCycleRemainder = total - apuCycles * MASTER_CYCLES_PER_APU_CYCLE;
+
+        this.cycleDebt += apuCycles;
+        while (this.cycleDebt > 0) {
+            const cycles = this.spc.step();
+            this.cycleDebt -= cycles;
+            this.cycles += cycles;
+            this.clockTimers(cycles);
+            this.clockDSP(cycles);
+        }
+    }
+
+    private clockDSP(cycles: number): void {
+        this.dspCycles += cycles;
+        while (this.dspCycles >= APU_CYCLES_PER_SAMPLE) {
+            this.dspCycles -= APU_CYCLES_PER_SAMPLE;
+            this.dsp.runSample();
+
+            this.sampleBufferL[this.sampleWritePos] = this.dsp.getOutputLeft();
+            this.sampleBufferR[this.sampleWritePos] = this.dsp.getOutputRight();
+            this.sampleWritePos = (this.sampleWritePos + 1) % SAMPLE_BUFFER_SIZE;
+            // Drop the oldest sample when the audio callback falls behind
+            if (this.sampleWritePos === this.sampleReadPos) {
+                this.sampleReadPos = (this.sampleReadPos + 1) % SAMPLE_BUFFER_SIZE;
+            }
+        }
+    }
+
+    // Drops buffered DSP output, e.g. when audio playback (re)starts
+    discardSamples(): void {
+        this.sampleReadPos = this.sampleWritePos;
+        this.resamplePhase = 0;
+    }
+
+    private bufferedSamples(): number {
+        return (this.sampleWritePos - this.sampleReadPos + SAMPLE_BUFFER_SIZE) % SAMPLE_BUFFER_SIZE;
     }
 
     /**
-     * Generates audio samples into the provided buffer.
+     * Resamples buffered DSP output into the provided buffers.
      * @param bufferL Left channel buffer
      * @param bufferR Right channel buffer
+     * @param outputRate Sample rate of the audio output
+     * @param rateAdjust Multiplier on the resampling step; values above 1 consume
+     *                   DSP samples faster and so produce fewer output samples
+     * @returns Number of samples written, limited by the buffered DSP output
      */
-    generateSamples(bufferL: Float32Array, bufferR: Float32Array): void {
-        const length = bufferL.length;
-        // TODO: Generate real audio samples from the S-DSP emulation
-
-        // For now, fill with silence
-        for (let i = 0; i < length; i++) {
-            bufferL[i] = 0.0;
-            bufferR[i] = 0.0;
+    readSamples(bufferL: Float32Array, bufferR: Float32Array, outputRate: number, rateAdjust: number = 1): number {
+        const step = (DSP_SAMPLE_RATE / outputRate) * rateAdjust;
+        let count = 0;
+
+        // Linear interpolation between the two oldest buffered samples
+        while (count < bufferL.length && this.bufferedSamples() > 1) {
+            const current = this.sampleReadPos;
+            const next = (current + 1) % SAMPLE_BUFFER_SIZE;
+            const t = this.resamplePhase;
+            bufferL[count] = (this.sampleBufferL[current] * (1 - t) + this.sampleBufferL[next] * t) / 32768;
+            bufferR[count] = (this.sampleBufferR[current] * (1 - t) + this.sampleBufferR[next] * t) / 32768;
+            count++;
+
+            this.resamplePhase += step;
+            while (this.resamplePhase >= 1 && this.bufferedSamples() > 1) {
+                this.resamplePhase -= 1;
+                this.sampleReadPos = (this.sampleReadPos + 1) % SAMPLE_BUFFER_SIZE;
+            }
         }
+        return count;
     }
 
-    // TODO: Add methods for reading/writing APU registers ($2140-$217F)
-    readRegister(address: number): number {
-        console.warn(`[WARN] APU readRegister 0x${address.toString(16)} not implemented.`);
-        // Read from memory map for now, needs proper handling
-        return this.memory?.read8(address) || 0;
+    // Main CPU side of the I/O ports ($2140-$217F, mirrored every four bytes)
+    readPort(port: number): number {
+        return this.portsOut[port & 3];
     }
 
-    // Write to APU registers (SPC700, DSP)
-    writeRegister(address: number, value: number): void {
-        // Add APU register handling code
-        const regIndex = address & 0xFF;
-        
-        // CRITICAL FIX: Don't call memory.write8 from here to prevent infinite recursion
-        // Just update internal state directly
-        
-        // Store the register value
-        this.registers[regIndex] = value;
-        
-        // Handle register writes based on address
-        switch (regIndex) {
-            case 0x40: // SOUND TEST register
-                console.debug(`[DEBUG] APU: Sound Test Register Write: ${value.toString(16)}`);
-                break;
-            case 0x41: // Control register
-                console.debug(`[DEBUG] APU: Control Register Write: ${value.toString(16)}`);
+    writePort(port: number, value: number): void {
+        this.portsIn[port & 3] = value & 0xFF;
+    }
+
+    // --- SPC700 bus ---
+
+    read8(address: number): number {
+        if (address >= 0x00F0 && address <= 0x00FF) {
+            return this.readIO(address);
+        }
+        if (address >= IPL_ROM_BASE && this.iplEnabled) {
+            return IPL_ROM[address - IPL_ROM_BASE];
+        }
+        return this.aram[address];
+    }
+
+    write8(address: number, value: number): void {
+        if (address >= 0x00F0 && address <= 0x00FF) {
+            this.writeIO(address, value);
+        }
+        // Writes always land in ARAM, even underneath the IPL ROM
+        this.aram[address] = value;
+    }
+
+    private readIO(address: number): number {
+        switch (address) {
+            case 0xF2: // DSPADDR
+                return this.dspAddress;
+            case 0xF3: // DSPDATA (mirrors $00-$7F for addresses $80-$FF)
+                return this.dspRegisters[this.dspAddress & 0x7F];
+            case 0xF4: case 0xF5: case 0xF6: case 0xF7:
+                return this.portsIn[address - 0xF4];
+            case 0xFD: case 0xFE: case 0xFF: { // Timer outputs clear on read
+                const timer = this.timers[address - 0xFD];
+                const value = timer.output;
+                timer.output = 0;
+                return value;
+            }
+            case 0xF0: case 0xF1: case 0xFA: case 0xFB: case 0xFC:
+                return 0; // Write-only
+            default: // $F8/$F9 behave as plain RAM
+                return this.aram[address];
+        }
+    }
+
+    private writeIO(address: number, value: number): void {
+        switch (address) {
+            case 0xF1: // CONTROL
+                for (let i = 0; i < 3; i++) {
+                    const enable = (value & (1 << i)) !== 0;
+                    // Enabling a stopped timer restarts its counters
+                    if (enable && !this.timers[i].enabled) {
+                        this.timers[i].stage = 0;
+                        this.timers[i].output = 0;
+                    }
+                    this.timers[i].enabled = enable;
+                }
+                if (value & 0x10) {
+                    this.portsIn[0] = 0;
+                    this.portsIn[1] = 0;
+                }
+                if (value & 0x20) {
+                    this.portsIn[2] = 0;
+                    this.portsIn[3] = 0;
+                }
+                this.iplEnabled = (value & 0x80) !== 0;
                 break;
-            case 0x42: // DSP Register Address
+            case 0xF2: // DSPADDR
                 this.dspAddress = value;
-                console.debug(`[DEBUG] APU: DSP Register Address set to ${value.toString(16)}`);
                 break;
-            case 0x43: // DSP Register Data
-                this.dspRegisters[this.dspAddress] = value;
-                console.debug(`[DEBUG] APU: DSP Register ${this.dspAddress.toString(16)} set to ${value.toString(16)}`);
+            case 0xF3: // DSPDATA; $80-$FF are read-only mirrors
+                if (this.dspAddress < 0x80) {
+                    this.dspRegisters[this.dspAddress] = value;
+                    this.dsp.writeRegister(this.dspAddress, value);
+                }
+                break;
+            case 0xF4: case 0xF5: case 0xF6: case 0xF7:
+                this.portsOut[address - 0xF4] = value;
+                break;
+            case 0xFA: case 0xFB: case 0xFC:
+                this.timers[address - 0xFA].target = value;
                 break;
             default:
-                // No need to write back to memory
                 break;
         }
     }
-} 
\ No newline at end of file
+
+    private clockTimers(cycles: number): void {
+        for (let i = 0; i < 3; i++) {
+            const timer = this.timers[i];
+            timer.divider -= cycles;
+            while (timer.divider <= 0) {
+                timer.divider += TIMER_DIVIDERS[i];
+                if (!timer.enabled) continue;
+                timer.stage = (timer.stage + 1) & 0xFF;
+                if (timer.stage === timer.target) { // A target of 0 wraps after 256 ticks
+                    timer.stage = 0;
+                    timer.output = (timer.output + 1) & 0x0F;
+                }
+            }
+        }
+    }
+
+    getState(): APUState {
+        return {
+            cycles: this.cycles,
+            spc: this.spc.getState(),
+            portsIn: Array.from(this.portsIn),
+            portsOut: Array.from(this.portsOut),
+            iplEnabled: this.iplEnabled
+        };
+    }
+}
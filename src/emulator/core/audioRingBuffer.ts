@@ -0,0 +1,73 @@
+// Single-producer/single-consumer ring of interleaved stereo frames shared with
+// the audio worklet (public/audio-processor.js mirrors this layout). The
+// emulator thread only moves the write index, the worklet only moves the read
+// index, so no locking is needed.
+export const RING_WRITE_INDEX = 0;
+export const RING_READ_INDEX = 1;
+export const RING_UNDERRUNS = 2; // Render quanta the worklet couldn't fill
+export const RING_OVERRUNS = 3;  // Frames dropped because the ring was full
+export const RING_HEADER_SIZE = 4;
+
+export class AudioRingBuffer {
+    private header: Int32Array;
+    private data: Float32Array;
+    private capacity: number; // In frames; one slot stays empty to tell full from empty
+
+    constructor(capacityFrames: number) {
+        this.capacity = capacityFrames;
+        this.header = new Int32Array(new SharedArrayBuffer(RING_HEADER_SIZE * Int32Array.BYTES_PER_ELEMENT));
+        this.data = new Float32Array(new SharedArrayBuffer(capacityFrames * 2 * Float32Array.BYTES_PER_ELEMENT));
+    }
+
+    // SharedArrayBuffer is only exposed on cross-origin isolated pages
+    static isSupported(): boolean {
+        return typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true;
+    }
+
+    // Buffers handed to the worklet through processorOptions
+    getSharedBuffers(): { header: SharedArrayBuffer, data: SharedArrayBuffer } {
+        return {
+            header: this.header.buffer as SharedArrayBuffer,
+            data: this.data.buffer as SharedArrayBuffer
+        };
+    }
+
+    getCapacity(): number {
+        return this.capacity;
+    }
+
+    availableRead(): number {
+        const write = Atomics.load(this.header, RING_WRITE_INDEX);
+        const read = Atomics.load(this.header, RING_READ_INDEX);
+        return (write - read + this.capacity) % this.capacity;
+    }
+
+    availableWrite(): number {
+        return this.capacity - 1 - this.availableRead();
+    }
+
+    // Writes as many frames as fit and counts the rest as overruns
+    write(left: Float32Array, right: Float32Array, count: number): number {
+        const writable = Math.min(count, this.availableWrite());
+        let write = Atomics.load(this.header, RING_WRITE_INDEX);
+        for (let i = 0; i < writable; i++) {
+            this.data[write * 2] = left[i];
+            this.data[write * 2 + 1] = right[i];
+            write = (write + 1) % this.capacity;
+        }
+        Atomics.store(this.header, RING_WRITE_INDEX, write);
+
+        if (writable < count) {
+            Atomics.add(this.header, RING_OVERRUNS, count - writable);
+        }
+        return writable;
+    }
+
+    getUnderruns(): number {
+        return Atomics.load(this.header, RING_UNDERRUNS);
+    }
+
+    getOverruns(): number {
+        return Atomics.load(this.header, RING_OVERRUNS);
+    }
+}
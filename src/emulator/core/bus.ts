@@ -0,0 +1,114 @@
+import { BusHandler } from './mappers';
+
+// The bus is decoded through a page table with one entry per 4KB page of the
+// 24-bit address space (bank << 4 | address >> 12)
+const PAGE_SHIFT = 12;
+const PAGE_SIZE = 1 << PAGE_SHIFT;
+const PAGE_MASK = PAGE_SIZE - 1;
+const PAGE_COUNT = 0x1000000 >> PAGE_SHIFT;
+
+// Folds an index past the end of an array back into it the way cartridge
+// address lines do, so e.g. a 3MB ROM repeats its last 1MB
+export function mirrorAddress(address: number, size: number): number {
+    if (size === 0) return 0;
+    let base = 0;
+    let mask = 1 << 23;
+    while (address >= size) {
+        while ((address & mask) === 0) mask >>= 1;
+        address -= mask;
+        if (size > mask) {
+            size -= mask;
+            base += mask;
+        }
+        mask >>= 1;
+    }
+    return base + address;
+}
+
+// A 24-bit address space decoded through a page table. Memory builds the main
+// CPU's bus on it; coprocessors with their own view of the cartridge use it too.
+export class Bus {
+    // Each page is backed either by an array (starting at pageOffsets, wrapped
+    // by pageMasks) or by a register handler
+    private pageMemory: (Uint8Array | null)[] = new Array(PAGE_COUNT).fill(null);
+    private pageOffsets = new Int32Array(PAGE_COUNT);
+    private pageMasks = new Int32Array(PAGE_COUNT);
+    private pageWritable = new Uint8Array(PAGE_COUNT);
+    private pageHandlers: (BusHandler | null)[] = new Array(PAGE_COUNT).fill(null);
+    private openBus: number = 0; // Last value on the data bus
+
+    // Leaves every page reading as open bus
+    protected clearPages(): void {
+        this.pageMemory.fill(null);
+        this.pageHandlers.fill(null);
+    }
+
+    // Points the pages of $first-$last:start-end at an array
+    mapMemory(first: number, last: number, start: number, end: number, memory: Uint8Array,
+              offset: (bank: number, address: number) => number, writable: boolean): void {
+        // Arrays smaller than a page repeat within it
+        const mask = memory.length < PAGE_SIZE ? memory.length - 1 : -1;
+        for (let bank = first; bank <= last; bank++) {
+            for (let address = start; address <= end; address += PAGE_SIZE) {
+                const page = (bank << 4) | (address >> PAGE_SHIFT);
+                this.pageMemory[page] = memory;
+                this.pageOffsets[page] = mirrorAddress(offset(bank, address), memory.length);
+                this.pageMasks[page] = mask;
+                this.pageWritable[page] = writable ? 1 : 0;
+                this.pageHandlers[page] = null;
+            }
+        }
+    }
+
+    // Points the pages of $first-$last:start-end at a register handler
+    mapHandler(first: number, last: number, start: number, end: number, handler: BusHandler): void {
+        for (let bank = first; bank <= last; bank++) {
+            for (let address = start; address <= end; address += PAGE_SIZE) {
+                const page = (bank << 4) | (address >> PAGE_SHIFT);
+                this.pageMemory[page] = null;
+                this.pageHandlers[page] = handler;
+            }
+        }
+    }
+
+    // Leaves the pages of $first-$last:start-end reading as open bus
+    unmap(first: number, last: number, start: number, end: number): void {
+        for (let bank = first; bank <= last; bank++) {
+            for (let address = start; address <= end; address += PAGE_SIZE) {
+                const page = (bank << 4) | (address >> PAGE_SHIFT);
+                this.pageMemory[page] = null;
+                this.pageHandlers[page] = null;
+            }
+        }
+    }
+
+    read8(address: number): number {
+        const page = (address >> PAGE_SHIFT) & 0xFFF;
+        const memory = this.pageMemory[page];
+        if (memory) {
+            this.openBus = memory[(this.pageOffsets[page] + (address & PAGE_MASK)) & this.pageMasks[page]];
+        } else {
+            const handler = this.pageHandlers[page];
+            // Unmapped pages return whatever was last on the data bus
+            if (handler) this.openBus = handler.read8(address & 0xFFFFFF);
+        }
+        return this.openBus;
+    }
+
+    write8(address: number, value: number): void {
+        // Ensure value is within 8-bit range
+        value &= 0xFF;
+
+        const page = (address >> PAGE_SHIFT) & 0xFFF;
+        const memory = this.pageMemory[page];
+        if (memory) {
+            // Writes to ROM are ignored
+            if (this.pageWritable[page]) {
+                memory[(this.pageOffsets[page] + (address & PAGE_MASK)) & this.pageMasks[page]] = value;
+            }
+        } else {
+            this.pageHandlers[page]?.write8(address & 0xFFFFFF, value);
+        }
+        this.openBus = value;
+    }
+}
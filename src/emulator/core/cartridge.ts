@@ -0,0 +1,191 @@
+import { Mapper, LoROMMapper, ExLoROMMapper, HiROMMapper, ExHiROMMapper } from './mappers';
+import { SA1Mapper } from './sa1';
+import { SuperFXMapper } from './superfx';
+import { DSP1LoROMMapper, DSP1HiROMMapper } from './dsp1';
+
+// ROM header data interface
+export interface ROMHeaderData {
+    title: string;
+    mappingMode: string; // Name of the mapper chosen for the cartridge
+    coprocessor: string | null; // On-board chip the mapper emulates
+    mapMode: number;     // Map mode byte ($FFD5)
+    romType: number;     // Cartridge type byte ($FFD6)
+    romSize: number;     // KB
+    ramSize: number;     // KB
+    checksum: number;
+    checksumComplement: number;
+}
+
+// Where the internal header (starting with the title at $FFC0 in CPU space)
+// sits in the image for each layout, and the map modes that belong there
+const HEADER_LOCATIONS = [
+    { offset: 0x007FC0, mapModes: [0x0, 0x2, 0x3] }, // LoROM
+    { offset: 0x00FFC0, mapModes: [0x1, 0x5, 0xA] }, // HiROM
+    { offset: 0x407FC0, mapModes: [0x2] },           // ExLoROM
+    { offset: 0x40FFC0, mapModes: [0x5] }            // ExHiROM
+];
+
+const MAX_SRAM_SIZE = 0x80000;
+
+// A ROM image with its parsed header, SRAM and the mapper placing them on the bus
+export class Cartridge {
+    readonly rom: Uint8Array;
+    readonly sram: Uint8Array;
+    readonly header: ROMHeaderData;
+    readonly mapper: Mapper;
+
+    constructor(data: Uint8Array) {
+        let offset = 0;
+        if (data.length % 1024 === 512) {
+            console.debug('[INFO] Detected SMC header (512 bytes)');
+            offset = 512;
+        }
+
+        // Pad to whole 32KB banks so every mapped page lies inside the ROM
+        const image = data.subarray(offset);
+        this.rom = new Uint8Array(Math.ceil(image.length / 0x8000) * 0x8000);
+        this.rom.set(image);
+
+        let headerOffset = HEADER_LOCATIONS[0].offset;
+        let bestScore = -1;
+        for (const location of HEADER_LOCATIONS) {
+            const score = Cartridge.scoreHeader(this.rom, location.offset, location.mapModes);
+            if (score > bestScore) {
+                bestScore = score;
+                headerOffset = location.offset;
+            }
+        }
+
+        const header = this.dumpHeaderData(headerOffset);
+        this.validateChecksum(image, header, headerOffset);
+
+        if (header.romSize * 1024 !== image.length) {
+            console.warn(`[WARN] ROM size mismatch: Header ${header.romSize * 1024}, Actual ${image.length}`);
+        }
+
+        this.sram = new Uint8Array(Math.min(header.ramSize * 1024, MAX_SRAM_SIZE));
+        this.mapper = this.createMapper(header, headerOffset);
+        this.header = { ...header, mappingMode: this.mapper.name, coprocessor: this.mapper.coprocessor };
+    }
+
+    /**
+     * Picks the board from the header's map mode byte. Boards are told apart by
+     * its low nibble; an unrecognised byte falls back to the layout the header
+     * was found in. DSP and Super FX boards use the plain LoROM/HiROM map
+     * modes and are recognised by the cartridge type instead.
+     */
+    private createMapper(header: ROMHeaderData, headerOffset: number): Mapper {
+        const { mapMode, romType } = header;
+        const extended = this.rom.length > 0x400000;
+        // Types $03-$05: ROM + DSP (+ RAM, + battery). DSP-2/3/4 carry the same
+        // type byte but are rare enough to assume DSP-1.
+        const dsp = romType >= 0x03 && romType <= 0x05;
+        if ((mapMode & 0xE0) === 0x20) {
+            switch (mapMode & 0x0F) {
+                case 0x0:
+                    if ((romType & 0xF0) === 0x10 && (romType & 0x0F) >= 0x3) {
+                        return new SuperFXMapper(this.rom, this.sram);
+                    }
+                    return dsp ? new DSP1LoROMMapper(this.rom, this.sram) : new LoROMMapper(this.rom, this.sram);
+                case 0x3:
+                    return new SA1Mapper(this.rom, this.sram);
+                case 0x2:
+                    return extended ? new ExLoROMMapper(this.rom, this.sram) : new LoROMMapper(this.rom, this.sram);
+                case 0x1: case 0xA:
+                    return dsp ? new DSP1HiROMMapper(this.rom, this.sram) : new HiROMMapper(this.rom, this.sram);
+                case 0x5:
+                    return extended ? new ExHiROMMapper(this.rom, this.sram) : new HiROMMapper(this.rom, this.sram);
+            }
+        }
+
+        console.warn(`[WARN] Unrecognised map mode byte: 0x${mapMode.toString(16)}, using header location`);
+        switch (headerOffset) {
+            case 0x00FFC0: return new HiROMMapper(this.rom, this.sram);
+            case 0x407FC0: return new ExLoROMMapper(this.rom, this.sram);
+            case 0x40FFC0: return new ExHiROMMapper(this.rom, this.sram);
+            default: return new LoROMMapper(this.rom, this.sram);
+        }
+    }
+
+    private static scoreHeader(rom: Uint8Array, base: number, mapModes: number[]): number {
+        if (base + 0x40 > rom.length) return -1;
+        let score = 0;
+
+        const mapMode = rom[base + 0x15];
+        if ((mapMode & 0xE0) === 0x20) score += 2;
+        if (mapModes.includes(mapMode & 0x0F)) score += 2;
+
+        const type = rom[base + 0x16];
+        if ((type & 0x0F) <= 0x06) score += 2;
+
+        const romSizeCode = rom[base + 0x17];
+        if (romSizeCode >= 0x08 && romSizeCode <= 0x0D) score += 2;
+
+        const region = rom[base + 0x19];
+        if (region <= 0x14) score += 1;
+
+        const cmp = rom[base + 0x1C] | (rom[base + 0x1D] << 8);
+        const chk = rom[base + 0x1E] | (rom[base + 0x1F] << 8);
+        if ((chk + cmp) === 0xFFFF) score += 3;
+
+        const validTitle = rom.slice(base, base + 21).every(byte => byte >= 0x20 && byte <= 0x7E);
+        if (validTitle) score += 2;
+
+        // Reset vector ($FFFC) must point into ROM
+        const resetVector = rom[base + 0x3C] | (rom[base + 0x3D] << 8);
+        if (resetVector >= 0x8000) score += 2;
+
+        return score;
+    }
+
+    // Reads the internal header at $FFC0-$FFDF (CPU space) from the image
+    private dumpHeaderData(base: number): ROMHeaderData {
+        // Extract title (21 bytes for SNES titles)
+        let title = "";
+        for (let i = 0; i < 21; i++) {
+            const charCode = this.rom[base + i];
+            if (charCode === 0) break; // Stop at null terminator
+            title += String.fromCharCode(charCode);
+        }
+
+        // Later boards with the expanded header (developer ID $33) give the
+        // coprocessor's RAM at $FFBD instead
+        let ramSizeCode = this.rom[base + 0x18];
+        if (ramSizeCode === 0 && this.rom[base + 0x1A] === 0x33) {
+            ramSizeCode = this.rom[base - 0x03] & 0x0F;
+        }
+        return {
+            title: title.trim(),
+            mappingMode: '',
+            coprocessor: null,
+            mapMode: this.rom[base + 0x15],
+            romType: this.rom[base + 0x16],
+            romSize: 1 << this.rom[base + 0x17],
+            ramSize: ramSizeCode > 0 ? 1 << ramSizeCode : 0,
+            checksum: this.rom[base + 0x1E] | (this.rom[base + 0x1F] << 8),
+            checksumComplement: this.rom[base + 0x1C] | (this.rom[base + 0x1D] << 8)
+        };
+    }
+
+    private validateChecksum(image: Uint8Array, header: ROMHeaderData, base: number): void {
+        if ((header.checksum + header.checksumComplement) !== 0xFFFF) {
+            console.warn('[WARN] Checksum complement does not add up to 0xFFFF');
+        }
+
+        // Sum of every byte, with the checksum and complement fields themselves
+        // counted as $FF $FF $00 $00
+        let calculated = 0;
+        for (let i = 0; i < image.length; i++) {
+            calculated = (calculated + image[i]) & 0xFFFF;
+        }
+        for (let i = base + 0x1C; i < base + 0x20 && i < image.length; i++) {
+            calculated = (calculated - image[i]) & 0xFFFF;
+        }
+        calculated = (calculated + 0x1FE) & 0xFFFF;
+
+        if (calculated !== header.checksum) {
+            console.warn(`ROM checksum mismatch. Expected: 0x${header.checksum.toString(16)}, Got: 0x${calculated.toString(16)}`);
+        }
+        console.debug(`[DEBUG] ROM Title: "${header.title}"`);
+    }
+}
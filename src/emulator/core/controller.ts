@@ -0,0 +1,425 @@
+// Buttons of the standard controller, numbered in the order the pad shifts
+// them out after a latch (B first)
+export enum SNESButton {
+    B = 0,
+    Y = 1,
+    Select = 2,
+    Start = 3,
+    Up = 4,
+    Down = 5,
+    Left = 6,
+    Right = 7,
+    A = 8,
+    X = 9,
+    L = 10,
+    R = 11
+}
+
+export const CONTROLLER_PORTS = 2;
+
+// Master cycles the auto-joypad read keeps HVBJOY bit 0 set (about 3 scanlines)
+export const AUTO_JOYPAD_CYCLES = 4224;
+
+// Devices that can be plugged into a controller port
+export type PeripheralType = 'none' | 'pad' | 'multitap' | 'mouse' | 'superscope';
+
+// Super Scope buttons; turbo is a press-to-toggle switch on the real thing
+export interface SuperScopeButtons {
+    trigger: boolean;
+    cursor: boolean;
+    turbo: boolean;
+    pause: boolean;
+}
+
+// Dot the picture starts at: screen pixel x is drawn at dot x + 22, and line
+// y at scanline y + 1
+const PICTURE_START_DOT = 22;
+const PICTURE_START_LINE = 1;
+
+// Something in a controller port. The console clocks it one bit at a time;
+// each read returns the port's two data lines, D0 in bit 0 and D1 in bit 1.
+export interface Peripheral {
+    readonly type: PeripheralType;
+    reset(): void;
+    // The latch line ($4016 bit 0) was written high or low
+    latch(high: boolean): void;
+    // ioBit is the port's I/O line: $4201 bit 6 for port 1, bit 7 for port 2
+    read(ioBit: boolean): number;
+}
+
+// Empty port: the data lines float low
+class NoPeripheral implements Peripheral {
+    readonly type: PeripheralType = 'none';
+
+    reset(): void {}
+
+    latch(_high: boolean): void {}
+
+    read(_ioBit: boolean): number {
+        return 0;
+    }
+}
+
+// Standard controller: a 16-bit shift register loaded from the buttons on latch.
+// Bits 12-15 (the ID) read as 0, and every read past the 16th returns 1.
+class Joypad implements Peripheral {
+    readonly type: PeripheralType = 'pad';
+    private buttons: number = 0;
+    private shift: number = 0;
+    private bitsRead: number = 0;
+    private latched: boolean = false;
+
+    setButton(button: SNESButton, pressed: boolean): void {
+        if (pressed) {
+            this.buttons |= 1 << button;
+        } else {
+            this.buttons &= ~(1 << button);
+        }
+    }
+
+    // The pad reloads continuously while the latch line is high, so the
+    // buttons are captured when it drops
+    latch(high: boolean): void {
+        this.latched = high;
+        this.reload();
+    }
+
+    // Next bit on the serial data line (D0)
+    read(_ioBit: boolean): number {
+        // While latched the register keeps reloading, so it presents B
+        if (this.latched) this.reload();
+        if (this.bitsRead >= 16) return 1;
+        const bit = this.shift & 1;
+        this.shift >>= 1;
+        this.bitsRead++;
+        return bit;
+    }
+
+    reset(): void {
+        this.buttons = 0;
+        this.shift = 0;
+        this.bitsRead = 0;
+        this.latched = false;
+    }
+
+    private reload(): void {
+        this.shift = this.buttons;
+        this.bitsRead = 0;
+    }
+}
+
+// Multitap (Super Multitap): four pads behind one port. The port's I/O line
+// picks the pair on the data lines: high gives pads 1/2 on D0/D1, low pads 3/4.
+// While latched D1 is held high, which is how games detect it.
+class Multitap implements Peripheral {
+    readonly type: PeripheralType = 'multitap';
+    readonly pads: Joypad[] = Array.from({ length: 4 }, () => new Joypad());
+    private latched: boolean = false;
+
+    reset(): void {
+        for (const pad of this.pads) pad.reset();
+        this.latched = false;
+    }
+
+    latch(high: boolean): void {
+        this.latched = high;
+        for (const pad of this.pads) pad.latch(high);
+    }
+
+    read(ioBit: boolean): number {
+        const [first, second] = ioBit ? [this.pads[0], this.pads[1]] : [this.pads[2], this.pads[3]];
+        if (this.latched) return first.read(ioBit) | 0x02;
+        return first.read(ioBit) | (second.read(ioBit) << 1);
+    }
+}
+
+// SNES Mouse: a 32-bit report of buttons, sensitivity and the movement since
+// the last latch, each axis as sign + 7-bit magnitude. Clocking it while the
+// latch line is high steps the sensitivity instead.
+class Mouse implements Peripheral {
+    readonly type: PeripheralType = 'mouse';
+    private dx: number = 0; // Movement accumulated since the last latch
+    private dy: number = 0;
+    private left: boolean = false;
+    private right: boolean = false;
+    private speed: number = 0; // Sensitivity 0-2
+    private report: number = 0;
+    private bitsRead: number = 0;
+    private latched: boolean = false;
+
+    move(dx: number, dy: number): void {
+        this.dx += dx;
+        this.dy += dy;
+    }
+
+    setButtons(left: boolean, right: boolean): void {
+        this.left = left;
+        this.right = right;
+    }
+
+    latch(high: boolean): void {
+        if (this.latched && !high) this.capture();
+        this.latched = high;
+    }
+
+    read(_ioBit: boolean): number {
+        if (this.latched) {
+            this.speed = (this.speed + 1) % 3;
+            return 0;
+        }
+        if (this.bitsRead >= 32) return 1;
+        // Sent most significant bit first
+        const bit = (this.report >>> (31 - this.bitsRead)) & 1;
+        this.bitsRead++;
+        return bit;
+    }
+
+    reset(): void {
+        this.dx = 0;
+        this.dy = 0;
+        this.left = false;
+        this.right = false;
+        this.speed = 0;
+        this.report = 0;
+        this.bitsRead = 0;
+        this.latched = false;
+    }
+
+    // Bits 16-23: right, left, sensitivity (2 bits), signature 0001;
+    // bits 8-15 and 0-7: Y and X movement (up and left negative)
+    private capture(): void {
+        const axis = (delta: number) => {
+            // Higher sensitivities scale the movement by 1.5 and 2
+            const scaled = Math.trunc(delta * [1, 1.5, 2][this.speed]);
+            const magnitude = Math.min(Math.abs(scaled), 0x7F);
+            return (scaled < 0 ? 0x80 : 0) | magnitude;
+        };
+        const status = (this.right ? 0x80 : 0) | (this.left ? 0x40 : 0) | (this.speed << 4) | 0x01;
+        this.report = ((status << 16) | (axis(this.dy) << 8) | axis(this.dx)) >>> 0;
+        this.bitsRead = 0;
+        this.dx = 0;
+        this.dy = 0;
+    }
+}
+
+// Super Scope light gun. The report is trigger, cursor, turbo, pause, two
+// unused bits, offscreen and noise, then an ID of eight 1s. While the gun sees
+// the screen it pulls the port 2 I/O line as the beam passes its aim point,
+// which latches the PPU counters ($213C/$213D).
+class SuperScope implements Peripheral {
+    readonly type: PeripheralType = 'superscope';
+    private x: number = 0;
+    private y: number = 0;
+    private onScreen: boolean = false;
+    private buttons: SuperScopeButtons = { trigger: false, cursor: false, turbo: false, pause: false };
+    private turboOn: boolean = false;
+    private triggerLock: boolean = false; // Outside turbo mode a held trigger fires once
+    private pauseLock: boolean = false;
+    private report: number = 0;
+    private bitsRead: number = 0;
+    private latched: boolean = false;
+
+    // Screen position (256x224 picture) the gun points at, or null when it is
+    // pointed away from the screen
+    aim(x: number | null, y: number | null): void {
+        if (x === null || y === null || x < 0 || x >= 256 || y < 0 || y >= 224) {
+            this.onScreen = false;
+            return;
+        }
+        this.x = Math.floor(x);
+        this.y = Math.floor(y);
+        this.onScreen = true;
+    }
+
+    setButtons(buttons: SuperScopeButtons): void {
+        if (buttons.turbo && !this.buttons.turbo) this.turboOn = !this.turboOn;
+        this.buttons = { ...buttons };
+    }
+
+    // Dot and scanline at which the gun sees the beam, or null when off screen
+    getLatchPosition(): { dot: number; line: number } | null {
+        if (!this.onScreen) return null;
+        return { dot: this.x + PICTURE_START_DOT, line: this.y + PICTURE_START_LINE };
+    }
+
+    latch(high: boolean): void {
+        if (this.latched && !high) this.capture();
+        this.latched = high;
+    }
+
+    read(_ioBit: boolean): number {
+        if (this.bitsRead >= 16) return 1;
+        const bit = (this.report >> this.bitsRead) & 1;
+        this.bitsRead++;
+        return bit;
+    }
+
+    reset(): void {
+        this.onScreen = false;
+        this.buttons = { trigger: false, cursor: false, turbo: false, pause: false };
+        this.turboOn = false;
+        this.triggerLock = false;
+        this.pauseLock = false;
+        this.report = 0;
+        this.bitsRead = 0;
+        this.latched = false;
+    }
+
+    private capture(): void {
+        let trigger = false;
+        if (this.turboOn) {
+            trigger = this.buttons.trigger;
+        } else if (this.buttons.trigger && !this.triggerLock) {
+            trigger = true;
+            this.triggerLock = true;
+        } else if (!this.buttons.trigger) {
+            this.triggerLock = false;
+        }
+
+        let pause = false;
+        if (this.buttons.pause && !this.pauseLock) {
+            pause = true;
+            this.pauseLock = true;
+        } else if (!this.buttons.pause) {
+            this.pauseLock = false;
+        }
+
+        this.report = (trigger ? 0x01 : 0)
+            | (this.buttons.cursor ? 0x02 : 0)
+            | (this.turboOn ? 0x04 : 0)
+            | (pause ? 0x08 : 0)
+            | (this.onScreen ? 0 : 0x40)
+            | 0xFF00;
+        this.bitsRead = 0;
+    }
+}
+
+function createPeripheral(type: PeripheralType): Peripheral {
+    switch (type) {
+        case 'pad': return new Joypad();
+        case 'multitap': return new Multitap();
+        case 'mouse': return new Mouse();
+        case 'superscope': return new SuperScope();
+        default: return new NoPeripheral();
+    }
+}
+
+/**
+ * The two controller ports: the serial interface at $4016/$4017, the I/O
+ * lines driven from WRIO ($4201) and the auto-joypad read that fills
+ * $4218-$421F at the start of V-blank.
+ */
+export class ControllerPorts {
+    private devices: Peripheral[] = [new Joypad(), new Joypad()];
+    private strobe: boolean = false;
+    private ioPort: number = 0xFF; // WRIO ($4201)
+    private autoRead = new Uint16Array(4); // JOY1-JOY4 ($4218-$421F)
+
+    reset(): void {
+        for (const device of this.devices) device.reset();
+        this.strobe = false;
+        this.ioPort = 0xFF;
+        this.autoRead.fill(0);
+    }
+
+    setPeripheral(port: number, type: PeripheralType): void {
+        if (port < 0 || port >= CONTROLLER_PORTS) return;
+        this.devices[port] = createPeripheral(type);
+    }
+
+    getPeripheralType(port: number): PeripheralType {
+        return this.devices[port]?.type ?? 'none';
+    }
+
+    // Players are numbered across the ports: a pad is one player, a multitap
+    // four, so a pad in port 1 and a multitap in port 2 give players 0-4
+    setButton(player: number, button: SNESButton, pressed: boolean): void {
+        for (const device of this.devices) {
+            const pads = device instanceof Joypad ? [device] : device instanceof Multitap ? device.pads : [];
+            if (player < pads.length) {
+                pads[player].setButton(button, pressed);
+                return;
+            }
+            player -= pads.length;
+        }
+    }
+
+    // Movement and buttons go to every mouse plugged in
+    moveMouse(dx: number, dy: number): void {
+        for (const device of this.devices) {
+            if (device instanceof Mouse) device.move(dx, dy);
+        }
+    }
+
+    setMouseButtons(left: boolean, right: boolean): void {
+        for (const device of this.devices) {
+            if (device instanceof Mouse) device.setButtons(left, right);
+        }
+    }
+
+    aimSuperScope(x: number | null, y: number | null): void {
+        for (const device of this.devices) {
+            if (device instanceof SuperScope) device.aim(x, y);
+        }
+    }
+
+    setSuperScopeButtons(buttons: SuperScopeButtons): void {
+        for (const device of this.devices) {
+            if (device instanceof SuperScope) device.setButtons(buttons);
+        }
+    }
+
+    // Where a light gun in port 2 (the port wired to the PPU latch) will latch
+    // the counters this frame, if anywhere
+    getLightGunLatch(): { dot: number; line: number } | null {
+        const device = this.devices[1];
+        return device instanceof SuperScope ? device.getLatchPosition() : null;
+    }
+
+    // JOYWR ($4016): bit 0 is the latch line
+    writeStrobe(value: number): void {
+        this.strobe = (value & 0x01) !== 0;
+        for (const device of this.devices) device.latch(this.strobe);
+    }
+
+    // WRIO ($4201): bits 6 and 7 drive the I/O lines of ports 1 and 2
+    writeIOPort(value: number): void {
+        this.ioPort = value;
+    }
+
+    // JOYA ($4016) / JOYB ($4017): bits 0-1 are the port's data lines.
+    // $4017 reads bits 2-4 as 1.
+    readSerial(port: number): number {
+        const data = this.devices[port].read(this.ioBit(port)) & 0x03;
+        return data | (port === 1 ? 0x1C : 0);
+    }
+
+    // The auto-joypad read: strobes the latch and clocks 16 bits out of each
+    // port; D0 fills JOY1/JOY2 and D1 JOY3/JOY4. If $4016 is holding the latch
+    // high it stays high, and the devices report their latched state.
+    runAutoRead(): void {
+        for (const device of this.devices) device.latch(true);
+        if (!this.strobe) {
+            for (const device of this.devices) device.latch(false);
+        }
+        this.autoRead.fill(0);
+        for (let bit = 0; bit < 16; bit++) {
+            for (let port = 0; port < CONTROLLER_PORTS; port++) {
+                const data = this.devices[port].read(this.ioBit(port));
+                // The first bit clocked out ends up in bit 15
+                this.autoRead[port] = (this.autoRead[port] << 1) | (data & 1);
+                this.autoRead[port + 2] = (this.autoRead[port + 2] << 1) | ((data >> 1) & 1);
+            }
+        }
+    }
+
+    // $4218-$421F: low then high byte of JOY1-JOY4
+    readAutoJoypad(offset: number): number {
+        const value = this.autoRead[(offset >> 1) & 0x03];
+        return (offset & 1) ? value >> 8 : value & 0xFF;
+    }
+
+    private ioBit(port: number): boolean {
+        return (this.ioPort & (port === 0 ? 0x40 : 0x80)) !== 0;
+    }
+}
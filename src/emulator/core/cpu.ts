@@ -1,4 +1,48 @@
-import { Memory } from './memory';
+
+// Base cycle counts for every opcode, assuming 8-bit registers, DL = 0, no page
+// crossing and a branch not taken. Width, direct page and indexing penalties are
+// added by the addressing mode and operand helpers below.
+const BASE_CYCLES = new Uint8Array([
+    //  0  1  2  3  4  5  6  7  8  9  A  B  C  D  E  F
+        7, 6, 7, 4, 5, 3, 5, 6, 3, 2, 2, 4, 6, 4, 6, 5, // 0x00
+        2, 5, 5, 7, 5, 4, 6, 6, 2, 4, 2, 2, 6, 4, 7, 5, // 0x10
+        6, 6, 8, 4, 3, 3, 5, 6, 4, 2, 2, 5, 4, 4, 6, 5, // 0x20
+        2, 5, 5, 7, 4, 4, 6, 6, 2, 4, 2, 2, 4, 4, 7, 5, // 0x30
+        6, 6, 2, 4, 7, 3, 5, 6, 3, 2, 2, 3, 3, 4, 6, 5, // 0x40
+        2, 5, 5, 7, 7, 4, 6, 6, 2, 4, 3, 2, 4, 4, 7, 5, // 0x50
+        6, 6, 6, 4, 3, 3, 5, 6, 4, 2, 2, 6, 5, 4, 6, 5, // 0x60
+        2, 5, 5, 7, 4, 4, 6, 6, 2, 4, 4, 2, 6, 4, 7, 5, // 0x70
+        2, 6, 4, 4, 3, 3, 3, 6, 2, 2, 2, 3, 4, 4, 4, 5, // 0x80
+        2, 6, 5, 7, 4, 4, 4, 6, 2, 5, 2, 2, 4, 5, 5, 5, // 0x90
+        2, 6, 2, 4, 3, 3, 3, 6, 2, 2, 2, 4, 4, 4, 4, 5, // 0xA0
+        2, 5, 5, 7, 4, 4, 4, 6, 2, 4, 2, 2, 4, 4, 4, 5, // 0xB0
+        2, 6, 3, 4, 3, 3, 5, 6, 2, 2, 2, 3, 4, 4, 6, 5, // 0xC0
+        2, 5, 5, 7, 6, 4, 6, 6, 2, 4, 3, 3, 6, 4, 7, 5, // 0xD0
+        2, 6, 3, 4, 3, 3, 5, 6, 2, 2, 2, 3, 4, 4, 6, 5, // 0xE0
+        2, 5, 5, 7, 5, 4, 6, 6, 2, 4, 4, 2, 8, 4, 7, 5  // 0xF0
+]);
+
+// Internal (non-bus) CPU cycles always take 6 master cycles; bus accesses take
+// 6, 8 or 12 depending on the region being accessed (see Memory.getAccessCycles).
+const MASTER_CYCLES_PER_IO = 6;
+
+// Bus the CPU runs against: the console's Memory, or a coprocessor's own bus
+export interface CPUBus {
+    read8(address: number): number;
+    write8(address: number, value: number): void;
+    // Master cycles a bus access to the address takes
+    getAccessCycles(address: number): number;
+}
+
+// Interrupt vectors (bank 0)
+const VECTOR_COP_NATIVE = 0xFFE4;
+const VECTOR_BRK_NATIVE = 0xFFE6;
+const VECTOR_NMI_NATIVE = 0xFFEA;
+const VECTOR_IRQ_NATIVE = 0xFFEE;
+const VECTOR_COP_EMULATION = 0xFFF4;
+const VECTOR_NMI_EMULATION = 0xFFFA;
+const VECTOR_RESET = 0xFFFC;
+const VECTOR_IRQ_EMULATION = 0xFFFE; // Shared with BRK in emulation mode
 
 export class CPU {
     // CPU Registers
@@ -10,7 +54,7 @@ export class CPU {
     private pbr: number = 0;     // Program Bank Register
     private dbr: number = 0;     // Data Bank Register
     private d: number = 0;       // Direct Page Register
-    
+
     // Status Register (P) flags
     private n: boolean = false;  // Negative
     private v: boolean = false;  // Overflow
@@ -20,28 +64,35 @@ export class CPU {
     private i: boolean = true;   // IRQ Disable
     private z: boolean = false;  // Zero
     private c: boolean = false;  // Carry
-    
+
     // Emulation mode flag
     private emulationMode: boolean = true;
-    
+
     // Memory interface
-    private memory: Memory;
-    
+    private memory: CPUBus;
+    private ioCycles: number; // Master cycles per internal operation
+
     // CPU State
     private cycles: number = 0;
     private isRunning: boolean = true; // Assume running until stopped
-    private irqPending: boolean = false; // IRQ flag
+    private irqLine: boolean = false; // IRQ input, driven by its sources
+    private nmiPending: boolean = false; // Latched NMI edge
     private halted: boolean = false; // Add halted flag
-    
-    // Busy-wait loop detection
-    private _busyWaitCounter: number = 0;
-    private _loopDetectionCounter: number = 0;
-    
-    constructor(memory: Memory) {
+    private waiting: boolean = false; // Set by WAI until an interrupt arrives
+    private stopped: boolean = false; // Set by STP, only cleared by reset
+
+    // Cycles accumulated by the instruction currently executing: the CPU cycle
+    // count, plus the bus accesses made and the master cycles they cost
+    private instructionCycles: number = 0;
+    private accessCount: number = 0;
+    private accessMasterCycles: number = 0;
+
+    constructor(memory: CPUBus, ioCycles: number = MASTER_CYCLES_PER_IO) {
         this.memory = memory;
+        this.ioCycles = ioCycles;
         this.reset();
     }
-    
+
     reset(): void {
         // Reset registers
         this.a = 0;
@@ -49,10 +100,10 @@ export class CPU {
         this.y = 0;
         this.sp = 0x01FF; // Emulation mode stack pointer starts at 0x01FF
         this.pbr = 0; // Start in bank 0x00 for reset vector read
-        this.pc = this.read16(0xFFFC); // Read reset vector (typically from bank 0)
+        this.pc = this.read16(VECTOR_RESET); // Read reset vector (typically from bank 0)
         this.dbr = 0;
         this.d = 0;
-        
+
         // Reset status flags
         this.n = false;
         this.v = false;
@@ -62,83 +113,107 @@ export class CPU {
         this.i = true;
         this.z = false;
         this.c = false;
-        
+
         // Set emulation mode
         this.emulationMode = true;
-        
-        // PBR is typically 0 after reset. The specific game code will set it later.
-        // Do not force PBR to 0xC0 here.
-        // this.pbr = 0xC0; // Adjust this based on the actual game ROM type
+
         console.debug(`[DEBUG] CPU Reset - PC fetched from 0x00FFFC: 0x${this.pc.toString(16).padStart(4, '0')}, PBR: 0x${this.pbr.toString(16).padStart(2, '0')}`);
-        
+
         this.cycles = 0;
         this.isRunning = false;
-        this.irqPending = false;
+        this.nmiPending = false;
+        this.waiting = false;
+        this.stopped = false;
     }
-    
+
     // Memory access methods
     private read8(address: number): number {
-        const value = this.memory.read8(address);
-        
-        // Log reads from critical memory regions
-        if ((address >= 0x8000 && address < 0x8020) || // ROM entry point
-            (address >= 0xFF00 && address <= 0xFFFF) || // High memory area
-            (address >= 0x4200 && address <= 0x420D)) { // SNES hardware registers
-            console.debug(`[DEBUG_MEM] Read8: Address=0x${address.toString(16).padStart(6, '0')}, Value=0x${value.toString(16).padStart(2, '0')}`);
-        }
-        
-        return value;
+        address &= 0xFFFFFF;
+        this.accessCount++;
+        this.accessMasterCycles += this.memory.getAccessCycles(address);
+        return this.memory.read8(address);
     }
-    
+
     private write8(address: number, value: number): void {
-        // Log writes to critical memory regions
-        if ((address >= 0x8000 && address < 0x8020) || // ROM entry point
-            (address >= 0xFF00 && address <= 0xFFFF) || // High memory area
-            (address >= 0x4200 && address <= 0x420D)) { // SNES hardware registers
-            console.debug(`[DEBUG_MEM] Write8: Address=0x${address.toString(16).padStart(6, '0')}, Value=0x${value.toString(16).padStart(2, '0')}`);
-        }
-        
-        this.memory.write8(address, value);
+        address &= 0xFFFFFF;
+        this.accessCount++;
+        this.accessMasterCycles += this.memory.getAccessCycles(address);
+        this.memory.write8(address, value & 0xFF);
     }
-    
+
     private read16(address: number): number {
-        return this.memory.read16(address);
+        const low = this.read8(address);
+        const high = this.read8(address + 1);
+        return (high << 8) | low;
     }
-    
+
     private write16(address: number, value: number): void {
-        this.memory.write16(address, value);
+        this.write8(address, value);
+        this.write8(address + 1, value >> 8);
+    }
+
+    // Instruction stream fetches (wrap within the program bank)
+    private fetch8(): number {
+        const value = this.read8((this.pbr << 16) | this.pc);
+        this.pc = (this.pc + 1) & 0xFFFF;
+        return value;
+    }
+
+    private fetch16(): number {
+        const low = this.fetch8();
+        return (this.fetch8() << 8) | low;
+    }
+
+    private fetch24(): number {
+        const word = this.fetch16();
+        return (this.fetch8() << 16) | word;
+    }
+
+    // Operand access honouring the current register width. Each extra byte
+    // of a 16-bit operand costs one additional cycle.
+    private readOperand(address: number, wide: boolean): number {
+        if (!wide) return this.read8(address);
+        this.instructionCycles++;
+        return this.read16(address);
     }
-    
+
+    private writeOperand(address: number, value: number, wide: boolean): void {
+        if (!wide) {
+            this.write8(address, value);
+            return;
+        }
+        this.instructionCycles++;
+        this.write16(address, value);
+    }
+
     // Stack operations
     private push8(value: number): void {
-        const stackAddress = (this.emulationMode ? 0x0100 : 0x0000) + this.sp;
-        this.write8(stackAddress, value);
+        this.write8(this.sp, value);
         this.sp = (this.sp - 1) & 0xFFFF;
         if (this.emulationMode) {
-            this.sp |= 0x0100; // Force stack to page 0x01 in emulation mode
+            this.sp = 0x0100 | (this.sp & 0xFF); // Stack is confined to page 0x01 in emulation mode
         }
     }
-    
+
     private push16(value: number): void {
         this.push8((value >> 8) & 0xFF);
         this.push8(value & 0xFF);
     }
-    
+
     private pop8(): number {
         this.sp = (this.sp + 1) & 0xFFFF;
         if (this.emulationMode) {
-            this.sp |= 0x0100; // Force stack to page 0x01 in emulation mode
+            this.sp = 0x0100 | (this.sp & 0xFF); // Stack is confined to page 0x01 in emulation mode
         }
-        const stackAddress = (this.emulationMode ? 0x0100 : 0x0000) + this.sp;
-        return this.read8(stackAddress);
+        return this.read8(this.sp);
     }
-    
+
     private pop16(): number {
         const low = this.pop8();
         const high = this.pop8();
         return (high << 8) | low;
     }
-    
+
     // Status register operations
     private getP(): number {
         return (this.n ? 0x80 : 0) |
@@ -150,7 +225,7 @@ export class CPU {
                (this.z ? 0x02 : 0) |
                (this.c ? 0x01 : 0);
     }
-    
+
     private setP(value: number): void {
         this.n = (value & 0x80) !== 0;
         this.v = (value & 0x40) !== 0;
@@ -160,2301 +235,873 @@ export class CPU {
         this.i = (value & 0x04) !== 0;
         this.z = (value & 0x02) !== 0;
         this.c = (value & 0x01) !== 0;
+        this.applyRegisterWidths();
+    }
+
+    // Enforce the register sizes implied by the E, M and X flags
+    private applyRegisterWidths(): void {
+        if (this.emulationMode) {
+            this.m = true;
+            this.x_b = true;
+            this.sp = 0x0100 | (this.sp & 0xFF);
+        }
+        if (this.x_b) {
+            this.x &= 0xFF;
+            this.y &= 0xFF;
+        }
     }
-    
-    // CPU execution
+
+    // CPU execution. Returns the master cycles consumed.
     step(): number {
         if (!this.isRunning) return 0; // Use isRunning flag
 
-        // Handle pending IRQ
-        if (this.irqPending && !this.i) {
-            this.irqPending = false;
-            return this.handleIRQ();
-        }
+        // STP halts the clock until the next reset
+        if (this.stopped) return this.ioCycles;
 
-        // Add check to catch if we're in a loop at memory addresses that don't contain 
-        // ROM data (likely initialization code that's failing)
-        if (this.pc >= 0xFF00 && this.pc <= 0xFFFF) {
-            this._loopDetectionCounter = (this._loopDetectionCounter || 0) + 1;
-            if (this._loopDetectionCounter > 5000) { // Increase from 1000 to 5000
-                console.warn(`[WARN] CPU appears stuck in high memory region: 0x${this.pbr.toString(16)}:${this.pc.toString(16).padStart(4, '0')} - forcing jump to ROM entry point`);
-                this.pbr = 0;
-                this.pc = 0x8000;
-                this._loopDetectionCounter = 0;
-                return 7; // Return typical cycles
-            }
-        } else {
-            this._loopDetectionCounter = 0;
-        }
+        this.accessCount = 0;
+        this.accessMasterCycles = 0;
 
-        // Add loop detection for known problematic areas
-        const fullAddress = (this.pbr << 16) | this.pc;
-        if (fullAddress === 0xE684 || (fullAddress >= 0xE680 && fullAddress <= 0xE690)) {
-            // Add specific handling for problematic area around 0xE684
-            this._busyWaitCounter = (this._busyWaitCounter || 0) + 1;
-            if (this._busyWaitCounter > 100) {
-                console.warn(`[WARN] CPU appears stuck at PC=0x${this.pc.toString(16).padStart(4, '0')}, PBR=0x${this.pbr.toString(16)} - investigating`);
-                
-                // Dump registers and next few instructions
-                console.warn(`[DEBUG_STUCK] CPU State: A=${this.a.toString(16)}, X=${this.x.toString(16)}, Y=${this.y.toString(16)}, SP=${this.sp.toString(16)}, D=${this.d.toString(16)}, DBR=${this.dbr.toString(16)}`);
-                console.warn(`[DEBUG_STUCK] Flags: N=${this.n}, V=${this.v}, M=${this.m}, X=${this.x_b}, D=${this.d_flag}, I=${this.i}, Z=${this.z}, C=${this.c}, E=${this.emulationMode}`);
-                
-                // Peek at the next few bytes
-                const nextBytes = [];
-                for (let i = 0; i < 8; i++) {
-                    nextBytes.push(this.read8(fullAddress + i).toString(16).padStart(2, '0'));
-                }
-                console.warn(`[DEBUG_STUCK] Next bytes: ${nextBytes.join(' ')}`);
-                
-                // Try skipping this instruction
-                if (this._busyWaitCounter > 200) {
-                    console.warn(`[WARN] Attempting to skip problematic instruction`);
-                    this.pc = (this.pc + 2) & 0xFFFF; // Skip ahead assuming 2-byte instruction
-                    this._busyWaitCounter = 0;
-                    return 2;
-                }
-            }
-        } else {
-            this._busyWaitCounter = 0;
+        // Interrupts are taken at instruction boundaries; NMI has priority over IRQ
+        if (this.nmiPending) {
+            this.nmiPending = false;
+            this.waiting = false;
+            return this.serviceInterrupt(VECTOR_NMI_NATIVE, VECTOR_NMI_EMULATION);
         }
 
-        // Detect and break the FF18-FF1C infinite busy-wait loop
-        if (this.pbr === 0 && this.pc === 0xFF18) {
-            // Track how many times we've been at this address
-            if (!this._busyWaitCounter) this._busyWaitCounter = 0;
-            this._busyWaitCounter++;
-            
-            // After several iterations, force a breakout
-            if (this._busyWaitCounter > 10) {
-                console.warn(`[DEBUG_LOOP] Detected busy-wait loop at 0xFF18-0xFF1C - forcing break to 0x8000`);
-                
-                // Record that we've handled this loop to avoid re-entering
-                this._busyWaitCounter = 1000; // Set to a high value to prevent re-entry
-                
-                // Force proper SNES initialization state 
-                this.a = 0x0F; // Set A to brightness value for INIDISP
-                this.pbr = 0;  // Program bank 0
-                this.dbr = 0;  // Data bank 0
-                
-                // Set up proper CPU mode flags
-                this.emulationMode = false; // Set native mode
-                this.m = false; // Set 16-bit accumulator
-                this.x_b = false; // Set 16-bit index
-                
-                // Initialize stack pointer
-                this.sp = 0x01FF;
-                
-                // Turn on NMI by writing to NMITIMEN ($4200)
-                this.memory.write8(0x4200, 0x80);
-                
-                // Jump to ROM entry point
-                this.pc = 0x8000;
-                
-                // Add detailed logging for debugging
-                console.warn(`[DEBUG_JUMP] Jump to ROM entry: PBR=${this.pbr.toString(16)}, PC=0x${this.pc.toString(16)}, A=0x${this.a.toString(16)}`);
-                console.warn(`[DEBUG_JUMP] CPU state: X=0x${this.x.toString(16)}, Y=0x${this.y.toString(16)}, SP=0x${this.sp.toString(16)}`);
-                console.warn(`[DEBUG_JUMP] Flags: emulationMode=${this.emulationMode}, m=${this.m}, x_b=${this.x_b}`);
-                
-                // Read the first few bytes at the jump location to verify content
-                const byte1 = this.read8((this.pbr << 16) | this.pc);
-                const byte2 = this.read8((this.pbr << 16) | (this.pc + 1));
-                const byte3 = this.read8((this.pbr << 16) | (this.pc + 2));
-                console.warn(`[DEBUG_JUMP] First bytes at 0x8000: ${byte1.toString(16)} ${byte2.toString(16)} ${byte3.toString(16)}`);
-                
-                return 7;
+        if (this.irqLine) {
+            // WAI resumes on IRQ even when I is set; the handler only runs when it is clear
+            this.waiting = false;
+            if (!this.i) {
+                return this.serviceInterrupt(VECTOR_IRQ_NATIVE, VECTOR_IRQ_EMULATION);
             }
-        } else if (this.pc !== 0xFF1C && this.pc < 0xFF00 || this.pc > 0xFFFF) {
-            // Reset counter only when we're clearly not in the FF00-FFFF range
-            this._busyWaitCounter = 0;
         }
 
-        const startPC = this.pc;
-        const startPBR = this.pbr;
-        const opcode = this.read8((startPBR << 16) | startPC);
-        this.pc = (this.pc + 1) & 0xFFFF;
+        // WAI idles until an interrupt line is asserted
+        if (this.waiting) return this.ioCycles;
 
-        // Enhanced logging for instructions after the 0x8000 jump
-        if (startPBR === 0 && startPC >= 0x8000 && startPC < 0x8020) {
-            console.debug(`[DEBUG_EXEC] PC: 0x${startPBR.toString(16)}:${startPC.toString(16).padStart(4, '0')} Opcode: 0x${opcode.toString(16).padStart(2, '0')}`);
-        }
+        const opcode = this.fetch8();
+        this.instructionCycles = BASE_CYCLES[opcode];
+        this.execute(opcode);
 
-        console.debug(`[CPU Exec] PC: ${startPBR.toString(16)}:${startPC.toString(16).padStart(4, '0')} Opcode: 0x${opcode.toString(16).padStart(2, '0')}`); // Log instruction fetch
+        return this.finishInstruction();
+    }
 
-        let cycles = 0;
+    // Convert the finished instruction to master cycles: every CPU cycle that
+    // was not a bus access is an internal operation.
+    private finishInstruction(): number {
+        const ioCycles = Math.max(0, this.instructionCycles - this.accessCount);
+        const masterCycles = this.accessMasterCycles + ioCycles * this.ioCycles;
+        this.cycles += masterCycles;
+        return masterCycles;
+    }
+
+    // Decode and execute a single opcode. PC already points past the opcode byte.
+    private execute(opcode: number): void {
+        const m16 = !this.m;
+        const x16 = !this.x_b;
 
         switch (opcode) {
+            // --- Interrupts / system ---
             case 0x00: // BRK
-                cycles = this.handleBRK();
-                break;
-            case 0x01: // ORA (Direct Page Indirect, X)
-                cycles = this.handleORA_DirectPageIndexedIndirectX();
-                break;
-            case 0x05: // ORA Zero Page
-                cycles = this.handleORA_ZeroPage();
-                break;
-            case 0xEA: // NOP
-                cycles = this.handleNOP();
-                break;
-            case 0xA9: // LDA Immediate
-                cycles = this.handleLDA();
-                break;
-            case 0xA5: // LDA Zero Page
-                cycles = this.handleLDA_ZeroPage();
-                break;
-            case 0x85: // STA Zero Page
-                cycles = this.handleSTA();
-                break;
-            case 0xAD: // LDA Absolute
-                cycles = this.handleLDA_Absolute();
-                break;
-            case 0x78: // SEI Implied
-                cycles = this.handleSEI();
-                break;
-            case 0x9C: // STZ Absolute
-                cycles = this.handleSTZ_Absolute();
-                break;
-            case 0xC2: // REP #imm
-                cycles = this.handleREP();
-                break;
-            // Add STA Absolute (0x8D)
-            case 0x8D: // STA Absolute
-                cycles = this.handleSTA_Absolute();
-                break;
-            // Stack Operations
-            case 0x48: // PHA
-                cycles = this.handlePHA();
-                break;
-            case 0xDA: // PHX
-                cycles = this.handlePHX();
-                break;
-            case 0x5A: // PHY
-                cycles = this.handlePHY();
-                break;
-            // Status Flag / Mode Instructions
-            case 0x18: // CLC
-                cycles = this.handleCLC();
-                break;
-            case 0xFB: // XCE
-                cycles = this.handleXCE();
-                break;
-            // More Stack/Register Ops
-            case 0x0B: // PHD
-                cycles = this.handlePHD();
-                break;
-            case 0x8B: // PHB
-                cycles = this.handlePHB();
-                break;
-            case 0x4B: // PHK
-                cycles = this.handlePHK();
-                break;
-            case 0xAB: // PLB
-                cycles = this.handlePLB();
-                break;
-            // Register Transfer Instructions
-            case 0x98: // TYA
-                cycles = this.handleTYA();
-                break;
-             // Status Flag / Mode Instructions (cont.)
-             case 0xE2: // SEP #imm
-                 cycles = this.handleSEP();
-                 break;
-            // Load/Store Instructions (cont.)
-             case 0xA2: // LDX #imm
-                 cycles = this.handleLDX_Immediate();
-                 break;
-            case 0xA0: // LDY #imm
-                 cycles = this.handleLDY_Immediate();
-                 break;
-            case 0xA6: // LDX Zero Page
-                 cycles = this.handleLDX_ZeroPage();
-                 break;
-            // Register Transfer Instructions
-             case 0x9A: // TXS
-                 cycles = this.handleTXS();
-                 break;
-            // Branch Instructions
-            case 0x82: // BRL (Branch Always Long)
-                cycles = this.handleBRL();
-                break;
-            // Interrupt/Misc Instructions
-            case 0x02: // COP #imm (Coprocessor / Software Interrupt)
-                cycles = this.handleCOP();
-                break;
-            // Jump / Branch Instructions
-            case 0x20: // JSR Absolute
-                cycles = this.handleJSR_Absolute();
-                break;
-            case 0x5C: // JML Absolute Long
-                cycles = this.handleJML_AbsoluteLong();
-                break;
-            case 0x7C: // JMP (Absolute,X)
-                cycles = this.handleJMP_AbsoluteIndexedIndirectX();
-                break;
-            // Load/Store Instructions (cont.)
-            case 0xAF: // LDA Absolute Long
-                cycles = this.handleLDA_AbsoluteLong();
-                break;
-            case 0xBF: // LDA Absolute Long, X
-                cycles = this.handleLDA_AbsoluteLongX();
-                break;
-            // Arithmetic Instructions
-            case 0x65: // ADC Zero Page
-                cycles = this.handleADC_ZeroPage();
-                break;
-            case 0x75: // ADC Zero Page, X
-                cycles = this.handleADC_ZeroPageX();
-                break;
-            case 0x4E: // LSR Absolute
-                cycles = this.handleLSR_Absolute();
-                break;
-            case 0x4D: // EOR Absolute
-                cycles = this.handleEOR_Absolute();
-                break;
-            case 0x2D: // AND Absolute
-                cycles = this.handleAND_Absolute();
-                break;
-            case 0x29: // AND Immediate
-                cycles = this.handleAND_Immediate();
-                break;
-            // More opcodes can be added here
-            case 0x22: // JSL Absolute Long
-                cycles = this.handleJSL_AbsoluteLong();
-                break;
-            case 0xE9: // SBC Immediate
-                cycles = this.handleSBC_Immediate();
-                break;
-            case 0x64: // STZ Zero Page
-                cycles = this.handleSTZ_ZeroPage();
-                break;
-            case 0x6B: // RTL
-                cycles = this.handleRTL();
-                break;
-            case 0x26: // ROL Zero Page
-                cycles = this.handleROL_ZeroPage();
-                break;
-            case 0x07: // ORA [dp] (Direct Page Indirect Long)
-                cycles = this.handleORA_DirectPageIndirectLong();
-                break;
-            case 0xCD: // CMP Absolute
-                cycles = this.handleCMP_Absolute();
-                break;
-            case 0xC9: // CMP Immediate
-                cycles = this.handleCMP_Immediate();
-                break;
-            case 0x80: // BRA Relative
-                cycles = this.handleBRA();
+                this.fetch8(); // Signature byte
+                this.interrupt(VECTOR_BRK_NATIVE, VECTOR_IRQ_EMULATION, true);
+                break;
+            case 0x02: // COP
+                this.fetch8(); // Signature byte
+                this.interrupt(VECTOR_COP_NATIVE, VECTOR_COP_EMULATION, true);
+                break;
+            case 0x40: // RTI
+                this.setP(this.pop8());
+                this.pc = this.pop16();
+                if (!this.emulationMode) {
+                    this.pbr = this.pop8();
+                    this.instructionCycles++;
+                }
                 break;
-            case 0x50: // BVC Relative
-                cycles = this.handleBVC_Relative();
+            case 0x42: // WDM (reserved, two-byte NOP)
+                this.fetch8();
                 break;
-            case 0xD0: // BNE Relative
-                cycles = this.handleBNE_Relative();
+            case 0xCB: // WAI
+                this.waiting = true;
                 break;
-            case 0xF0: // BEQ Relative
-                cycles = this.handleBEQ_Relative();
+            case 0xDB: // STP
+                this.stopped = true;
+                console.warn(`[CPU] STP executed at 0x${this.pbr.toString(16)}:${((this.pc - 1) & 0xFFFF).toString(16).padStart(4, '0')}`);
                 break;
-            case 0xFA: // PLX
-                cycles = this.handlePLX();
+            case 0xEA: // NOP
                 break;
-            case 0x7A: // PLY
-                cycles = this.handlePLY();
+
+            // --- ORA ---
+            case 0x01: this.ora(this.addrDirectIndexedIndirect()); break;
+            case 0x03: this.ora(this.addrStackRelative()); break;
+            case 0x05: this.ora(this.addrDirect()); break;
+            case 0x07: this.ora(this.addrDirectIndirectLong()); break;
+            case 0x09: this.ora(this.addrImmediate(m16)); break;
+            case 0x0D: this.ora(this.addrAbsolute()); break;
+            case 0x0F: this.ora(this.addrAbsoluteLong()); break;
+            case 0x11: this.ora(this.addrDirectIndirectIndexed(false)); break;
+            case 0x12: this.ora(this.addrDirectIndirect()); break;
+            case 0x13: this.ora(this.addrStackRelativeIndirectIndexed()); break;
+            case 0x15: this.ora(this.addrDirectIndexed(this.x)); break;
+            case 0x17: this.ora(this.addrDirectIndirectLongIndexed()); break;
+            case 0x19: this.ora(this.addrAbsoluteIndexed(this.y, false)); break;
+            case 0x1D: this.ora(this.addrAbsoluteIndexed(this.x, false)); break;
+            case 0x1F: this.ora(this.addrAbsoluteLongIndexed()); break;
+
+            // --- AND ---
+            case 0x21: this.and(this.addrDirectIndexedIndirect()); break;
+            case 0x23: this.and(this.addrStackRelative()); break;
+            case 0x25: this.and(this.addrDirect()); break;
+            case 0x27: this.and(this.addrDirectIndirectLong()); break;
+            case 0x29: this.and(this.addrImmediate(m16)); break;
+            case 0x2D: this.and(this.addrAbsolute()); break;
+            case 0x2F: this.and(this.addrAbsoluteLong()); break;
+            case 0x31: this.and(this.addrDirectIndirectIndexed(false)); break;
+            case 0x32: this.and(this.addrDirectIndirect()); break;
+            case 0x33: this.and(this.addrStackRelativeIndirectIndexed()); break;
+            case 0x35: this.and(this.addrDirectIndexed(this.x)); break;
+            case 0x37: this.and(this.addrDirectIndirectLongIndexed()); break;
+            case 0x39: this.and(this.addrAbsoluteIndexed(this.y, false)); break;
+            case 0x3D: this.and(this.addrAbsoluteIndexed(this.x, false)); break;
+            case 0x3F: this.and(this.addrAbsoluteLongIndexed()); break;
+
+            // --- EOR ---
+            case 0x41: this.eor(this.addrDirectIndexedIndirect()); break;
+            case 0x43: this.eor(this.addrStackRelative()); break;
+            case 0x45: this.eor(this.addrDirect()); break;
+            case 0x47: this.eor(this.addrDirectIndirectLong()); break;
+            case 0x49: this.eor(this.addrImmediate(m16)); break;
+            case 0x4D: this.eor(this.addrAbsolute()); break;
+            case 0x4F: this.eor(this.addrAbsoluteLong()); break;
+            case 0x51: this.eor(this.addrDirectIndirectIndexed(false)); break;
+            case 0x52: this.eor(this.addrDirectIndirect()); break;
+            case 0x53: this.eor(this.addrStackRelativeIndirectIndexed()); break;
+            case 0x55: this.eor(this.addrDirectIndexed(this.x)); break;
+            case 0x57: this.eor(this.addrDirectIndirectLongIndexed()); break;
+            case 0x59: this.eor(this.addrAbsoluteIndexed(this.y, false)); break;
+            case 0x5D: this.eor(this.addrAbsoluteIndexed(this.x, false)); break;
+            case 0x5F: this.eor(this.addrAbsoluteLongIndexed()); break;
+
+            // --- ADC ---
+            case 0x61: this.adc(this.addrDirectIndexedIndirect()); break;
+            case 0x63: this.adc(this.addrStackRelative()); break;
+            case 0x65: this.adc(this.addrDirect()); break;
+            case 0x67: this.adc(this.addrDirectIndirectLong()); break;
+            case 0x69: this.adc(this.addrImmediate(m16)); break;
+            case 0x6D: this.adc(this.addrAbsolute()); break;
+            case 0x6F: this.adc(this.addrAbsoluteLong()); break;
+            case 0x71: this.adc(this.addrDirectIndirectIndexed(false)); break;
+            case 0x72: this.adc(this.addrDirectIndirect()); break;
+            case 0x73: this.adc(this.addrStackRelativeIndirectIndexed()); break;
+            case 0x75: this.adc(this.addrDirectIndexed(this.x)); break;
+            case 0x77: this.adc(this.addrDirectIndirectLongIndexed()); break;
+            case 0x79: this.adc(this.addrAbsoluteIndexed(this.y, false)); break;
+            case 0x7D: this.adc(this.addrAbsoluteIndexed(this.x, false)); break;
+            case 0x7F: this.adc(this.addrAbsoluteLongIndexed()); break;
+
+            // --- STA ---
+            case 0x81: this.sta(this.addrDirectIndexedIndirect()); break;
+            case 0x83: this.sta(this.addrStackRelative()); break;
+            case 0x85: this.sta(this.addrDirect()); break;
+            case 0x87: this.sta(this.addrDirectIndirectLong()); break;
+            case 0x8D: this.sta(this.addrAbsolute()); break;
+            case 0x8F: this.sta(this.addrAbsoluteLong()); break;
+            case 0x91: this.sta(this.addrDirectIndirectIndexed(true)); break;
+            case 0x92: this.sta(this.addrDirectIndirect()); break;
+            case 0x93: this.sta(this.addrStackRelativeIndirectIndexed()); break;
+            case 0x95: this.sta(this.addrDirectIndexed(this.x)); break;
+            case 0x97: this.sta(this.addrDirectIndirectLongIndexed()); break;
+            case 0x99: this.sta(this.addrAbsoluteIndexed(this.y, true)); break;
+            case 0x9D: this.sta(this.addrAbsoluteIndexed(this.x, true)); break;
+            case 0x9F: this.sta(this.addrAbsoluteLongIndexed()); break;
+
+            // --- LDA ---
+            case 0xA1: this.lda(this.addrDirectIndexedIndirect()); break;
+            case 0xA3: this.lda(this.addrStackRelative()); break;
+            case 0xA5: this.lda(this.addrDirect()); break;
+            case 0xA7: this.lda(this.addrDirectIndirectLong()); break;
+            case 0xA9: this.lda(this.addrImmediate(m16)); break;
+            case 0xAD: this.lda(this.addrAbsolute()); break;
+            case 0xAF: this.lda(this.addrAbsoluteLong()); break;
+            case 0xB1: this.lda(this.addrDirectIndirectIndexed(false)); break;
+            case 0xB2: this.lda(this.addrDirectIndirect()); break;
+            case 0xB3: this.lda(this.addrStackRelativeIndirectIndexed()); break;
+            case 0xB5: this.lda(this.addrDirectIndexed(this.x)); break;
+            case 0xB7: this.lda(this.addrDirectIndirectLongIndexed()); break;
+            case 0xB9: this.lda(this.addrAbsoluteIndexed(this.y, false)); break;
+            case 0xBD: this.lda(this.addrAbsoluteIndexed(this.x, false)); break;
+            case 0xBF: this.lda(this.addrAbsoluteLongIndexed()); break;
+
+            // --- CMP ---
+            case 0xC1: this.compare(this.a, this.addrDirectIndexedIndirect(), m16); break;
+            case 0xC3: this.compare(this.a, this.addrStackRelative(), m16); break;
+            case 0xC5: this.compare(this.a, this.addrDirect(), m16); break;
+            case 0xC7: this.compare(this.a, this.addrDirectIndirectLong(), m16); break;
+            case 0xC9: this.compare(this.a, this.addrImmediate(m16), m16); break;
+            case 0xCD: this.compare(this.a, this.addrAbsolute(), m16); break;
+            case 0xCF: this.compare(this.a, this.addrAbsoluteLong(), m16); break;
+            case 0xD1: this.compare(this.a, this.addrDirectIndirectIndexed(false), m16); break;
+            case 0xD2: this.compare(this.a, this.addrDirectIndirect(), m16); break;
+            case 0xD3: this.compare(this.a, this.addrStackRelativeIndirectIndexed(), m16); break;
+            case 0xD5: this.compare(this.a, this.addrDirectIndexed(this.x), m16); break;
+            case 0xD7: this.compare(this.a, this.addrDirectIndirectLongIndexed(), m16); break;
+            case 0xD9: this.compare(this.a, this.addrAbsoluteIndexed(this.y, false), m16); break;
+            case 0xDD: this.compare(this.a, this.addrAbsoluteIndexed(this.x, false), m16); break;
+            case 0xDF: this.compare(this.a, this.addrAbsoluteLongIndexed(), m16); break;
+
+            // --- SBC ---
+            case 0xE1: this.sbc(this.addrDirectIndexedIndirect()); break;
+            case 0xE3: this.sbc(this.addrStackRelative()); break;
+            case 0xE5: this.sbc(this.addrDirect()); break;
+            case 0xE7: this.sbc(this.addrDirectIndirectLong()); break;
+            case 0xE9: this.sbc(this.addrImmediate(m16)); break;
+            case 0xED: this.sbc(this.addrAbsolute()); break;
+            case 0xEF: this.sbc(this.addrAbsoluteLong()); break;
+            case 0xF1: this.sbc(this.addrDirectIndirectIndexed(false)); break;
+            case 0xF2: this.sbc(this.addrDirectIndirect()); break;
+            case 0xF3: this.sbc(this.addrStackRelativeIndirectIndexed()); break;
+            case 0xF5: this.sbc(this.addrDirectIndexed(this.x)); break;
+            case 0xF7: this.sbc(this.addrDirectIndirectLongIndexed()); break;
+            case 0xF9: this.sbc(this.addrAbsoluteIndexed(this.y, false)); break;
+            case 0xFD: this.sbc(this.addrAbsoluteIndexed(this.x, false)); break;
+            case 0xFF: this.sbc(this.addrAbsoluteLongIndexed()); break;
+
+            // --- Index register loads, stores and compares ---
+            case 0xA0: this.y = this.loadIndex(this.addrImmediate(x16)); break;
+            case 0xA4: this.y = this.loadIndex(this.addrDirect()); break;
+            case 0xAC: this.y = this.loadIndex(this.addrAbsolute()); break;
+            case 0xB4: this.y = this.loadIndex(this.addrDirectIndexed(this.x)); break;
+            case 0xBC: this.y = this.loadIndex(this.addrAbsoluteIndexed(this.x, false)); break;
+            case 0xA2: this.x = this.loadIndex(this.addrImmediate(x16)); break;
+            case 0xA6: this.x = this.loadIndex(this.addrDirect()); break;
+            case 0xAE: this.x = this.loadIndex(this.addrAbsolute()); break;
+            case 0xB6: this.x = this.loadIndex(this.addrDirectIndexed(this.y)); break;
+            case 0xBE: this.x = this.loadIndex(this.addrAbsoluteIndexed(this.y, false)); break;
+            case 0x84: this.writeOperand(this.addrDirect(), this.y, x16); break;
+            case 0x8C: this.writeOperand(this.addrAbsolute(), this.y, x16); break;
+            case 0x94: this.writeOperand(this.addrDirectIndexed(this.x), this.y, x16); break;
+            case 0x86: this.writeOperand(this.addrDirect(), this.x, x16); break;
+            case 0x8E: this.writeOperand(this.addrAbsolute(), this.x, x16); break;
+            case 0x96: this.writeOperand(this.addrDirectIndexed(this.y), this.x, x16); break;
+            case 0xC0: this.compare(this.y, this.addrImmediate(x16), x16); break;
+            case 0xC4: this.compare(this.y, this.addrDirect(), x16); break;
+            case 0xCC: this.compare(this.y, this.addrAbsolute(), x16); break;
+            case 0xE0: this.compare(this.x, this.addrImmediate(x16), x16); break;
+            case 0xE4: this.compare(this.x, this.addrDirect(), x16); break;
+            case 0xEC: this.compare(this.x, this.addrAbsolute(), x16); break;
+
+            // --- STZ ---
+            case 0x64: this.writeOperand(this.addrDirect(), 0, m16); break;
+            case 0x74: this.writeOperand(this.addrDirectIndexed(this.x), 0, m16); break;
+            case 0x9C: this.writeOperand(this.addrAbsolute(), 0, m16); break;
+            case 0x9E: this.writeOperand(this.addrAbsoluteIndexed(this.x, true), 0, m16); break;
+
+            // --- BIT ---
+            case 0x24: this.bit(this.addrDirect(), false); break;
+            case 0x2C: this.bit(this.addrAbsolute(), false); break;
+            case 0x34: this.bit(this.addrDirectIndexed(this.x), false); break;
+            case 0x3C: this.bit(this.addrAbsoluteIndexed(this.x, false), false); break;
+            case 0x89: this.bit(this.addrImmediate(m16), true); break;
+
+            // --- Read-modify-write ---
+            case 0x06: this.modify(this.addrDirect(), v => this.shiftLeft(v, false)); break;
+            case 0x0E: this.modify(this.addrAbsolute(), v => this.shiftLeft(v, false)); break;
+            case 0x16: this.modify(this.addrDirectIndexed(this.x), v => this.shiftLeft(v, false)); break;
+            case 0x1E: this.modify(this.addrAbsoluteIndexed(this.x, true), v => this.shiftLeft(v, false)); break;
+            case 0x26: this.modify(this.addrDirect(), v => this.shiftLeft(v, true)); break;
+            case 0x2E: this.modify(this.addrAbsolute(), v => this.shiftLeft(v, true)); break;
+            case 0x36: this.modify(this.addrDirectIndexed(this.x), v => this.shiftLeft(v, true)); break;
+            case 0x3E: this.modify(this.addrAbsoluteIndexed(this.x, true), v => this.shiftLeft(v, true)); break;
+            case 0x46: this.modify(this.addrDirect(), v => this.shiftRight(v, false)); break;
+            case 0x4E: this.modify(this.addrAbsolute(), v => this.shiftRight(v, false)); break;
+            case 0x56: this.modify(this.addrDirectIndexed(this.x), v => this.shiftRight(v, false)); break;
+            case 0x5E: this.modify(this.addrAbsoluteIndexed(this.x, true), v => this.shiftRight(v, false)); break;
+            case 0x66: this.modify(this.addrDirect(), v => this.shiftRight(v, true)); break;
+            case 0x6E: this.modify(this.addrAbsolute(), v => this.shiftRight(v, true)); break;
+            case 0x76: this.modify(this.addrDirectIndexed(this.x), v => this.shiftRight(v, true)); break;
+            case 0x7E: this.modify(this.addrAbsoluteIndexed(this.x, true), v => this.shiftRight(v, true)); break;
+            case 0xC6: this.modify(this.addrDirect(), v => this.increment(v, -1, m16)); break;
+            case 0xCE: this.modify(this.addrAbsolute(), v => this.increment(v, -1, m16)); break;
+            case 0xD6: this.modify(this.addrDirectIndexed(this.x), v => this.increment(v, -1, m16)); break;
+            case 0xDE: this.modify(this.addrAbsoluteIndexed(this.x, true), v => this.increment(v, -1, m16)); break;
+            case 0xE6: this.modify(this.addrDirect(), v => this.increment(v, 1, m16)); break;
+            case 0xEE: this.modify(this.addrAbsolute(), v => this.increment(v, 1, m16)); break;
+            case 0xF6: this.modify(this.addrDirectIndexed(this.x), v => this.increment(v, 1, m16)); break;
+            case 0xFE: this.modify(this.addrAbsoluteIndexed(this.x, true), v => this.increment(v, 1, m16)); break;
+            case 0x04: this.modify(this.addrDirect(), v => this.testAndSet(v)); break;
+            case 0x0C: this.modify(this.addrAbsolute(), v => this.testAndSet(v)); break;
+            case 0x14: this.modify(this.addrDirect(), v => this.testAndReset(v)); break;
+            case 0x1C: this.modify(this.addrAbsolute(), v => this.testAndReset(v)); break;
+
+            // --- Accumulator shifts and increments ---
+            case 0x0A: this.setA(this.shiftLeft(this.getA(), false)); break;
+            case 0x2A: this.setA(this.shiftLeft(this.getA(), true)); break;
+            case 0x4A: this.setA(this.shiftRight(this.getA(), false)); break;
+            case 0x6A: this.setA(this.shiftRight(this.getA(), true)); break;
+            case 0x1A: this.setA(this.increment(this.getA(), 1, m16)); break;
+            case 0x3A: this.setA(this.increment(this.getA(), -1, m16)); break;
+            case 0xE8: this.x = this.increment(this.x, 1, x16); break;
+            case 0xC8: this.y = this.increment(this.y, 1, x16); break;
+            case 0xCA: this.x = this.increment(this.x, -1, x16); break;
+            case 0x88: this.y = this.increment(this.y, -1, x16); break;
+
+            // --- Branches ---
+            case 0x10: this.branch(!this.n); break; // BPL
+            case 0x30: this.branch(this.n); break;  // BMI
+            case 0x50: this.branch(!this.v); break; // BVC
+            case 0x70: this.branch(this.v); break;  // BVS
+            case 0x80: this.branch(true); break;    // BRA
+            case 0x90: this.branch(!this.c); break; // BCC
+            case 0xB0: this.branch(this.c); break;  // BCS
+            case 0xD0: this.branch(!this.z); break; // BNE
+            case 0xF0: this.branch(this.z); break;  // BEQ
+            case 0x82: { // BRL
+                const offset = this.fetch16();
+                this.pc = (this.pc + offset) & 0xFFFF;
                 break;
-            case 0x06: // ASL Zero Page
-                cycles = this.handleASL_ZeroPage();
+            }
+
+            // --- Jumps and calls ---
+            case 0x4C: // JMP abs
+                this.pc = this.fetch16();
                 break;
-            case 0x3A: // DEC A
-                cycles = this.handleDEC_A();
+            case 0x5C: { // JML long
+                const target = this.fetch24();
+                this.pc = target & 0xFFFF;
+                this.pbr = target >> 16;
                 break;
-            case 0x1A: // INC A
-                cycles = this.handleINC_A();
+            }
+            case 0x6C: // JMP (abs)
+                this.pc = this.read16(this.fetch16());
                 break;
-            case 0xC8: // INY
-                cycles = this.handleINY();
+            case 0x7C: // JMP (abs,X)
+                this.pc = this.readProgramWord((this.fetch16() + this.x) & 0xFFFF);
                 break;
-            case 0xCA: // DEX
-                cycles = this.handleDEX();
+            case 0xDC: { // JML [abs]
+                const pointer = this.fetch16();
+                this.pc = this.read16(pointer);
+                this.pbr = this.read8((pointer + 2) & 0xFFFF);
                 break;
-            case 0xC6: // DEC Zero Page
-                cycles = this.handleDEC_ZeroPage();
+            }
+            case 0x20: { // JSR abs
+                const target = this.fetch16();
+                this.push16((this.pc - 1) & 0xFFFF);
+                this.pc = target;
                 break;
-            case 0x5B: // TCD
-                cycles = this.handleTCD();
+            }
+            case 0xFC: { // JSR (abs,X)
+                const pointer = this.fetch16();
+                this.push16((this.pc - 1) & 0xFFFF);
+                this.pc = this.readProgramWord((pointer + this.x) & 0xFFFF);
                 break;
-            case 0xBB: // TYX
-                cycles = this.handleTYX();
+            }
+            case 0x22: { // JSL long
+                const target = this.fetch24();
+                this.push8(this.pbr);
+                this.push16((this.pc - 1) & 0xFFFF);
+                this.pc = target & 0xFFFF;
+                this.pbr = target >> 16;
                 break;
+            }
             case 0x60: // RTS
-                cycles = this.handleRTS();
-                break;
-            case 0x8E: // STX Absolute
-                cycles = this.handleSTX_Absolute();
-                break;
-            case 0x86: // STX Zero Page
-                cycles = this.handleSTX_ZeroPage();
-                break;
-            case 0x69: // ADC Immediate
-                cycles = this.handleADC_Immediate();
-                break;
-            case 0xAA: // TAX
-                cycles = this.handleTAX();
-                break;
-            case 0xA8: // TAY
-                cycles = this.handleTAY();
-                break;
-            case 0x0A: // ASL A (Accumulator)
-                cycles = this.handleASL_A();
-                break;
-            case 0xB0: // BCS (Branch on Carry Set)
-                cycles = this.handleBCS_Relative();
-                break;
-            case 0xC5: // CMP Zero Page
-                cycles = this.handleCMP_ZeroPage();
-                break;
-            case 0x84: // STY Zero Page
-                cycles = this.handleSTY_ZeroPage();
-                break;
-            case 0x69: // ADC Immediate
-                cycles = this.handleADC_Immediate();
+                this.pc = (this.pop16() + 1) & 0xFFFF;
                 break;
-            case 0x08: // PHP (Push Processor Status)
-                cycles = this.handlePHP();
-                break;
-            case 0xF4: // PEA (Push Effective Absolute Address)
-                cycles = this.handlePEA();
-                break;
-            case 0x7B: // TDC (Transfer Direct Page Register to Accumulator)
-                cycles = this.handleTDC();
-                break;
-            case 0xEB: // XBA (Exchange B and A Accumulator)
-                cycles = this.handleXBA();
-                break;
-            case 0xB7: // LDA [dp],Y (Load Accumulator DP Indirect Long Indexed with Y)
-                cycles = this.handleLDA_DirectPageIndirectLongIndexedY();
-                break;
-            case 0xFF: // SBC Absolute Long (Unofficial)
-                cycles = this.handleSBC_AbsoluteLong();
-                break;
-            // Register Transfer Instructions
-            case 0xAA: // TAX
-                cycles = this.handleTAX();
-                break;
-            case 0xBD: // LDA Absolute,X
-                cycles = this.handleLDA_AbsoluteX();
-                break;
-            case 0xA4: // LDY Zero Page
-                cycles = this.handleLDY_ZeroPage();
-                break;
-            case 0x2D: // AND Absolute
-                cycles = this.handleAND_Absolute();
-                break;
-            case 0x29: // AND Immediate
-                cycles = this.handleAND_Immediate();
-                break;
-            case 0x22: // JSL Absolute Long
-                cycles = this.handleJSL_AbsoluteLong();
-                break;
-            case 0x2C: // BIT Absolute
-                cycles = this.handleBIT_Absolute();
-                break;
-            case 0x12: // ORA (Direct Page Indirect)
-                cycles = this.handleORA_DirectPageIndirect();
-                break;
-            case 0x42: // WDM (Reserved/Unused on 65816)
-                cycles = this.handleWDM();
+            case 0x6B: // RTL
+                this.pc = (this.pop16() + 1) & 0xFFFF;
+                this.pbr = this.pop8();
+                break;
+
+            // --- Stack ---
+            case 0x08: this.push8(this.emulationMode ? this.getStatusFlags(1) : this.getP()); break; // PHP
+            case 0x28: this.setP(this.pop8()); break; // PLP
+            case 0x48: this.pushRegister(this.a, m16); break; // PHA
+            case 0x68: this.setA(this.pullRegister(m16)); this.setNZ(this.a, m16); break; // PLA
+            case 0xDA: this.pushRegister(this.x, x16); break; // PHX
+            case 0xFA: this.x = this.pullRegister(x16); this.setNZ(this.x, x16); break; // PLX
+            case 0x5A: this.pushRegister(this.y, x16); break; // PHY
+            case 0x7A: this.y = this.pullRegister(x16); this.setNZ(this.y, x16); break; // PLY
+            case 0x8B: this.push8(this.dbr); break; // PHB
+            case 0xAB: this.dbr = this.pop8(); this.setNZ(this.dbr, false); break; // PLB
+            case 0x0B: this.push16(this.d); break; // PHD
+            case 0x2B: this.d = this.pop16(); this.setNZ(this.d, true); break; // PLD
+            case 0x4B: this.push8(this.pbr); break; // PHK
+            case 0xF4: this.push16(this.fetch16()); break; // PEA
+            case 0xD4: { // PEI (dp)
+                const pointer = this.addrDirect();
+                this.push16(this.read16(pointer));
                 break;
-            case 0xE9: // SBC Immediate
-                cycles = this.handleSBC_Immediate();
+            }
+            case 0x62: { // PER
+                const offset = this.fetch16();
+                this.push16((this.pc + offset) & 0xFFFF);
                 break;
-            default:
-                // Provide more context for unknown opcodes, especially around 0x8000
-                if (startPBR === 0 && startPC >= 0x7FF0 && startPC <= 0x8020) {
-                    console.warn(`[DEBUG_UNKNOWN] Unknown opcode: 0x${opcode.toString(16)} at PBR:PC = 0x${startPBR.toString(16)}:${startPC.toString(16).padStart(4, '0')}`);
-                    const nextBytes = [
-                        this.read8((startPBR << 16) | this.pc),
-                        this.read8((startPBR << 16) | (this.pc + 1)),
-                        this.read8((startPBR << 16) | (this.pc + 2))
-                    ];
-                    console.warn(`[DEBUG_UNKNOWN] Next bytes: ${nextBytes.map(b => b.toString(16).padStart(2, '0')).join(' ')}`);
-                } else {
-                    console.warn(`[DEBUG] Unknown opcode: 0x${opcode.toString(16)} at PC: 0x${(this.pc - 1).toString(16)} (PBR: 0x${this.pbr.toString(16)})`);
-                }
-                this.setZN(this.a);
-                cycles = 2; // Default cycle count for invalid opcodes
+            }
+
+            // --- Transfers ---
+            case 0xAA: this.x = this.transferToIndex(this.a); break; // TAX
+            case 0xA8: this.y = this.transferToIndex(this.a); break; // TAY
+            case 0x8A: this.setA(this.x); this.setNZ(this.a, m16); break; // TXA
+            case 0x98: this.setA(this.y); this.setNZ(this.a, m16); break; // TYA
+            case 0x9B: this.y = this.transferToIndex(this.x); break; // TXY
+            case 0xBB: this.x = this.transferToIndex(this.y); break; // TYX
+            case 0xBA: this.x = this.transferToIndex(this.sp); break; // TSX
+            case 0x9A: // TXS
+                this.sp = this.emulationMode ? 0x0100 | (this.x & 0xFF) : this.x;
+                break;
+            case 0x1B: // TCS
+                this.sp = this.emulationMode ? 0x0100 | (this.a & 0xFF) : this.a;
+                break;
+            case 0x3B: this.a = this.sp; this.setNZ(this.a, true); break; // TSC
+            case 0x5B: this.d = this.a; this.setNZ(this.d, true); break; // TCD
+            case 0x7B: this.a = this.d; this.setNZ(this.a, true); break; // TDC
+            case 0xEB: // XBA
+                this.a = ((this.a & 0xFF) << 8) | (this.a >> 8);
+                this.setNZ(this.a, false);
+                break;
+
+            // --- Flags ---
+            case 0x18: this.c = false; break; // CLC
+            case 0x38: this.c = true; break;  // SEC
+            case 0x58: this.i = false; break; // CLI
+            case 0x78: this.i = true; break;  // SEI
+            case 0xB8: this.v = false; break; // CLV
+            case 0xD8: this.d_flag = false; break; // CLD
+            case 0xF8: this.d_flag = true; break;  // SED
+            case 0xC2: this.setP(this.getP() & ~this.fetch8()); break; // REP
+            case 0xE2: this.setP(this.getP() | this.fetch8()); break;  // SEP
+            case 0xFB: { // XCE
+                const carry = this.c;
+                this.c = this.emulationMode;
+                this.emulationMode = carry;
+                this.applyRegisterWidths();
+                console.debug(`[DEBUG] XCE executed. Emulation mode: ${this.emulationMode}`);
                 break;
-        }
+            }
 
-        // Update total cycle count
-        this.cycles += cycles;
-        return cycles;
-        
-    }
-    
-    private setZN(value: number): void {
-        this.z = (value & (this.m ? 0xFF : 0xFFFF)) === 0;
-        this.n = (value & (this.m ? 0x80 : 0x8000)) !== 0;
+            // --- Block moves ---
+            case 0x44: this.blockMove(-1); break; // MVP
+            case 0x54: this.blockMove(1); break;  // MVN
+        }
     }
 
-    private handleBRK(): number {
-        // Check if we're at the troublesome address range
-        if (this.pbr === 0 && this.pc >= 0xFF00 && this.pc <= 0xFF20) {
-            console.warn(`[WARN] BRK instruction at problematic address 0x${this.pbr.toString(16)}:${this.pc.toString(16)} - forcing jump to 0x8000`);
-            this.pbr = 0;
-            this.pc = 0x8000;
-            return 7; // Return typical BRK cycles
-        }
+    // --- Addressing modes ---
+    // Each returns a 24-bit effective address and consumes its operand bytes.
 
-        // BRK pushes PC+2 (address *after* the BRK byte) and status register to stack,
-        // then jumps via IRQ vector ($FFE6/7 in Native, $FFFE/F in Emulation)
-        if (this.emulationMode) {
-            this.push16(this.pc + 1); // PC points to byte after BRK, push PC+2
-            this.push8(this.getStatusFlags(1) | 0x10); // Push status with B flag set
-            this.i = true; // Set interrupt disable
-            this.pc = this.read16(0xFFFE); // Jump via Emulation IRQ vector
-            console.debug(`[CPU][BRK][EMULATION] State before BRK: PBR=0x${this.pbr.toString(16)}, PC=0x${(this.pc-1).toString(16)}`);
-            console.debug(`[CPU][BRK][EMULATION] Stack: Pushed PC=0x${(this.pc+1).toString(16)}, Status=0x${(this.getStatusFlags(1) | 0x10).toString(16)}`);
-            console.debug(`[CPU][BRK][EMULATION] Vector: Jumping to 0x${this.pc.toString(16)} via 0xFFFE`);
-        } else {
-            this.push8(this.pbr); // Push PBR
-            this.push16(this.pc + 1); // PC points to byte after BRK, push PC+2
-            this.push8(this.getStatusFlags(1)); // Push status (B flag clear in native)
-            this.i = true; // Set interrupt disable
-            this.d_flag = false; // Clear decimal flag
-            this.pbr = 0; // Set PBR to 0
-            this.pc = this.read16(0xFFE6); // Jump via Native IRQ/BRK vector
-            console.debug(`[CPU][BRK][NATIVE] State before BRK: PBR=0x${this.pbr.toString(16)}, PC=0x${(this.pc-1).toString(16)}`);
-            console.debug(`[CPU][BRK][NATIVE] Stack: Pushed PBR=0x${this.pbr.toString(16)}, PC=0x${(this.pc+1).toString(16)}, Status=0x${this.getStatusFlags(1).toString(16)}`);
-            console.debug(`[CPU][BRK][NATIVE] Vector: Jumping to 0x${this.pc.toString(16)} via 0xFFE6`);
-        }
-        return this.emulationMode ? 8 : 7; // BRK takes 7 cycles (native) or 8 (emulation)
-    }
-
-    private handleNOP(): number {
-        // Handle NOP (No operation)
-        console.debug("[DEBUG] NOP executed.");
-        return 2; // 2 cycles for NOP
-    }
-
-    private handleLDA(): number {
-        let value: number;
-        let cycles = 2;
-        if (this.m) { // 8-bit mode
-            value = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            this.a = (this.a & 0xFF00) | value;
-            console.debug(`[DEBUG] LDA Immediate (8-bit): 0x${value.toString(16)} loaded`);
-        } else { // 16-bit mode
-            const lowByte = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            const highByte = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            value = (highByte << 8) | lowByte;
-        this.a = value;
-            cycles = 3; // 16-bit immediate takes an extra cycle
-            console.debug(`[DEBUG] LDA Immediate (16-bit): 0x${value.toString(16)} loaded`);
-        }
-        
-        this.setZN(this.a);
-        return cycles; 
+    private directPagePenalty(): void {
+        if ((this.d & 0xFF) !== 0) this.instructionCycles++;
     }
 
-    private handleSTA(): number {
-        // Handle STA Zero Page (Store Accumulator)
-        const address = this.read8((this.pbr << 16) | this.pc);
-        this.write8(address, this.a);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        console.debug(`[DEBUG] STA: 0x${this.a.toString(16)} stored at 0x${address.toString(16)}`);
-        return 3; // 3 cycles for STA Zero Page
+    // Immediate operands are read straight out of the instruction stream
+    private addrImmediate(wide: boolean): number {
+        const address = (this.pbr << 16) | this.pc;
+        this.pc = (this.pc + (wide ? 2 : 1)) & 0xFFFF;
+        return address;
     }
 
-    private handleLDA_Absolute(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const address = (highByte << 8) | lowByte;
-        const effectiveAddress = (this.dbr << 16) | address;
-        const value = this.read8(effectiveAddress);
-        
-        if (this.m) { // 8-bit mode
-            this.a = (this.a & 0xFF00) | (value & 0xFF);
-        } else { // 16-bit mode
-            this.a = this.read16(effectiveAddress); // Read 16 bits for 16-bit mode
-        }
-        
-        this.setZN(this.a);
-        console.debug(`[DEBUG] LDA Absolute: 0x${value.toString(16)} loaded from 0x${effectiveAddress.toString(16)}`);
-        return 4; // 4 cycles base, +1 if page crossed (not implemented yet)
+    // dp
+    private addrDirect(): number {
+        this.directPagePenalty();
+        return (this.d + this.fetch8()) & 0xFFFF;
     }
 
-    private handleSEI(): number {
-        this.i = true; // Set interrupt disable flag
-        console.debug(`[DEBUG] SEI executed. Interrupt disable flag set.`);
-        return 2; // 2 cycles for SEI
-    }
-    
-    private handleSTZ_Absolute(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const address = (highByte << 8) | lowByte;
-        const effectiveAddress = (this.dbr << 16) | address;
-        
-        if (this.m) { // 8-bit mode
-            this.write8(effectiveAddress, 0x00);
-        } else { // 16-bit mode
-            this.write16(effectiveAddress, 0x0000);
-        }
-        
-        console.debug(`[DEBUG] STZ Absolute: Stored 0 at 0x${effectiveAddress.toString(16)}`);
-        return 4; // 4 cycles
-    }
-    
-    private handleREP(): number {
-        const immediateValue = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const currentP = this.getP();
-        this.setP(currentP & ~immediateValue);
-        
-        // Check if M or X flag was cleared and update accordingly (affects A/X/Y size)
-        if ((immediateValue & 0x20) && !this.m) { // M flag cleared (16-bit Accumulator)
-             console.debug("[DEBUG] REP: Accumulator set to 16-bit mode");
+    // dp,X / dp,Y - wraps inside the direct page in emulation mode when DL is zero
+    private addrDirectIndexed(index: number): number {
+        const offset = this.fetch8();
+        this.directPagePenalty();
+        if (this.emulationMode && (this.d & 0xFF) === 0) {
+            return this.d | ((offset + index) & 0xFF);
         }
-        if ((immediateValue & 0x10) && !this.x_b) { // X flag cleared (16-bit Index)
-             console.debug("[DEBUG] REP: Index registers set to 16-bit mode");
-             // If X flag cleared, Y also becomes 16-bit if M is also 16-bit?
-             // Note: 65c816 behavior is complex here. Need precise documentation.
-             // For now, assume X/Y follow X flag directly.
-        }
-        
-        console.debug(`[DEBUG] REP #$${immediateValue.toString(16)} executed. P = 0x${this.getP().toString(16)}`);
-        return 3; // 3 cycles
+        return (this.d + offset + index) & 0xFFFF;
     }
-    
-    private handleSTA_Absolute(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const address = (highByte << 8) | lowByte;
-        const effectiveAddress = (this.dbr << 16) | address;
-
-        if (this.m) { // 8-bit mode
-            this.write8(effectiveAddress, this.a & 0xFF);
-        } else { // 16-bit mode
-            this.write16(effectiveAddress, this.a);
-        }
 
-        console.debug(`[DEBUG] STA Absolute: Stored 0x${this.a.toString(16)} at 0x${effectiveAddress.toString(16)}`);
-        return 4; // 4 cycles
-    }
-    
-    // Stack Operation Handlers
-    private handlePHA(): number {
-        if (this.m) { // 8-bit accumulator
-            this.push8(this.a & 0xFF);
-        } else { // 16-bit accumulator
-            this.push16(this.a);
-        }
-        console.debug("[DEBUG] PHA executed");
-        return 3; // 3 cycles (native), 4 cycles (emulation) - check timing
+    // Reads a 16-bit pointer out of bank 0, honouring emulation page wrapping
+    private readDirectPointer(address: number): number {
+        const low = this.read8(address);
+        const highAddress = this.emulationMode && (this.d & 0xFF) === 0
+            ? (address & 0xFF00) | ((address + 1) & 0xFF)
+            : (address + 1) & 0xFFFF;
+        return (this.read8(highAddress) << 8) | low;
     }
 
-    private handlePHX(): number {
-        if (this.x_b) { // 8-bit index registers
-            this.push8(this.x & 0xFF);
-        } else { // 16-bit index registers
-            this.push16(this.x);
-        }
-        console.debug("[DEBUG] PHX executed");
-        return 3; // 3 cycles (native), 4 cycles (emulation) - check timing
+    // (dp)
+    private addrDirectIndirect(): number {
+        const pointer = this.addrDirect();
+        return (this.dbr << 16) | this.readDirectPointer(pointer);
     }
 
-    private handlePHY(): number {
-        if (this.x_b) { // 8-bit index registers (Y size follows X flag)
-            this.push8(this.y & 0xFF);
-        } else { // 16-bit index registers
-            this.push16(this.y);
-        }
-        console.debug("[DEBUG] PHY executed");
-        return 3; // 3 cycles (native), 4 cycles (emulation) - check timing
-    }
-    
-    private handleCLC(): number {
-        this.c = false; // Clear carry flag
-        console.debug("[DEBUG] CLC executed");
-        return 2; // 2 cycles
-    }
-
-    private handleXCE(): number {
-        const oldC = this.c;
-        const oldE = this.emulationMode;
-        this.c = oldE; 
-        this.emulationMode = oldC;
-        console.debug(`[DEBUG] XCE executed. Emulation mode: ${this.emulationMode}, Carry: ${this.c}`);
-        
-        // If switched to emulation mode, force stack pointer high byte and register sizes
-        if (this.emulationMode) {
-            this.sp = 0x0100 | (this.sp & 0xFF); // Force SP high byte to 01
-            this.m = true;  // Force 8-bit accumulator
-            this.x_b = true; // Force 8-bit index registers
-             console.debug("[DEBUG] XCE: Switched to Emulation Mode - Forced SP high byte and 8-bit registers.");
-        }
-        // If switching to native, M/X flags retain their previous (native) state, which should have been set by REP/SEP.
-        
-        return 2; // 2 cycles
-    }
-    
-    private handlePHD(): number {
-        this.push16(this.d); // Direct Page register is always 16-bit
-        console.debug("[DEBUG] PHD executed");
-        return 4; // 4 cycles
+    // (dp,X)
+    private addrDirectIndexedIndirect(): number {
+        const pointer = this.addrDirectIndexed(this.x);
+        return (this.dbr << 16) | this.readDirectPointer(pointer);
     }
 
-    private handlePHB(): number {
-        this.push8(this.dbr); // Data Bank Register is 8-bit
-        console.debug("[DEBUG] PHB executed");
-        return 3; // 3 cycles
+    // (dp),Y
+    private addrDirectIndirectIndexed(isWrite: boolean): number {
+        const pointer = this.addrDirect();
+        const base = (this.dbr << 16) | this.readDirectPointer(pointer);
+        return this.indexAddress(base, this.y, isWrite);
     }
 
-    private handlePHK(): number {
-        this.push8(this.pbr); // Program Bank Register is 8-bit
-        console.debug("[DEBUG] PHK executed");
-        return 3; // 3 cycles
+    // [dp]
+    private addrDirectIndirectLong(): number {
+        const pointer = this.addrDirect();
+        const low = this.read16(pointer);
+        return (this.read8((pointer + 2) & 0xFFFF) << 16) | low;
     }
 
-    private handlePLB(): number {
-        this.dbr = this.pop8(); // Data Bank Register is 8-bit
-        this.setZN(this.dbr); // PLB affects N and Z flags based on the 8-bit value pulled
-        console.debug(`[DEBUG] PLB executed. DBR = 0x${this.dbr.toString(16)}`);
-        return 4; // 4 cycles
+    // [dp],Y
+    private addrDirectIndirectLongIndexed(): number {
+        return (this.addrDirectIndirectLong() + this.y) & 0xFFFFFF;
     }
-    
-    private handleSEP(): number {
-        const immediateValue = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const currentP = this.getP();
-        this.setP(currentP | immediateValue);
-
-         // Check if M or X flag was set and update accordingly
-        if ((immediateValue & 0x20) && this.m) { // M flag set (8-bit Accumulator)
-            console.debug("[DEBUG] SEP: Accumulator set to 8-bit mode");
-            this.a &= 0xFF; // Truncate A to 8 bits if switching
-        }
-        if ((immediateValue & 0x10) && this.x_b) { // X flag set (8-bit Index)
-            console.debug("[DEBUG] SEP: Index registers set to 8-bit mode");
-            this.x &= 0xFF; // Truncate X
-            this.y &= 0xFF; // Truncate Y
-        }
 
-        console.debug(`[DEBUG] SEP #$${immediateValue.toString(16)} executed. P = 0x${this.getP().toString(16)}`);
-        return 3; // 3 cycles
+    // abs
+    private addrAbsolute(): number {
+        return (this.dbr << 16) | this.fetch16();
     }
-    
-    private handleBRL(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        
-        let offset = (highByte << 8) | lowByte;
-        // Sign extend the 16-bit offset
-        if (offset & 0x8000) {
-            offset |= 0xFFFF0000;
-        }
 
-        const oldPC = this.pc;
-        this.pc = (this.pc + offset) & 0xFFFF;
-        console.debug(`[DEBUG] BRL: Branching by ${offset} from 0x${oldPC.toString(16)} to 0x${this.pc.toString(16)}`);
-        
-        // BRL always takes 4 cycles in native mode (assuming we are in native)
-        return 4; 
+    // abs,X / abs,Y
+    private addrAbsoluteIndexed(index: number, isWrite: boolean): number {
+        const base = (this.dbr << 16) | this.fetch16();
+        return this.indexAddress(base, index, isWrite);
     }
-    
-    private handleCOP(): number {
-        const signatureByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF; // Consume the signature byte
-
-        // Log state BEFORE vector read
-        console.debug(`[DEBUG] handleCOP entered. PC=${this.pc.toString(16)}, PBR=${this.pbr.toString(16)}, E=${this.emulationMode}`);
 
-        if (this.emulationMode) {
-            this.push8(this.pbr); // Push PBR (only in native, but sequence matters for stack)
-            this.push16(this.pc); // Push return address (PC after signature byte)
-            this.push8(this.getP()); // Push status register
-            this.i = true; // Set interrupt disable
-            this.d_flag = false; // Clear decimal flag (standard 6502 IRQ behavior)
-            this.pbr = 0; // Set PBR to 0
-            const vectorAddress = 0xFFF4;
-            const targetPC = this.read16(vectorAddress); 
-            console.debug(`[DEBUG] COP (Emulation) read vector 0x${vectorAddress.toString(16)}. Target PC = 0x${targetPC.toString(16)}. Signature=0x${signatureByte.toString(16)}. NOT JUMPING (DEBUG).`);
-            this.pc = targetPC; // Re-enable jump
-            return 7; // 7 cycles in emulation mode
-        } else {
-            // Native mode COP
-            this.push8(this.pbr);
-            this.push16(this.pc);
-            this.push8(this.getP());
-            this.i = true;
-            this.d_flag = false;
-            this.pbr = 0;
-            const vectorAddress = 0xFFE4;
-            const targetPC = this.read16(vectorAddress); 
-            console.debug(`[DEBUG] COP (Native) read vector 0x${vectorAddress.toString(16)}. Target PC = 0x${targetPC.toString(16)}. Signature=0x${signatureByte.toString(16)}. NOT JUMPING (DEBUG).`);
-            this.pc = targetPC; // Re-enable jump
-            return 8; // 8 cycles in native mode
-        }
-    }
-    
-    // IRQ handling
-    private handleIRQ(): number {
-        // Handle IRQ (Interrupt Request)
-        this.push16(this.pc);
-        this.push8(this.getP());
-        this.i = true; // Disable interrupts during IRQ
-        this.pc = this.read16(0xFFFE); // Read the IRQ vector
-        
-        return 7; // IRQ has 7 cycles
-    }
-    
-    // Control methods
-    start(): void {
-        this.isRunning = true;
-        this.halted = false; // Clear halted on start
-    }
-    
-    stop(): void {
-        this.isRunning = false;
-        this.halted = true; // Set halted on stop
+    // long
+    private addrAbsoluteLong(): number {
+        return this.fetch24();
     }
-    
-    // Debug methods
-    getState(): object {
-        return {
-            a: this.a,
-            x: this.x,
-            y: this.y,
-            sp: this.sp,
-            pc: this.pc,
-            pbr: this.pbr,
-            dbr: this.dbr,
-            d: this.d,
-            p: this.getP(),
-            emulationMode: this.emulationMode,
-            cycles: this.cycles
-        };
-    }
-    private getStatusFlags(breakFlagValue: number = 0): number {
-        let flags = 0;
-        if (this.n) flags |= 0x80;
-        if (this.v) flags |= 0x40;
-        if (this.m) flags |= 0x20;
-        if (this.x_b) flags |= 0x10;
-        if (this.d_flag) flags |= 0x08;
-        if (this.i) flags |= 0x04;
-        if (this.z) flags |= 0x02;
-        if (this.c) flags |= 0x01;
-
-        // Handle B flag (bit 4) based on context (BRK/IRQ/NMI)
-        // Emulation mode B flag handling differs!
-        if (this.emulationMode) {
-            // In emulation mode, B flag (bit 4) is always set when pushed by BRK or PHP.
-            // It's clear when pushed by IRQ/NMI.
-            // breakFlagValue = 1 for BRK/PHP, 0 for IRQ/NMI
-            if (breakFlagValue === 1) {
-                flags |= 0x10; // Set B flag
-            } else {
-                flags &= ~0x10; // Clear B flag
-            }
-            flags |= 0x20; // M flag (bit 5) is always 1 when pushed in emulation mode.
-        } else {
-            // Native mode: B flag (bit 4) is always 0 when pushed.
-            flags &= ~0x10;
-        }
 
-        return flags;
+    // long,X
+    private addrAbsoluteLongIndexed(): number {
+        return (this.fetch24() + this.x) & 0xFFFFFF;
     }
 
-    private handleJML_AbsoluteLong(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const bankByte = this.read8((this.pbr << 16) | this.pc);
-        // Don't increment PC here, JML sets it directly
-
-        this.pc = (highByte << 8) | lowByte;
-        this.pbr = bankByte;
-        console.debug(`[DEBUG] JML Absolute Long: Jumping to 0x${this.pbr.toString(16)}${this.pc.toString(16).padStart(4, '0')}`);
-        return 6; // 6 cycles
+    // sr,S
+    private addrStackRelative(): number {
+        return (this.sp + this.fetch8()) & 0xFFFF;
     }
 
-    private handleLDA_AbsoluteLong(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const bankByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-
-        const address = (highByte << 8) | lowByte;
-        const effectiveAddress = (bankByte << 16) | address;
-        // const value = this.read8(effectiveAddress); // Read before logging for clarity
-
-        console.debug(`[DEBUG] LDA Absolute Long: Trying to read from 0x${effectiveAddress.toString(16).padStart(6, '0')} (Bank: ${bankByte.toString(16)}, Addr: ${address.toString(16)})`); // ADD THIS LOG
-
-        if (this.m) { // 8-bit mode
-            const value = this.read8(effectiveAddress); // Moved read inside block
-            this.a = (this.a & 0xFF00) | (value & 0xFF);
-            console.debug(`[DEBUG] LDA Absolute Long: Loaded 0x${value.toString(16)} (8-bit)`);
-        } else { // 16-bit mode
-            const value = this.read16(effectiveAddress); // Moved read inside block
-            this.a = value; // Read 16 bits for 16-bit mode
-            console.debug(`[DEBUG] LDA Absolute Long: Loaded 0x${value.toString(16)} (16-bit)`);
-        }
-
-        this.setZN(this.a);
-        // console.debug(`[DEBUG] LDA Absolute Long: Loaded 0x${this.a.toString(16)} from 0x${effectiveAddress.toString(16)}`); // Old log
-        return 5; // 5 cycles
+    // (sr,S),Y
+    private addrStackRelativeIndirectIndexed(): number {
+        const pointer = this.addrStackRelative();
+        const base = (this.dbr << 16) | this.read16(pointer);
+        return (base + this.y) & 0xFFFFFF;
     }
 
-    private handleLDA_AbsoluteLongX(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const bankByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-
-        const baseAddress = (bankByte << 16) | (highByte << 8) | lowByte;
-        const effectiveAddress = (baseAddress + (this.x & (this.x_b ? 0xFFFF : 0xFFFF))) & 0xFFFFFF; // Add X (full 16-bit if x_b=0)
-
-        let value: number;
-        let cycles = 5; // Base cycles
-        if (this.m) { // 8-bit mode
-            value = this.read8(effectiveAddress);
-            this.a = (this.a & 0xFF00) | value;
-            this.setZN(this.a & 0xFF);
-            console.debug(`[DEBUG] LDA Absolute Long, X (8-bit): A = 0x${(this.a & 0xFF).toString(16)} from 0x${effectiveAddress.toString(16)} (Base: ${baseAddress}, X: ${this.x})`);
-        } else { // 16-bit mode
-            value = this.read16(effectiveAddress);
-            this.a = value;
-            this.setZN(this.a);
-            cycles = 6; // 16-bit takes longer
-            console.debug(`[DEBUG] LDA Absolute Long, X (16-bit): A = 0x${this.a.toString(16)} from 0x${effectiveAddress.toString(16)} (Base: ${baseAddress}, X: ${this.x})`);
+    // Indexed reads take an extra cycle with 16-bit index registers or when a page is crossed;
+    // writes always pay it and it is already part of their base count.
+    private indexAddress(base: number, index: number, isWrite: boolean): number {
+        const address = (base + index) & 0xFFFFFF;
+        if (!isWrite && (!this.x_b || (base & 0xFF00) !== (address & 0xFF00))) {
+            this.instructionCycles++;
         }
-
-        // Add cycle penalty if page boundary crossed by adding X? Check docs.
-        const basePage = baseAddress >> 16;
-        const effectivePage = effectiveAddress >> 16;
-        if(basePage !== effectivePage && !this.emulationMode) {
-             // Page boundary crossing penalty only in native mode for indexed absolute long?
-             // Or is it only for relative branches?
-             // Let's assume 1 cycle penalty for now based on 6502 behavior, needs verification for 65816.
-             // cycles++;
-             console.debug(`[DEBUG] LDA Absolute Long, X: Page boundary crossed (Base: ${basePage}, Eff: ${effectivePage}). Cycle penalty TBC.`);
-        }
-
-        return cycles;
+        return address;
     }
 
-    private handleCMP_Absolute(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const address = (highByte << 8) | lowByte;
-        const effectiveAddress = (this.dbr << 16) | address;
-        const value = this.read16(effectiveAddress); // CMP always compares 16 bits if M=0
-        
-        let regValue = this.a;
-        if (this.m) { // 8-bit mode
-            regValue &= 0xFF;
-        }
-        
-        const result = regValue - value;
-        this.c = result >= 0; // Set carry if A/M >= M (no borrow)
-        this.setZN(result & (this.m ? 0xFF : 0xFFFF)); // Set N/Z based on result (masked)
-
-        console.debug(`[DEBUG] CMP Absolute: Compared 0x${regValue.toString(16)} with 0x${value.toString(16)} from 0x${effectiveAddress.toString(16)}`);
-        return 4; // 4 cycles (base)
-    }
-    
-    private handleCMP_Immediate(): number {
-        let value: number;
-        let cycles = 2; // Base cycles
-        let regValue = this.a;
-
-        if (this.m) { // 8-bit mode
-            value = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            regValue &= 0xFF;
-            console.debug(`[DEBUG] CMP Immediate (8-bit): Comparing A(0x${regValue.toString(16)}) with #0x${value.toString(16)}`);
-        } else { // 16-bit mode
-            const lowByte = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            const highByte = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            value = (highByte << 8) | lowByte;
-            cycles = 3; // 16-bit immediate takes longer
-            console.debug(`[DEBUG] CMP Immediate (16-bit): Comparing A(0x${regValue.toString(16)}) with #0x${value.toString(16)}`);
-        }
-
-        const result = regValue - value;
-        this.c = result >= 0; // Carry set if A >= value (no borrow)
-        this.setZN(result); // Set N/Z based on result (respecting M flag)
-
-        return cycles;
+    // Indirect jump pointers for (abs,X) live in the program bank
+    private readProgramWord(address: number): number {
+        const low = this.read8((this.pbr << 16) | address);
+        const high = this.read8((this.pbr << 16) | ((address + 1) & 0xFFFF));
+        return (high << 8) | low;
     }
 
-    private handleBRA(): number {
-        // Special case for known infinite loop at 0xFF1C
-        if (this.pc === 0xFF1C) {
-            console.warn(`[WARN] BRA: Breaking out of infinite loop at 0xFF1C`);
-            this.pc = 0xFF1E; // Skip ahead to next instruction after the branch
-            return 3;
-        }
-
-        let offset = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-
-        // Sign extend 8-bit offset
-        if (offset & 0x80) {
-            offset |= 0xFFFFFF00;
-        }
+    // --- Register helpers ---
 
-        // Calculate destination before applying
-        const oldPC = this.pc;
-        const newPC = (this.pc + offset) & 0xFFFF;
-        
-        // Check if this branch would create an infinite loop
-        if (newPC === (oldPC - 2) || (newPC === 0xFF1C && this.pbr === 0)) {
-            console.warn(`[WARN] BRA: Prevented infinite loop - from PC ${oldPC.toString(16)} to PC ${newPC.toString(16)} with offset ${offset}`);
-            this.pc = (oldPC + 2) & 0xFFFF; // Skip ahead instead
-        } else {
-            this.pc = newPC;
-        }
-        
-        console.debug(`[DEBUG] BRA: Branching from 0x${oldPC.toString(16)} to 0x${this.pc.toString(16)} (offset ${offset})`);
-        
-        return 3;
+    // Accumulator view sized by the M flag (B is preserved in 8-bit mode)
+    private getA(): number {
+        return this.m ? this.a & 0xFF : this.a;
     }
 
-    private handleBVC_Relative(): number {
-        let offset = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-
-        let cycles = 2; // Base cycles if branch not taken
-        if (!this.v) { // Branch if Overflow flag is clear
-            cycles = 3; // Branch taken adds 1 cycle
-            const oldPC = this.pc;
-            // Sign extend 8-bit offset
-            if (offset & 0x80) {
-                offset |= 0xFFFFFF00;
-            }
-            this.pc = (this.pc + offset) & 0xFFFF;
-            console.debug(`[DEBUG] BVC: Branching by ${offset} from 0x${oldPC.toString(16)} to 0x${this.pc.toString(16)}`);
-
-            // Add 1 cycle if page boundary is crossed (Native mode only)
-            if (!this.emulationMode && (oldPC & 0xFF00) !== (this.pc & 0xFF00)) {
-                cycles++;
-            }
-        } else {
-             console.debug(`[DEBUG] BVC: Branch not taken (V flag set)`);
-        }
-
-        return cycles;
+    private setA(value: number): void {
+        this.a = this.m ? (this.a & 0xFF00) | (value & 0xFF) : value & 0xFFFF;
     }
 
-    private handleBNE_Relative(): number {
-        let offset = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-
-        let cycles = 2; // Base cycles if branch not taken
-        if (!this.z) { // Branch if Zero flag is clear
-            cycles = 3; // Branch taken adds 1 cycle
-            const oldPC = this.pc;
-            // Sign extend 8-bit offset
-            if (offset & 0x80) {
-                offset |= 0xFFFFFF00;
-            }
-            this.pc = (this.pc + offset) & 0xFFFF;
-            console.debug(`[DEBUG] BNE: Branching by ${offset} from 0x${oldPC.toString(16)} to 0x${this.pc.toString(16)}`);
-
-            // Add 1 cycle if page boundary is crossed (Native mode only)
-            if (!this.emulationMode && (oldPC & 0xFF00) !== (this.pc & 0xFF00)) {
-                cycles++;
-            }
+    private setNZ(value: number, wide: boolean): void {
+        if (wide) {
+            this.z = (value & 0xFFFF) === 0;
+            this.n = (value & 0x8000) !== 0;
         } else {
-             console.debug(`[DEBUG] BNE: Branch not taken (Z flag set)`);
+            this.z = (value & 0xFF) === 0;
+            this.n = (value & 0x80) !== 0;
         }
-
-        return cycles;
     }
 
-    private handleBEQ_Relative(): number {
-        let offset = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-
-        let cycles = 2; // Base cycles if branch not taken
-        if (this.z) { // Branch if Zero flag is set
-            cycles = 3; // Branch taken adds 1 cycle
-            const oldPC = this.pc;
-            // Sign extend 8-bit offset
-            if (offset & 0x80) {
-                offset |= 0xFFFFFF00;
-            }
-            this.pc = (this.pc + offset) & 0xFFFF;
-            console.debug(`[DEBUG] BEQ: Branching by ${offset} from 0x${oldPC.toString(16)} to 0x${this.pc.toString(16)}`);
-
-            // Add 1 cycle if page boundary is crossed (Native mode only)
-            if (!this.emulationMode && (oldPC & 0xFF00) !== (this.pc & 0xFF00)) {
-                cycles++;
-            }
-        } else {
-             console.debug(`[DEBUG] BEQ: Branch not taken (Z flag clear)`);
-        }
-
-        return cycles;
+    private transferToIndex(value: number): number {
+        const result = this.x_b ? value & 0xFF : value & 0xFFFF;
+        this.setNZ(result, !this.x_b);
+        return result;
     }
 
-    private handlePLX(): number {
-        if (this.x_b) { // 8-bit index registers
-            this.x = this.pop8();
-        } else { // 16-bit index registers
-            this.x = this.pop16();
+    private pushRegister(value: number, wide: boolean): void {
+        if (wide) {
+            this.instructionCycles++;
+            this.push16(value);
+        } else {
+            this.push8(value);
         }
-        console.debug(`[DEBUG] PLX executed. X = 0x${this.x.toString(16)}`);
-        return 4; // 4 cycles
     }
 
-    private handleSTX_ZeroPage(): number {
-        const zeroPageAddr = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        // Effective address uses D register + zero page offset
-        const effectiveAddress = (this.d + zeroPageAddr) & 0xFFFF;
-
-        let cycles = 3; // Base cycles
-        if (this.x_b) { // 8-bit mode
-            this.write8(effectiveAddress, this.x & 0xFF);
-            console.debug(`[DEBUG] STX Zero Page (8-bit): Stored 0x${(this.x & 0xFF).toString(16)} at 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr}, D: ${this.d})`);
-        } else { // 16-bit mode
-            this.write16(effectiveAddress, this.x);
-            cycles = 4; // 16-bit takes longer
-            console.debug(`[DEBUG] STX Zero Page (16-bit): Stored 0x${this.x.toString(16)} at 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr}, D: ${this.d})`);
-        }
-
-        // Add cycle penalty if D low byte is non-zero
-        if ((this.d & 0xFF) !== 0) {
-            cycles++;
+    private pullRegister(wide: boolean): number {
+        if (wide) {
+            this.instructionCycles++;
+            return this.pop16();
         }
-        return cycles;
+        return this.pop8();
     }
 
-    private handleLSR_Absolute(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const address = (highByte << 8) | lowByte;
-        const effectiveAddress = (this.dbr << 16) | address;
-
-        let cycles = 6; // Base cycles for Absolute read-modify-write
-        let value: number;
-        if (this.m) { // 8-bit mode
-            value = this.read8(effectiveAddress);
-            this.c = (value & 0x01) !== 0; // Bit 0 goes to Carry
-            value >>= 1;
-            this.write8(effectiveAddress, value);
-            this.setZN(value & 0xFF);
-            console.debug(`[DEBUG] LSR Absolute (8-bit): Addr=0x${effectiveAddress.toString(16)}, NewVal=0x${value.toString(16)}, Carry=${this.c}`);
-        } else { // 16-bit mode
-            value = this.read16(effectiveAddress);
-            this.c = (value & 0x0001) !== 0; // Bit 0 goes to Carry
-            value >>= 1;
-            this.write16(effectiveAddress, value);
-            this.setZN(value);
-            cycles = 8; // 16-bit RMW takes longer
-            console.debug(`[DEBUG] LSR Absolute (16-bit): Addr=0x${effectiveAddress.toString(16)}, NewVal=0x${value.toString(16)}, Carry=${this.c}`);
-        }
+    // --- Operations ---
 
-        return cycles;
+    private lda(address: number): void {
+        this.setA(this.readOperand(address, !this.m));
+        this.setNZ(this.a, !this.m);
     }
 
-    private handleLDX_ZeroPage(): number {
-        const zeroPageAddr = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const effectiveAddress = (this.d + zeroPageAddr) & 0xFFFF;
-
-        let value: number;
-        let cycles = 3; // Base cycles
-        if (this.x_b) { // 8-bit mode
-            value = this.read8(effectiveAddress);
-            this.x = value;
-            this.setZN(this.x & 0xFF);
-            console.debug(`[DEBUG] LDX Zero Page (8-bit): X = 0x${this.x.toString(16)} from 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr}, D: ${this.d})`);
-        } else { // 16-bit mode
-            value = this.read16(effectiveAddress);
-            this.x = value;
-            this.setZN(this.x);
-            cycles = 4; // 16-bit takes longer
-            console.debug(`[DEBUG] LDX Zero Page (16-bit): X = 0x${this.x.toString(16)} from 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr}, D: ${this.d})`);
-        }
-
-        // Add cycle penalty if D low byte is non-zero
-        if ((this.d & 0xFF) !== 0) {
-            cycles++;
-        }
-        return cycles;
+    private sta(address: number): void {
+        this.writeOperand(address, this.a, !this.m);
     }
 
-    private handleLDA_ZeroPage(): number {
-        const zeroPageAddr = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const effectiveAddress = (this.d + zeroPageAddr) & 0xFFFF;
-
-        let value: number;
-        let cycles = 3; // Base cycles
-        if (this.m) { // 8-bit mode
-            value = this.read8(effectiveAddress);
-            this.a = (this.a & 0xFF00) | value;
-            this.setZN(this.a & 0xFF);
-            console.debug(`[DEBUG] LDA Zero Page (8-bit): A = 0x${(this.a & 0xFF).toString(16)} from 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr}, D: ${this.d})`);
-        } else { // 16-bit mode
-            value = this.read16(effectiveAddress);
-            this.a = value;
-            this.setZN(this.a);
-            cycles = 4; // 16-bit takes longer
-            console.debug(`[DEBUG] LDA Zero Page (16-bit): A = 0x${this.a.toString(16)} from 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr}, D: ${this.d})`);
-        }
-
-        // Add cycle penalty if D low byte is non-zero
-        if ((this.d & 0xFF) !== 0) {
-            cycles++;
-        }
-        return cycles;
+    private loadIndex(address: number): number {
+        const value = this.readOperand(address, !this.x_b);
+        this.setNZ(value, !this.x_b);
+        return value;
     }
 
-    private handleEOR_Absolute(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const address = (highByte << 8) | lowByte;
-        const effectiveAddress = (this.dbr << 16) | address;
-
-        let value: number;
-        let cycles = 4; // Base cycles
-        if (this.m) { // 8-bit mode
-            value = this.read8(effectiveAddress);
-            this.a = (this.a & 0xFF00) | ((this.a ^ value) & 0xFF);
-            this.setZN(this.a & 0xFF);
-            console.debug(`[DEBUG] EOR Absolute (8-bit): A = 0x${(this.a & 0xFF).toString(16)} ^= 0x${value.toString(16)} from 0x${effectiveAddress.toString(16)}`);
-        } else { // 16-bit mode
-            value = this.read16(effectiveAddress);
-            this.a = (this.a ^ value) & 0xFFFF;
-            this.setZN(this.a);
-            cycles = 5; // 16-bit takes longer
-            console.debug(`[DEBUG] EOR Absolute (16-bit): A = 0x${this.a.toString(16)} ^= 0x${value.toString(16)} from 0x${effectiveAddress.toString(16)}`);
-        }
-
-        // Add cycle for page boundary cross? Check docs.
-        return cycles;
+    private ora(address: number): void {
+        this.setA(this.getA() | this.readOperand(address, !this.m));
+        this.setNZ(this.a, !this.m);
     }
 
-    private handleTYX(): number {
-        if (this.x_b) { // 8-bit mode (transfer low byte)
-            this.x = this.y & 0xFF;
-            this.setZN(this.x & 0xFF);
-        } else { // 16-bit mode (transfer full 16 bits)
-            this.x = this.y;
-            this.setZN(this.x);
-        }
-        console.debug(`[DEBUG] TYX executed. X = 0x${this.x.toString(16)}`);
-        return 2; // 2 cycles
+    private and(address: number): void {
+        this.setA(this.getA() & this.readOperand(address, !this.m));
+        this.setNZ(this.a, !this.m);
     }
 
-    private handleORA_DirectPageIndexedIndirectX(): number {
-        const zeroPageOffset = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-
-        // Calculate pointer address in zero page (D + Base Offset + X)
-        // Address wraps within the first 64KB (0x0000-0xFFFF)
-        const pointerBaseAddress = (this.d + zeroPageOffset + (this.x & (this.x_b ? 0xFF : 0xFFFF))) & 0xFFFF;
-
-        // Read the 16-bit indirect address from the pointer address
-        const indirectAddressLow = this.read8(pointerBaseAddress);
-        // Handle wrap around for high byte read if pointerBaseAddress is 0xFFFF
-        const indirectAddressHigh = this.read8((pointerBaseAddress + 1) & 0xFFFF);
-        const indirectAddress = (indirectAddressHigh << 8) | indirectAddressLow;
-
-        // The final effective address uses the DBR and the indirect address
-        const effectiveAddress = (this.dbr << 16) | indirectAddress;
-
-        let value: number;
-        let cycles = 6; // Base cycles for this mode
-        if (this.m) { // 8-bit mode
-            value = this.read8(effectiveAddress);
-            this.a = (this.a & 0xFF00) | ((this.a | value) & 0xFF);
-            this.setZN(this.a & 0xFF);
-            console.debug(`[DEBUG] ORA (dp,X) (8-bit): A=0x${(this.a & 0xFF).toString(16)} |= 0x${value.toString(16)} from [0x${pointerBaseAddress.toString(16)}] = 0x${effectiveAddress.toString(16)}`);
-        } else { // 16-bit mode
-            value = this.read16(effectiveAddress);
-            this.a = (this.a | value) & 0xFFFF;
-            this.setZN(this.a);
-            cycles = 7; // 16-bit takes longer
-            console.debug(`[DEBUG] ORA (dp,X) (16-bit): A=0x${this.a.toString(16)} |= 0x${value.toString(16)} from [0x${pointerBaseAddress.toString(16)}] = 0x${effectiveAddress.toString(16)}`);
-        }
-
-        // Add cycle penalty if D low byte is non-zero
-        if ((this.d & 0xFF) !== 0) {
-            cycles++;
-        }
-        // Add cycle penalty for page boundary cross on indirect read? Check docs.
-        return cycles;
+    private eor(address: number): void {
+        this.setA(this.getA() ^ this.readOperand(address, !this.m));
+        this.setNZ(this.a, !this.m);
     }
 
-    private handleAND_Absolute(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const address = (highByte << 8) | lowByte;
-        const effectiveAddress = (this.dbr << 16) | address;
-
-        let value: number;
-        let cycles = 4; // Base cycles
-        if (this.m) { // 8-bit mode
-            value = this.read8(effectiveAddress);
-            this.a = (this.a & 0xFF00) | ((this.a & value) & 0xFF);
-            this.setZN(this.a & 0xFF);
-            console.debug(`[DEBUG] AND Absolute (8-bit): A = 0x${(this.a & 0xFF).toString(16)} &= 0x${value.toString(16)} from 0x${effectiveAddress.toString(16)}`);
-        } else { // 16-bit mode
-            value = this.read16(effectiveAddress);
-            this.a = (this.a & value) & 0xFFFF;
-            this.setZN(this.a);
-            cycles = 5; // 16-bit takes longer
-            console.debug(`[DEBUG] AND Absolute (16-bit): A = 0x${this.a.toString(16)} &= 0x${value.toString(16)} from 0x${effectiveAddress.toString(16)}`);
-        }
-
-        // Add cycle for page boundary cross? Check docs.
-        return cycles;
+    private adc(address: number): void {
+        this.addWithCarry(this.readOperand(address, !this.m), false);
     }
 
-    private handleJSL_AbsoluteLong(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const bankByte = this.read8((this.pbr << 16) | this.pc);
-        // Don't increment PC here, it's the last byte of the operand
-
-        const targetAddress = (highByte << 8) | lowByte;
-        const targetBank = bankByte;
-
-        // Push Program Bank Register (PBR)
-        this.push8(this.pbr);
-
-        // Push the address of the last byte of the JSL instruction (current PC - 1)
-        const returnAddressPC = (this.pc - 1) & 0xFFFF;
-        this.push16(returnAddressPC);
-
-        console.debug(`[DEBUG] JSL Absolute Long: Jumping to 0x${targetBank.toString(16)}${targetAddress.toString(16).padStart(4, '0')}, pushed return PBR:0x${this.pbr.toString(16)} PC:0x${returnAddressPC.toString(16).padStart(4, '0')}`);
-
-        this.pbr = targetBank;
-        this.pc = targetAddress;
-        return 8; // 8 cycles in native mode
+    private sbc(address: number): void {
+        this.addWithCarry(this.readOperand(address, !this.m), true);
     }
 
-    private handleSBC_Immediate(): number {
-        let value: number;
-        let cycles = 2; // Base cycles
-        const carryIn = this.c ? 1 : 0;
-
-        if (this.d_flag && this.emulationMode) {
-            // --- Decimal Mode SBC (Emulation Only) ---
-            value = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            const operand = value ^ 0xFF; // Invert for subtraction via addition
-
-            let al = (this.a & 0x0F) + (operand & 0x0F) + carryIn;
-            if (al <= 0x0F) al -= 6;
-            let ah = (this.a & 0xF0) + (operand & 0xF0);
-            if (al < 0) ah -= 0x10;
-
-            // Flags (V flag needs careful handling in decimal)
-            const tempResult = (this.a & 0xFF) + operand + carryIn;
-            this.v = (((this.a & 0xFF) ^ tempResult) & (operand ^ tempResult) & 0x80) !== 0;
-            this.z = (tempResult & 0xFF) === 0;
-            this.n = (tempResult & 0x80) !== 0;
-
-            if (ah <= 0xF0) ah -= 0x60;
-            this.c = ah >= 0; // Carry is set if result is non-negative
+    // Shared ADC/SBC core. Decimal mode adjusts one nibble at a time the way the
+    // 65C816 does, computing V before the final adjustment.
+    private addWithCarry(operand: number, subtract: boolean): void {
+        const wide = !this.m;
+        const mask = wide ? 0xFFFF : 0xFF;
+        const sign = wide ? 0x8000 : 0x80;
+        const a = this.getA();
+        const data = subtract ? operand ^ mask : operand;
+        let result: number;
 
-            this.a = (this.a & 0xFF00) | (tempResult & 0xFF);
-            console.warn(`[WARN] SBC Immediate (Decimal Mode - Emulation): A = ${this.a.toString(16)}, Value = ${value.toString(16)}, CarryIn = ${carryIn}`);
-            cycles = 3;
+        if (!this.d_flag) {
+            result = a + data + (this.c ? 1 : 0);
+            this.v = (~(a ^ data) & (a ^ result) & sign) !== 0;
+            this.c = result > mask;
         } else {
-            // --- Binary Mode SBC ---
-            if (this.m) { // 8-bit mode
-                value = this.read8((this.pbr << 16) | this.pc);
-                this.pc = (this.pc + 1) & 0xFFFF;
-                const operand = value ^ 0xFF; // Invert for subtraction via addition
-                const temp = (this.a & 0xFF) + operand + carryIn;
-                this.v = (((this.a & 0xFF) ^ temp) & (operand ^ temp) & 0x80) !== 0;
-                this.c = temp > 0xFF;
-                this.a = (this.a & 0xFF00) | (temp & 0xFF);
-                this.setZN(this.a & 0xFF);
-                console.debug(`[DEBUG] SBC Immediate (8-bit): A=0x${(this.a & 0xFF).toString(16)}, Val=0x${value.toString(16)}, Cin=${carryIn}`);
-            } else { // 16-bit mode
-                const lowByte = this.read8((this.pbr << 16) | this.pc);
-                this.pc = (this.pc + 1) & 0xFFFF;
-                const highByte = this.read8((this.pbr << 16) | this.pc);
-                this.pc = (this.pc + 1) & 0xFFFF;
-                value = (highByte << 8) | lowByte;
-                const operand = value ^ 0xFFFF; // Invert for subtraction via addition
-                const temp = this.a + operand + carryIn;
-                this.v = (((this.a ^ temp) & (operand ^ temp)) & 0x8000) !== 0;
-                this.c = temp > 0xFFFF;
-                this.a = temp & 0xFFFF;
-                this.setZN(this.a);
-                cycles = 3; // 16-bit takes longer
-                console.debug(`[DEBUG] SBC Immediate (16-bit): A=0x${this.a.toString(16)}, Val=0x${value.toString(16)}, Cin=${carryIn}`);
+            const digits = wide ? 4 : 2;
+            let carry = this.c ? 1 : 0;
+            result = 0;
+            for (let digit = 0; digit < digits; digit++) {
+                const shift = digit * 4;
+                const digitMask = 0xF << shift;
+                const lowerMask = (1 << shift) - 1;
+                result = (a & digitMask) + (data & digitMask) + (carry << shift) + (result & lowerMask);
+                if (digit === digits - 1) {
+                    this.v = (~(a ^ data) & (a ^ result) & sign) !== 0;
+                }
+                if (subtract) {
+                    if (result <= ((0x10 << shift) - 1)) result -= 0x6 << shift;
+                } else if (result > ((0xA << shift) - 1)) {
+                    result += 0x6 << shift;
+                }
+                carry = result > ((0x10 << shift) - 1) ? 1 : 0;
             }
-        }
-        return cycles;
-    }
-
-    private handleSTZ_ZeroPage(): number {
-        const zeroPageAddr = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const effectiveAddress = (this.d + zeroPageAddr) & 0xFFFF;
-
-        let cycles = 3; // Base cycles
-        if (this.m) { // 8-bit mode (treat as 8-bit write? check docs) -> Yes, STZ size follows M flag
-            this.write8(effectiveAddress, 0x00);
-            console.debug(`[DEBUG] STZ Zero Page (8-bit): Stored 0x00 at 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr}, D: ${this.d})`);
-        } else { // 16-bit mode
-            this.write16(effectiveAddress, 0x0000);
-            cycles = 4; // 16-bit takes longer
-            console.debug(`[DEBUG] STZ Zero Page (16-bit): Stored 0x0000 at 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr}, D: ${this.d})`);
+            this.c = carry === 1;
         }
 
-        // Add cycle penalty if D low byte is non-zero
-        if ((this.d & 0xFF) !== 0) {
-            cycles++;
-        }
-        return cycles;
+        this.setA(result & mask);
+        this.setNZ(result, wide);
     }
 
-    // --- START REGENERATED HANDLERS ---
-
-    private handleORA_ZeroPage(): number {
-        const zeroPageAddr = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const effectiveAddress = (this.d + zeroPageAddr) & 0xFFFF;
-        let value: number;
-        let cycles = 3;
-        if (this.m) {
-            value = this.read8(effectiveAddress);
-            this.a = (this.a & 0xFF00) | ((this.a | value) & 0xFF);
-            this.setZN(this.a & 0xFF);
-            console.debug(`[DEBUG] ORA Zero Page (8-bit): A = 0x${(this.a & 0xFF).toString(16)} |= 0x${value.toString(16)} from 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr.toString(16)}, D: ${this.d.toString(16)})`);
-        } else {
-            value = this.read16(effectiveAddress);
-            this.a = (this.a | value) & 0xFFFF;
-            this.setZN(this.a);
-            cycles = 4;
-            console.debug(`[DEBUG] ORA Zero Page (16-bit): A = 0x${this.a.toString(16)} |= 0x${value.toString(16)} from 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr.toString(16)}, D: ${this.d.toString(16)})`);
-        }
-        if ((this.d & 0xFF) !== 0) cycles++;
-        return cycles;
+    private compare(register: number, address: number, wide: boolean): void {
+        const mask = wide ? 0xFFFF : 0xFF;
+        const result = (register & mask) - this.readOperand(address, wide);
+        this.c = result >= 0;
+        this.setNZ(result, wide);
     }
 
-    private handleLDX_Immediate(): number {
-        let value: number;
-        let cycles = 2;
-        if (this.x_b) {
-            value = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            this.x = value;
-            console.debug(`[DEBUG] LDX Immediate (8-bit): 0x${value.toString(16)} loaded`);
-        } else {
-            const lowByte = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            const highByte = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            value = (highByte << 8) | lowByte;
-            this.x = value;
-            cycles = 3;
-            console.debug(`[DEBUG] LDX Immediate (16-bit): 0x${value.toString(16)} loaded`);
+    // BIT #imm only touches Z; the memory forms copy the top two bits into N and V
+    private bit(address: number, immediate: boolean): void {
+        const wide = !this.m;
+        const value = this.readOperand(address, wide);
+        this.z = (this.getA() & value) === 0;
+        if (!immediate) {
+            this.n = (value & (wide ? 0x8000 : 0x80)) !== 0;
+            this.v = (value & (wide ? 0x4000 : 0x40)) !== 0;
         }
-        this.setZN(this.x);
-        return cycles;
     }
 
-    private handleTXS(): number {
-        if (this.emulationMode) {
-            this.sp = 0x0100 | (this.x & 0xFF);
-        } else {
-            this.sp = this.x;
-        }
-        console.debug(`[DEBUG] TXS executed. SP = 0x${this.sp.toString(16)}`);
-        return 2;
+    // Read-modify-write on memory; 16-bit accumulators pay for both extra bytes
+    private modify(address: number, operation: (value: number) => number): void {
+        const wide = !this.m;
+        const value = this.readOperand(address, wide);
+        this.writeOperand(address, operation(value), wide);
     }
 
-    private handleJSR_Absolute(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        // Don't increment PC again; target address bytes read
-        const targetAddress = (highByte << 8) | lowByte;
-        const returnAddress = (this.pc) & 0xFFFF; // PC points *after* the JSR operand
-        this.push16(returnAddress -1); // Push address of the *last* byte of the JSR instruction
-        console.debug(`[DEBUG] JSR Absolute: Jumping to 0x${this.pbr.toString(16)}${targetAddress.toString(16).padStart(4, '0')}, pushed return address 0x${(returnAddress - 1).toString(16).padStart(4, '0')}`);
-        this.pc = targetAddress;
-        return 6;
-    }
-
-     private handleASL_ZeroPage(): number {
-        const zeroPageAddr = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const effectiveAddress = (this.d + zeroPageAddr) & 0xFFFF; // Respect D register
-        let value = this.read8(effectiveAddress);
-        this.c = (value & 0x80) !== 0;
-        value = (value << 1) & 0xFF;
-        this.write8(effectiveAddress, value);
-        this.setZN(value & 0xFF); // ASL is 8-bit only on memory
-        console.debug(`[DEBUG] ASL Zero Page: Addr=0x${effectiveAddress.toString(16)}, NewVal=0x${value.toString(16)}`);
-        let baseCycles = 5;
-        if ((this.d & 0xFF) !== 0) baseCycles++; // Add cycle if D low byte is non-zero
-        return baseCycles;
-    }
-
-    private handleDEC_A(): number {
-        if (this.m) {
-            this.a = (this.a - 1) & 0xFF;
-            this.setZN(this.a & 0xFF);
-        } else {
-            this.a = (this.a - 1) & 0xFFFF;
-            this.setZN(this.a);
-        }
-        console.debug(`[DEBUG] DEC A executed. A = 0x${this.a.toString(16)}`);
-        return 2;
-    }
-
-    private handleINC_A(): number {
-        if (this.m) {
-            this.a = (this.a + 1) & 0xFF;
-            this.setZN(this.a & 0xFF);
-        } else {
-            this.a = (this.a + 1) & 0xFFFF;
-            this.setZN(this.a);
-        }
-        console.debug(`[DEBUG] INC A executed. A = 0x${this.a.toString(16)}`);
-        return 2;
+    private shiftLeft(value: number, rotate: boolean): number {
+        const wide = !this.m;
+        const mask = wide ? 0xFFFF : 0xFF;
+        const result = ((value << 1) | (rotate && this.c ? 1 : 0)) & mask;
+        this.c = (value & (wide ? 0x8000 : 0x80)) !== 0;
+        this.setNZ(result, wide);
+        return result;
     }
 
-    private handleINY(): number {
-        if (this.x_b) {
-            this.y = (this.y + 1) & 0xFF;
-            this.setZN(this.y & 0xFF);
-        } else {
-            this.y = (this.y + 1) & 0xFFFF;
-            this.setZN(this.y);
-        }
-        console.debug(`[DEBUG] INY executed. Y = 0x${this.y.toString(16)}`);
-        return 2;
+    private shiftRight(value: number, rotate: boolean): number {
+        const wide = !this.m;
+        const carryIn = rotate && this.c ? (wide ? 0x8000 : 0x80) : 0;
+        const result = (value >> 1) | carryIn;
+        this.c = (value & 1) !== 0;
+        this.setNZ(result, wide);
+        return result;
     }
 
-    private handleDEX(): number {
-        if (this.x_b) { // 8-bit mode
-            this.x = (this.x - 1) & 0xFF;
-            this.setZN(this.x & 0xFF);
-        } else { // 16-bit mode
-            this.x = (this.x - 1) & 0xFFFF;
-            this.setZN(this.x);
-        }
-        console.debug(`[DEBUG] DEX executed. X = 0x${this.x.toString(16)}`);
-        return 2; // 2 cycles
+    private increment(value: number, delta: number, wide: boolean): number {
+        const result = (value + delta) & (wide ? 0xFFFF : 0xFF);
+        this.setNZ(result, wide);
+        return result;
     }
 
-    private handleTCD(): number {
-        this.d = this.a;
-        this.setZN(this.d);
-        console.debug(`[DEBUG] TCD executed. D = 0x${this.d.toString(16)}`);
-        return 2;
+    private testAndSet(value: number): number {
+        const a = this.getA();
+        this.z = (a & value) === 0;
+        return value | a;
     }
 
-    private handleRTS(): number {
-        const returnAddress = this.pop16();
-        this.pc = (returnAddress + 1) & 0xFFFF;
-        console.debug(`[DEBUG] RTS: Returning to 0x${this.pbr.toString(16)}${this.pc.toString(16).padStart(4, '0')}`);
-        return 6;
+    private testAndReset(value: number): number {
+        const a = this.getA();
+        this.z = (a & value) === 0;
+        return value & ~a & (this.m ? 0xFF : 0xFFFF);
     }
 
-    // --- END REGENERATED HANDLERS ---
+    private branch(condition: boolean): void {
+        const offset = (this.fetch8() << 24) >> 24; // Sign-extend
+        if (!condition) return;
 
-    // --- Restoring handleSTX_Absolute ---
-    private handleSTX_Absolute(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const address = (highByte << 8) | lowByte;
-        const effectiveAddress = (this.dbr << 16) | address;
-
-        if (this.x_b) { // 8-bit mode
-            this.write8(effectiveAddress, this.x & 0xFF);
-            console.debug(`[DEBUG] STX Absolute (8-bit): Stored 0x${(this.x & 0xFF).toString(16)} at 0x${effectiveAddress.toString(16)}`);
-        } else { // 16-bit mode
-            this.write16(effectiveAddress, this.x);
-            console.debug(`[DEBUG] STX Absolute (16-bit): Stored 0x${this.x.toString(16)} at 0x${effectiveAddress.toString(16)}`);
+        const target = (this.pc + offset) & 0xFFFF;
+        this.instructionCycles++;
+        if (this.emulationMode && (target & 0xFF00) !== (this.pc & 0xFF00)) {
+            this.instructionCycles++;
         }
-
-        return 4; // 4 cycles
+        this.pc = target;
     }
-    // --- End Restoring handleSTX_Absolute ---
 
-    // --- Restoring handleADC_ZeroPageX ---
-    private handleADC_ZeroPageX(): number {
-        const zeroPageBase = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const effectiveAddress = (this.d + zeroPageBase + (this.x & (this.x_b ? 0xFF : 0xFFFF))) & 0xFFFF;
-        let value: number;
-        let cycles = 4;
-        const carryIn = this.c ? 1 : 0;
-
-        if (this.d_flag && this.emulationMode) {
-             value = this.read8(effectiveAddress);
-             let al = (this.a & 0x0F) + (value & 0x0F) + carryIn;
-             if (al > 9) al += 6;
-             let ah = (this.a & 0xF0) + (value & 0xF0);
-             if (al > 0x0F) ah += 0x10;
-             this.z = ((this.a + value + carryIn) & 0xFF) === 0;
-             this.n = (ah & 0x80) !== 0;
-             this.v = false;
-             if (ah > 0x90) ah += 0x60;
-             this.c = ah > 0xF0;
-             this.a = (this.a & 0xFF00) | ((ah & 0xF0) | (al & 0x0F));
-             console.warn(`[WARN] ADC Zero Page, X (Decimal Mode - Emulation): A = ${this.a.toString(16)}, Value = ${value.toString(16)}, CarryIn = ${carryIn}`);
-             cycles = 5;
-        } else {
-            if (this.m) {
-                value = this.read8(effectiveAddress);
-                const temp = (this.a & 0xFF) + value + carryIn;
-                this.v = (~((this.a & 0xFF) ^ value) & ((this.a & 0xFF) ^ temp) & 0x80) !== 0;
-                this.c = temp > 0xFF;
-                this.a = (this.a & 0xFF00) | (temp & 0xFF);
-                this.setZN(this.a & 0xFF);
-                console.debug(`[DEBUG] ADC Zero Page, X (8-bit): A=0x${(this.a & 0xFF).toString(16)}, Val=0x${value.toString(16)}, EffAddr=0x${effectiveAddress.toString(16)} (ZP: ${zeroPageBase}, X: ${this.x}), Cin=${carryIn}`);
-            } else {
-                value = this.read16(effectiveAddress);
-                const temp = this.a + value + carryIn;
-                this.v = (~(this.a ^ value) & (this.a ^ temp) & 0x8000) !== 0;
-                this.c = temp > 0xFFFF;
-                this.a = temp & 0xFFFF;
-                this.setZN(this.a);
-                cycles = 5;
-                console.debug(`[DEBUG] ADC Zero Page, X (16-bit): A=0x${this.a.toString(16)}, Val=0x${value.toString(16)}, EffAddr=0x${effectiveAddress.toString(16)} (ZP: ${zeroPageBase}, X: ${this.x}), Cin=${carryIn}`);
-            }
-        }
-        if ((this.d & 0xFF) !== 0) cycles++;
-        return cycles;
-    }
-    // --- End Restoring handleADC_ZeroPageX ---
-
-    private handleLDY_Immediate(): number {
-        let value: number;
-        let cycles = 2;
-        if (this.x_b) { // 8-bit mode (Y follows X flag)
-            value = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            this.y = value;
-            console.debug(`[DEBUG] LDY Immediate (8-bit): 0x${value.toString(16)} loaded`);
-        } else { // 16-bit mode
-            const lowByte = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            const highByte = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            value = (highByte << 8) | lowByte;
-            this.y = value;
-            cycles = 3; // 16-bit immediate takes an extra cycle
-            console.debug(`[DEBUG] LDY Immediate (16-bit): 0x${value.toString(16)} loaded`);
-        }
-        this.setZN(this.y); // Set N/Z based on Y (respecting x_b flag)
-        return cycles;
-    }
+    // MVN/MVP move one byte per step and rewind PC until A underflows,
+    // so interrupts can be serviced between bytes.
+    private blockMove(step: number): void {
+        const destinationBank = this.fetch8();
+        const sourceBank = this.fetch8();
+        const indexMask = this.x_b ? 0xFF : 0xFFFF;
 
-    private handleRTL(): number {
-        const returnPC = this.pop16();
-        const returnPBR = this.pop8();
-        this.pbr = returnPBR;
-        this.pc = (returnPC + 1) & 0xFFFF; // PC should be address *after* the JSL operand
-        console.debug(`[DEBUG] RTL: Returning to 0x${this.pbr.toString(16)}${this.pc.toString(16).padStart(4, '0')}`);
-        return 6; // 6 cycles
-    }
+        this.dbr = destinationBank;
+        this.write8((destinationBank << 16) | this.y, this.read8((sourceBank << 16) | this.x));
+        this.x = (this.x + step) & indexMask;
+        this.y = (this.y + step) & indexMask;
+        this.a = (this.a - 1) & 0xFFFF;
 
-    private handleDEC_ZeroPage(): number {
-        const zeroPageAddr = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const effectiveAddress = (this.d + zeroPageAddr) & 0xFFFF;
-
-        let cycles = 5; // Base cycles for RMW
-        let value: number;
-        if (this.m) { // 8-bit mode (treat memory as 8-bit)
-            value = this.read8(effectiveAddress);
-            value = (value - 1) & 0xFF;
-            this.write8(effectiveAddress, value);
-            this.setZN(value & 0xFF);
-            console.debug(`[DEBUG] DEC Zero Page (8-bit): Addr=0x${effectiveAddress.toString(16)}, NewVal=0x${value.toString(16)}`);
-        } else { // 16-bit mode (treat memory as 16-bit)
-            value = this.read16(effectiveAddress);
-            value = (value - 1) & 0xFFFF;
-            this.write16(effectiveAddress, value);
-            this.setZN(value);
-            cycles = 7; // 16-bit RMW takes longer
-            console.debug(`[DEBUG] DEC Zero Page (16-bit): Addr=0x${effectiveAddress.toString(16)}, NewVal=0x${value.toString(16)}`);
+        if (this.a !== 0xFFFF) {
+            this.pc = (this.pc - 3) & 0xFFFF;
         }
-
-        // Add cycle penalty if D low byte is non-zero
-        if ((this.d & 0xFF) !== 0) {
-            cycles++;
-        }
-        return cycles;
-    }
-
-    private handleAND_Immediate(): number {
-        let value: number;
-        let cycles = 2; // Base cycles
-        let regValue = this.a;
-
-        if (this.m) { // 8-bit mode
-            value = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            regValue &= 0xFF;
-            this.a = (this.a & 0xFF00) | (regValue & value);
-            this.setZN(this.a & 0xFF);
-            console.debug(`[DEBUG] AND Immediate (8-bit): A = 0x${(this.a & 0xFF).toString(16)} &= #0x${value.toString(16)}`);
-        } else { // 16-bit mode
-            const lowByte = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            const highByte = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            value = (highByte << 8) | lowByte;
-            this.a &= value;
-            this.setZN(this.a);
-            cycles = 3; // 16-bit immediate takes longer
-            console.debug(`[DEBUG] AND Immediate (16-bit): A = 0x${this.a.toString(16)} &= #0x${value.toString(16)}`);
-        }
-
-        return cycles;
     }
 
-    private handleROL_ZeroPage(): number {
-        const zeroPageAddr = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const effectiveAddress = (this.d + zeroPageAddr) & 0xFFFF;
-
-        let cycles = 5; // Base cycles for RMW
-        let value = this.read8(effectiveAddress); // ROL on memory is always 8-bit
-        const oldCarry = this.c ? 1 : 0;
-        this.c = (value & 0x80) !== 0; // Bit 7 goes to Carry
-        value = ((value << 1) | oldCarry) & 0xFF;
-        this.write8(effectiveAddress, value);
-        this.setZN(value & 0xFF);
-        console.debug(`[DEBUG] ROL Zero Page: Addr=0x${effectiveAddress.toString(16)}, NewVal=0x${value.toString(16)}, Carry=${this.c}`);
-
-        // Add cycle penalty if D low byte is non-zero
-        if ((this.d & 0xFF) !== 0) {
-            cycles++;
-        }
-        return cycles;
-    }
-
-    private handleORA_DirectPageIndirectLong(): number {
-        const dpOffset = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-
-        // Calculate pointer address in direct page (Bank 0)
-        const pointerAddress = (this.d + dpOffset) & 0xFFFF;
-
-        // Read the 16-bit indirect address and 8-bit bank from Bank 0
-        const indirectAddrLow = this.read8(pointerAddress);
-        const indirectAddrHigh = this.read8((pointerAddress + 1) & 0xFFFF); // Handle wrap
-        const bankByte = this.read8((pointerAddress + 2) & 0xFFFF); // Handle wrap
-
-        const indirectAddress = (indirectAddrHigh << 8) | indirectAddrLow;
-        const effectiveAddress = (bankByte << 16) | indirectAddress;
-
-        let value: number;
-        let cycles = 6; // Base cycles for [dp]
-        if (this.m) { // 8-bit mode
-            value = this.read8(effectiveAddress);
-            this.a = (this.a & 0xFF00) | ((this.a | value) & 0xFF);
-            this.setZN(this.a & 0xFF);
-            console.debug(`[DEBUG] ORA [dp] (8-bit): A=0x${(this.a & 0xFF).toString(16)} |= 0x${value.toString(16)} from [0x${pointerAddress.toString(16)}] = 0x${effectiveAddress.toString(16)}`);
-        } else { // 16-bit mode
-            value = this.read16(effectiveAddress);
-            this.a = (this.a | value) & 0xFFFF;
-            this.setZN(this.a);
-            cycles = 7; // 16-bit takes longer
-            console.debug(`[DEBUG] ORA [dp] (16-bit): A=0x${this.a.toString(16)} |= 0x${value.toString(16)} from [0x${pointerAddress.toString(16)}] = 0x${effectiveAddress.toString(16)}`);
-        }
-
-        // Add cycle penalty if D low byte is non-zero
-        if ((this.d & 0xFF) !== 0) {
-            cycles++;
-        }
-        return cycles;
-    }
-
-    // --- Interrupt Handling ---
-    public triggerNMI(): void {
-        // Non-Maskable Interrupt
-        // Reference: https://wiki.superfamicom.org/65816-interrupts#interrupt-vectors-and-priorities
+    // Shared entry sequence for BRK, COP, NMI and IRQ
+    private interrupt(nativeVector: number, emulationVector: number, isBreak: boolean): void {
         if (this.emulationMode) {
             this.push16(this.pc);
-            this.push8(this.getStatusFlags());
-            this.i = true; // Disable further IRQs
-            this.pc = this.read16(0xFFFA); // NMI Vector (Emulation Mode)
+            this.push8(this.getStatusFlags(isBreak ? 1 : 0));
         } else {
-            this.push8(this.pbr); // Push PBR
-            this.push16(this.pc); // Push PC
-            this.push8(this.getStatusFlags()); // Push Status
-            this.i = true; // Disable further IRQs
-            this.d_flag = false; // Clear decimal flag
-            this.pbr = 0x00; // Set PBR to bank 0
-            this.pc = this.read16(0xFFEA); // NMI Vector (Native Mode)
+            this.push8(this.pbr);
+            this.push16(this.pc);
+            this.push8(this.getP());
+            this.instructionCycles++;
         }
-        this.cycles += 7; // NMI takes 7 cycles (native) or 8 (emulation, +1 for PBR? Check docs)
+        this.i = true;
+        this.d_flag = false;
+        this.pbr = 0;
+        this.pc = this.read16(this.emulationMode ? emulationVector : nativeVector);
     }
 
-    public triggerIRQ(): void {
-        this.irqPending = true;
+    // Push state and jump through an NMI or IRQ vector
+    private serviceInterrupt(nativeVector: number, emulationVector: number): number {
+        this.instructionCycles = 7;
+        this.interrupt(nativeVector, emulationVector, false);
+        return this.finishInstruction();
     }
 
-    private handleTYA(): number {
-        if (this.m) { // 8-bit accumulator
-            this.a = (this.a & 0xFF00) | (this.y & 0xFF);
-            this.setZN(this.a & 0xFF);
-        } else { // 16-bit accumulator
-            this.a = this.y;
-            this.setZN(this.a);
-        }
-        console.debug(`[DEBUG] TYA executed. A = 0x${this.a.toString(16)}`);
-        return 2;
-    }
+    // --- Interrupt Handling ---
+    // Reference: https://wiki.superfamicom.org/65816-interrupts#interrupt-vectors-and-priorities
 
-    private handleJMP_AbsoluteIndexedIndirectX(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        
-        // Base address
-        const baseAddr = (highByte << 8) | lowByte;
-        
-        // Add X register (always 16-bit for addressing)
-        const indexedAddr = (baseAddr + (this.x & (this.x_b ? 0xFF : 0xFFFF))) & 0xFFFF;
-        
-        // Indirect read from the calculated address
-        const targetLow = this.read8((this.pbr << 16) | indexedAddr);
-        const targetHigh = this.read8((this.pbr << 16) | ((indexedAddr + 1) & 0xFFFF));
-        
-        const targetAddr = (targetHigh << 8) | targetLow;
-        
-        console.debug(`[DEBUG] JMP (Absolute,X): From PC=${this.pc.toString(16)}, Base=${baseAddr.toString(16)}, X=${this.x.toString(16)}, Final=${targetAddr.toString(16)}`);
-        
-        this.pc = targetAddr;
-        return 6; // 6 cycles
-    }
-
-    private handleADC_ZeroPage(): number {
-        const zeroPageAddr = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        
-        // Effective address uses D register + zero page offset
-        const effectiveAddress = (this.d + zeroPageAddr) & 0xFFFF;
-        
-        let value: number;
-        let cycles = 3; // Base cycles
-        const carryIn = this.c ? 1 : 0;
-        
-        if (this.d_flag && this.emulationMode) {
-            // --- Decimal Mode ADC (Only in emulation mode) ---
-            value = this.read8(effectiveAddress);
-            
-            // Perform decimal addition
-            let al = (this.a & 0x0F) + (value & 0x0F) + carryIn;
-            if (al > 9) al += 6;
-            let ah = ((this.a >> 4) & 0x0F) + ((value >> 4) & 0x0F);
-            if (al > 0x0F) ah++;
-            
-            // Set flags
-            this.z = ((this.a + value + carryIn) & 0xFF) === 0;
-            this.n = (ah & 0x08) !== 0;
-            this.v = (ah > 9);  // Simplified overflow detection
-            
-            if (ah > 9) ah += 6;
-            this.c = (ah > 0x0F);
-            
-            // Combine result
-            this.a = (this.a & 0xFF00) | ((ah << 4) | (al & 0x0F));
-            console.debug(`[DEBUG] ADC Zero Page (Decimal Mode): A=0x${(this.a & 0xFF).toString(16)}, Val=0x${value.toString(16)}, EffAddr=0x${effectiveAddress.toString(16)}, Cin=${carryIn}`);
-        } else {
-            if (this.m) { // 8-bit mode
-                value = this.read8(effectiveAddress);
-                const temp = (this.a & 0xFF) + value + carryIn;
-                this.v = (~((this.a & 0xFF) ^ value) & ((this.a & 0xFF) ^ temp) & 0x80) !== 0;
-                this.c = temp > 0xFF;
-                this.a = (this.a & 0xFF00) | (temp & 0xFF);
-                this.setZN(this.a & 0xFF);
-                console.debug(`[DEBUG] ADC Zero Page (8-bit): A=0x${(this.a & 0xFF).toString(16)}, Val=0x${value.toString(16)}, EffAddr=0x${effectiveAddress.toString(16)}, Cin=${carryIn}`);
-            } else { // 16-bit mode
-                value = this.read16(effectiveAddress);
-                const temp = this.a + value + carryIn;
-                this.v = (~(this.a ^ value) & (this.a ^ temp) & 0x8000) !== 0;
-                this.c = temp > 0xFFFF;
-                this.a = temp & 0xFFFF;
-                this.setZN(this.a);
-                cycles = 4; // 16-bit takes longer
-                console.debug(`[DEBUG] ADC Zero Page (16-bit): A=0x${this.a.toString(16)}, Val=0x${value.toString(16)}, EffAddr=0x${effectiveAddress.toString(16)}, Cin=${carryIn}`);
-            }
-        }
-        
-        // Add cycle penalty if D low byte is non-zero
-        if ((this.d & 0xFF) !== 0) {
-            cycles++;
-        }
-        
-        return cycles;
-    }
-
-    private handleADC_Immediate(): number {
-        let value: number;
-        let cycles = 2; // Base cycles
-        const carryIn = this.c ? 1 : 0;
-
-        if (this.d_flag && this.emulationMode) {
-            // --- Decimal Mode ADC ---
-            value = this.read8((this.pbr << 16) | this.pc);
-            this.pc = (this.pc + 1) & 0xFFFF;
-            
-            // Perform decimal addition
-            let al = (this.a & 0x0F) + (value & 0x0F) + carryIn;
-            if (al > 9) al += 6;
-            let ah = ((this.a >> 4) & 0x0F) + ((value >> 4) & 0x0F);
-            if (al > 0x0F) ah++;
-            
-            // Set flags
-            this.z = ((this.a + value + carryIn) & 0xFF) === 0;
-            this.n = (ah & 0x08) !== 0;
-            this.v = (ah > 9);  // Simplified overflow detection
-            
-            if (ah > 9) ah += 6;
-            this.c = (ah > 0x0F);
-            
-            // Combine result
-            this.a = (this.a & 0xFF00) | ((ah << 4) | (al & 0x0F));
-            console.debug(`[DEBUG] ADC Immediate (Decimal Mode): A=0x${(this.a & 0xFF).toString(16)}, Val=0x${value.toString(16)}, Cin=${carryIn}`);
-            cycles = 3;
-        } else {
-            // --- Binary Mode ADC ---
-            if (this.m) { // 8-bit mode
-                value = this.read8((this.pbr << 16) | this.pc);
-                this.pc = (this.pc + 1) & 0xFFFF;
-                const temp = (this.a & 0xFF) + value + carryIn;
-                this.v = (~((this.a & 0xFF) ^ value) & ((this.a & 0xFF) ^ temp) & 0x80) !== 0;
-                this.c = temp > 0xFF;
-                this.a = (this.a & 0xFF00) | (temp & 0xFF);
-                this.setZN(this.a & 0xFF);
-                console.debug(`[DEBUG] ADC Immediate (8-bit): A=0x${(this.a & 0xFF).toString(16)}, Val=0x${value.toString(16)}, Cin=${carryIn}`);
-            } else { // 16-bit mode
-                const lowByte = this.read8((this.pbr << 16) | this.pc);
-                this.pc = (this.pc + 1) & 0xFFFF;
-                const highByte = this.read8((this.pbr << 16) | this.pc);
-                this.pc = (this.pc + 1) & 0xFFFF;
-                value = (highByte << 8) | lowByte;
-                const temp = this.a + value + carryIn;
-                this.v = (~(this.a ^ value) & (this.a ^ temp) & 0x8000) !== 0;
-                this.c = temp > 0xFFFF;
-                this.a = temp & 0xFFFF;
-                this.setZN(this.a);
-                cycles = 3; // 16-bit takes longer
-                console.debug(`[DEBUG] ADC Immediate (16-bit): A=0x${this.a.toString(16)}, Val=0x${value.toString(16)}, Cin=${carryIn}`);
-            }
-        }
-        return cycles;
+    // NMI is edge-triggered: it latches here and is taken before the next instruction
+    public triggerNMI(): void {
+        this.nmiPending = true;
     }
 
-    private handlePLY(): number {
-        if (this.x_b) { // 8-bit index registers
-            this.y = this.pop8();
-            this.setZN(this.y & 0xFF);
-        } else { // 16-bit index registers
-            this.y = this.pop16();
-            this.setZN(this.y);
-        }
-        console.debug(`[DEBUG] PLY executed. Y = 0x${this.y.toString(16)}`);
-        return 4; // 4 cycles
+    // IRQ is level-triggered: it is taken before every instruction while the
+    // line is asserted and the I flag is clear, until the source releases it
+    public setIRQLine(asserted: boolean): void {
+        this.irqLine = asserted;
     }
 
-    private handleTAX(): number {
-        this.x = this.a;
-        this.setZN(this.x);
-        console.debug(`[DEBUG] TAX executed. X = 0x${this.x.toString(16)}`);
-        return 2;
+    // Control methods
+    start(): void {
+        this.isRunning = true;
+        this.halted = false; // Clear halted on start
     }
 
-    private handleTAY(): number {
-        this.y = this.a;
-        this.setZN(this.y);
-        console.debug(`[DEBUG] TAY executed. Y = 0x${this.y.toString(16)}`);
-        return 2;
+    stop(): void {
+        this.isRunning = false;
+        this.halted = true; // Set halted on stop
     }
 
-    private handleASL_A(): number {
-        this.a <<= 1;
-        this.setZN(this.a);
-        this.c = (this.a & 0x80) !== 0;
-        console.debug(`[DEBUG] ASL A executed. A = 0x${this.a.toString(16)}`);
-        return 2;
+    // Debug methods
+    getState(): object {
+        return {
+            a: this.a,
+            x: this.x,
+            y: this.y,
+            sp: this.sp,
+            pc: this.pc,
+            pbr: this.pbr,
+            dbr: this.dbr,
+            d: this.d,
+            p: this.getP(),
+            emulationMode: this.emulationMode,
+            cycles: this.cycles
+        };
     }
 
-    private handleBCS_Relative(): number {
-        let offset = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-
-        let cycles = 2; // Base cycles if branch not taken
-        if (this.c) { // Branch if Carry flag is set
-            cycles = 3; // Branch taken adds 1 cycle
-            const oldPC = this.pc;
-            // Sign extend 8-bit offset
-            if (offset & 0x80) {
-                offset |= 0xFFFFFF00;
-            }
-            this.pc = (this.pc + offset) & 0xFFFF;
-            console.debug(`[DEBUG] BCS: Branching by ${offset} from 0x${oldPC.toString(16)} to 0x${this.pc.toString(16)}`);
+    private getStatusFlags(breakFlagValue: number = 0): number {
+        let flags = this.getP();
 
-            // Add 1 cycle if page boundary is crossed (Native mode only)
-            if (!this.emulationMode && (oldPC & 0xFF00) !== (this.pc & 0xFF00)) {
-                cycles++;
+        // Handle B flag (bit 4) based on context (BRK/IRQ/NMI)
+        // Emulation mode B flag handling differs!
+        if (this.emulationMode) {
+            // In emulation mode, B flag (bit 4) is always set when pushed by BRK or PHP.
+            // It's clear when pushed by IRQ/NMI.
+            // breakFlagValue = 1 for BRK/PHP, 0 for IRQ/NMI
+            if (breakFlagValue === 1) {
+                flags |= 0x10; // Set B flag
+            } else {
+                flags &= ~0x10; // Clear B flag
             }
-        } else {
-             console.debug(`[DEBUG] BCS: Branch not taken (C flag clear)`);
-        }
-
-        return cycles;
-    }
-
-    private handleCMP_ZeroPage(): number {
-        const zeroPageAddr = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const effectiveAddress = (this.d + zeroPageAddr) & 0xFFFF;
-        const value = this.read8(effectiveAddress);
-        
-        let regValue = this.a;
-        if (this.m) { // 8-bit mode
-            regValue &= 0xFF;
-        }
-        
-        const result = regValue - value;
-        this.c = result >= 0; // Set carry if A/M >= M (no borrow)
-        this.setZN(result & (this.m ? 0xFF : 0xFFFF)); // Set N/Z based on result (masked)
-
-        console.debug(`[DEBUG] CMP Zero Page: Compared 0x${regValue.toString(16)} with 0x${value.toString(16)} from 0x${effectiveAddress.toString(16)}`);
-        return 3; // 3 cycles (base)
-    }
-
-    private handleSTY_ZeroPage(): number {
-        const zeroPageAddr = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const effectiveAddress = (this.d + zeroPageAddr) & 0xFFFF;
-
-        let cycles = 3; // Base cycles
-        if (this.m) { // 8-bit mode (treat as 8-bit write? check docs) -> Yes, STZ size follows M flag
-            this.write8(effectiveAddress, this.y & 0xFF);
-            console.debug(`[DEBUG] STY Zero Page (8-bit): Stored 0x${(this.y & 0xFF).toString(16)} at 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr}, D: ${this.d})`);
-        } else { // 16-bit mode
-            this.write16(effectiveAddress, this.y);
-            cycles = 4; // 16-bit takes longer
-            console.debug(`[DEBUG] STY Zero Page (16-bit): Stored 0x${this.y.toString(16)} at 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr}, D: ${this.d})`);
-        }
-
-        // Add cycle penalty if D low byte is non-zero
-        if ((this.d & 0xFF) !== 0) {
-            cycles++;
-        }
-        return cycles;
-    }
-
-    private handlePHP(): number {
-        this.push8(this.getP());
-        console.debug(`[DEBUG] PHP executed. P = 0x${this.getP().toString(16)}`);
-        return 3;
-    }
-
-    private handlePEA(): number {
-        // Read the immediate 16-bit address
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const address = (highByte << 8) | lowByte;
-        
-        // Push it onto the stack
-        this.push16(address);
-        
-        console.debug(`[DEBUG] PEA executed. Pushed value: 0x${address.toString(16)}`);
-        return 5; // 5 cycles
-    }
-
-    private handleTDC(): number {
-        if (this.m) { // 8-bit accumulator
-            this.a = (this.a & 0xFF00) | (this.d & 0xFF);
-            this.setZN(this.a & 0xFF);
-        } else { // 16-bit accumulator
-            this.a = this.d;
-            this.setZN(this.a);
-        }
-        console.debug(`[DEBUG] TDC executed. A = 0x${this.a.toString(16)}, D = 0x${this.d.toString(16)}`);
-        return 2; // 2 cycles
-    }
-
-    private handleXBA(): number {
-        const lowByte = this.a & 0xFF;
-        const highByte = (this.a >> 8) & 0xFF;
-        
-        this.a = (lowByte << 8) | highByte;
-        
-        // XBA always sets flags based on the low byte of the result
-        this.setZN(this.a & 0xFF);
-        
-        console.debug(`[DEBUG] XBA executed. A = 0x${this.a.toString(16)}`);
-        return 3; // 3 cycles
-    }
-
-    private handleLDA_DirectPageIndirectLongIndexedY(): number {
-        const dpOffset = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        
-        // Calculate pointer address in direct page
-        const pointerAddress = (this.d + dpOffset) & 0xFFFF;
-        
-        // Read 24-bit address from pointer
-        const indirectAddrLow = this.read8(pointerAddress);
-        const indirectAddrHigh = this.read8((pointerAddress + 1) & 0xFFFF); // Handle wrap
-        const bankByte = this.read8((pointerAddress + 2) & 0xFFFF); // Handle wrap
-        
-        // Calculate effective address with Y index
-        let effectiveAddress = (bankByte << 16) | (indirectAddrHigh << 8) | indirectAddrLow;
-        effectiveAddress = (effectiveAddress + (this.y & (this.x_b ? 0xFF : 0xFFFF))) & 0xFFFFFF;
-        
-        let value: number;
-        let cycles = 6; // Base cycles
-        
-        if (this.m) { // 8-bit mode
-            value = this.read8(effectiveAddress);
-            this.a = (this.a & 0xFF00) | value;
-            this.setZN(this.a & 0xFF);
-            console.debug(`[DEBUG] LDA [dp],Y (8-bit): A = 0x${(this.a & 0xFF).toString(16)} from [0x${pointerAddress.toString(16)}]+Y=0x${this.y.toString(16)} -> 0x${effectiveAddress.toString(16)}`);
-        } else { // 16-bit mode
-            value = this.read16(effectiveAddress);
-            this.a = value;
-            this.setZN(this.a);
-            cycles = 7; // 16-bit takes longer
-            console.debug(`[DEBUG] LDA [dp],Y (16-bit): A = 0x${this.a.toString(16)} from [0x${pointerAddress.toString(16)}]+Y=0x${this.y.toString(16)} -> 0x${effectiveAddress.toString(16)}`);
-        }
-        
-        // Add cycle penalty if D register low byte is non-zero
-        if ((this.d & 0xFF) !== 0) {
-            cycles++;
-        }
-        
-        return cycles;
-    }
-
-    private handleSBC_AbsoluteLong(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const bankByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        
-        const address = (bankByte << 16) | (highByte << 8) | lowByte;
-        
-        let value: number;
-        let cycles = 5; // Base cycles
-        const carryIn = this.c ? 1 : 0;
-        
-        if (this.m) { // 8-bit mode
-            value = this.read8(address);
-            const operand = value ^ 0xFF; // Invert for subtraction via addition
-            const temp = (this.a & 0xFF) + operand + carryIn;
-            this.v = (((this.a & 0xFF) ^ temp) & (operand ^ temp) & 0x80) !== 0;
-            this.c = temp > 0xFF;
-            this.a = (this.a & 0xFF00) | (temp & 0xFF);
-            this.setZN(this.a & 0xFF);
-            console.debug(`[DEBUG] SBC Absolute Long (8-bit): A=0x${(this.a & 0xFF).toString(16)}, Val=0x${value.toString(16)}, Addr=0x${address.toString(16)}, Cin=${carryIn}`);
-        } else { // 16-bit mode
-            value = this.read16(address);
-            const operand = value ^ 0xFFFF; // Invert for subtraction via addition
-            const temp = this.a + operand + carryIn;
-            this.v = (((this.a ^ temp) & (operand ^ temp)) & 0x8000) !== 0;
-            this.c = temp > 0xFFFF;
-            this.a = temp & 0xFFFF;
-            this.setZN(this.a);
-            cycles = 6; // 16-bit takes longer
-            console.debug(`[DEBUG] SBC Absolute Long (16-bit): A=0x${this.a.toString(16)}, Val=0x${value.toString(16)}, Addr=0x${address.toString(16)}, Cin=${carryIn}`);
-        }
-        
-        return cycles;
-    }
-
-    private handleLDA_AbsoluteX(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        
-        const address = (highByte << 8) | lowByte;
-        const pageBase = address & 0xFF00;
-        const effectiveAddress = (this.dbr << 16) | ((address + this.x) & 0xFFFF);
-        const pageCrossed = ((address + this.x) & 0xFF00) !== pageBase;
-        
-        let value: number;
-        let cycles = 4; // Base cycles
-        
-        if (this.m) { // 8-bit mode
-            value = this.read8(effectiveAddress);
-            this.a = (this.a & 0xFF00) | value;
-            this.setZN(this.a & 0xFF);
-            console.debug(`[DEBUG] LDA Absolute,X (8-bit): A = 0x${(this.a & 0xFF).toString(16)} from 0x${effectiveAddress.toString(16)} (Base: 0x${address.toString(16)}, X: 0x${this.x.toString(16)})`);
-        } else { // 16-bit mode
-            value = this.read16(effectiveAddress);
-            this.a = value;
-            this.setZN(this.a);
-            cycles = 5; // 16-bit takes longer
-            console.debug(`[DEBUG] LDA Absolute,X (16-bit): A = 0x${this.a.toString(16)} from 0x${effectiveAddress.toString(16)} (Base: 0x${address.toString(16)}, X: 0x${this.x.toString(16)})`);
-        }
-        
-        // Add cycle penalty if page boundary crossed in emulation mode or native mode with x_b=1
-        if (pageCrossed && (this.emulationMode || this.x_b)) {
-            cycles++;
-        }
-        
-        return cycles;
-    }
-
-    private handleBIT_Absolute(): number {
-        const lowByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const highByte = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const address = (highByte << 8) | lowByte;
-        const effectiveAddress = (this.dbr << 16) | address;
-        
-        let value: number;
-        let result: number;
-        let cycles = 4; // Base cycles
-        
-        if (this.m) { // 8-bit mode
-            value = this.read8(effectiveAddress);
-            result = (this.a & 0xFF) & value;
-            // BIT sets N and V based on the memory value, not the result
-            this.n = (value & 0x80) !== 0;
-            this.v = (value & 0x40) !== 0;
-            this.z = result === 0;
-            console.debug(`[DEBUG] BIT Absolute (8-bit): A=${(this.a & 0xFF).toString(16)} & Mem=${value.toString(16)} from ${effectiveAddress.toString(16)}`);
-        } else { // 16-bit mode
-            value = this.read16(effectiveAddress);
-            result = this.a & value;
-            // BIT sets N and V based on the memory value, not the result
-            this.n = (value & 0x8000) !== 0;
-            this.v = (value & 0x4000) !== 0;
-            this.z = result === 0;
-            cycles = 5; // 16-bit takes longer
-            console.debug(`[DEBUG] BIT Absolute (16-bit): A=${this.a.toString(16)} & Mem=${value.toString(16)} from ${effectiveAddress.toString(16)}`);
-        }
-        
-        return cycles;
-    }
-    
-    private handleORA_DirectPageIndirect(): number {
-        const zeroPageOffset = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        
-        // Calculate pointer address in zero page
-        const pointerAddress = (this.d + zeroPageOffset) & 0xFFFF;
-        
-        // Read the indirect address from the pointer address (handle wraparound)
-        const indirectAddressLow = this.read8(pointerAddress);
-        const indirectAddressHigh = this.read8((pointerAddress + 1) & 0xFFFF);
-        const indirectAddress = (indirectAddressHigh << 8) | indirectAddressLow;
-        
-        // The final effective address uses the DBR and the indirect address
-        const effectiveAddress = (this.dbr << 16) | indirectAddress;
-        
-        let value: number;
-        let cycles = 5; // Base cycles
-        
-        if (this.m) { // 8-bit mode
-            value = this.read8(effectiveAddress);
-            this.a = (this.a & 0xFF00) | ((this.a | value) & 0xFF);
-            this.setZN(this.a & 0xFF);
-            console.debug(`[DEBUG] ORA (dp) (8-bit): A=0x${(this.a & 0xFF).toString(16)} |= 0x${value.toString(16)} from [0x${pointerAddress.toString(16)}] = 0x${effectiveAddress.toString(16)}`);
-        } else { // 16-bit mode
-            value = this.read16(effectiveAddress);
-            this.a = (this.a | value) & 0xFFFF;
-            this.setZN(this.a);
-            cycles = 6; // 16-bit takes longer
-            console.debug(`[DEBUG] ORA (dp) (16-bit): A=0x${this.a.toString(16)} |= 0x${value.toString(16)} from [0x${pointerAddress.toString(16)}] = 0x${effectiveAddress.toString(16)}`);
-        }
-        
-        // Add cycle penalty if D low byte is non-zero
-        if ((this.d & 0xFF) !== 0) {
-            cycles++;
-        }
-        
-        return cycles;
-    }
-    
-    private handleWDM(): number {
-        // WDM is a 2-byte NOP (reserved opcode) in the 65816
-        // Usually used for emulator hooks or extensions
-        this.pc = (this.pc + 1) & 0xFFFF; // Skip parameter byte
-        console.debug(`[DEBUG] WDM executed (reserved opcode)`);
-        return 2; // 2 cycles
-    }
-
-    private handleLDY_ZeroPage(): number {
-        const zeroPageAddr = this.read8((this.pbr << 16) | this.pc);
-        this.pc = (this.pc + 1) & 0xFFFF;
-        const effectiveAddress = (this.d + zeroPageAddr) & 0xFFFF;
-
-        let value: number;
-        let cycles = 3; // Base cycles
-        
-        if (this.x_b) { // 8-bit mode (Y follows X flag)
-            value = this.read8(effectiveAddress);
-            this.y = value;
-            this.setZN(this.y & 0xFF);
-            console.debug(`[DEBUG] LDY Zero Page (8-bit): Y = 0x${this.y.toString(16)} from 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr}, D: ${this.d})`);
-        } else { // 16-bit mode
-            value = this.read16(effectiveAddress);
-            this.y = value;
-            this.setZN(this.y);
-            cycles = 4; // 16-bit takes longer
-            console.debug(`[DEBUG] LDY Zero Page (16-bit): Y = 0x${this.y.toString(16)} from 0x${effectiveAddress.toString(16)} (ZP: ${zeroPageAddr}, D: ${this.d})`);
+            flags |= 0x20; // M flag (bit 5) is always 1 when pushed in emulation mode.
         }
 
-        // Add cycle penalty if D low byte is non-zero
-        if ((this.d & 0xFF) !== 0) {
-            cycles++;
-        }
-        
-        return cycles;
+        return flags;
     }
 }
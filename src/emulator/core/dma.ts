@@ -0,0 +1,247 @@
+// A-bus/B-bus access used by DMA. B-bus registers are reached at $2100-$21FF
+// in bank $00.
+export interface DMABus {
+    read8(address: number): number;
+    write8(address: number, value: number): void;
+}
+
+// B-bus register offsets written by each unit of a DMAPn transfer pattern
+const TRANSFER_PATTERNS = [
+    [0], [0, 1], [0, 0], [0, 0, 1, 1], [0, 1, 2, 3], [0, 1, 0, 1], [0, 0], [0, 0, 1, 1]
+];
+
+// A-bus address step for each DMAPn bits 3-4 setting: increment, fixed, decrement, fixed
+const A_BUS_STEPS = [1, 0, -1, 0];
+
+// Master cycles the CPU is paused for while DMA runs
+const GPDMA_OVERHEAD_CYCLES = 12;
+const HDMA_OVERHEAD_CYCLES = 18;
+const DMA_CHANNEL_CYCLES = 8;
+const DMA_BYTE_CYCLES = 8;
+
+interface DMAChannel {
+    control: number;         // DMAPn ($43n0)
+    bAddress: number;        // BBADn ($43n1)
+    aAddress: number;        // A1TnL/H ($43n2/$43n3): GPDMA address, HDMA table start
+    aBank: number;           // A1Bn ($43n4)
+    count: number;           // DASnL/H ($43n5/$43n6): GPDMA byte count, HDMA indirect address
+    indirectBank: number;    // DASBn ($43n7)
+    tableAddress: number;    // A2AnL/H ($43n8/$43n9): current HDMA table position
+    lineCounter: number;     // NLTRn ($43nA): bit 7 = repeat, bits 0-6 = lines left
+    unused: number;          // $43nB/$43nF: plain read/write byte
+    hdmaCompleted: boolean;  // Hit the end of its table this frame
+    hdmaDoTransfer: boolean; // Transfers this line (first line of an entry, or repeat mode)
+}
+
+// The eight DMA channels, shared by general-purpose DMA ($420B) and HDMA ($420C)
+export class DMA {
+    private bus: DMABus;
+    private channels: DMAChannel[] = [];
+    private hdmaEnable: number = 0; // HDMAEN ($420C)
+
+    constructor(bus: DMABus) {
+        this.bus = bus;
+        this.reset();
+    }
+
+    reset(): void {
+        this.channels = Array.from({ length: 8 }, () => ({
+            control: 0xFF,
+            bAddress: 0xFF,
+            aAddress: 0xFFFF,
+            aBank: 0xFF,
+            count: 0xFFFF,
+            indirectBank: 0xFF,
+            tableAddress: 0xFFFF,
+            lineCounter: 0xFF,
+            unused: 0xFF,
+            hdmaCompleted: false,
+            hdmaDoTransfer: false
+        }));
+        this.hdmaEnable = 0;
+    }
+
+    // $4300-$437F
+    readRegister(address: number): number {
+        const channel = this.channels[(address >> 4) & 0x07];
+        switch (address & 0x0F) {
+            case 0x0: return channel.control;
+            case 0x1: return channel.bAddress;
+            case 0x2: return channel.aAddress & 0xFF;
+            case 0x3: return channel.aAddress >> 8;
+            case 0x4: return channel.aBank;
+            case 0x5: return channel.count & 0xFF;
+            case 0x6: return channel.count >> 8;
+            case 0x7: return channel.indirectBank;
+            case 0x8: return channel.tableAddress & 0xFF;
+            case 0x9: return channel.tableAddress >> 8;
+            case 0xA: return channel.lineCounter;
+            case 0xB: case 0xF: return channel.unused;
+            default: return 0; // Open bus
+        }
+    }
+
+    writeRegister(address: number, value: number): void {
+        const channel = this.channels[(address >> 4) & 0x07];
+        switch (address & 0x0F) {
+            case 0x0: channel.control = value; break;
+            case 0x1: channel.bAddress = value; break;
+            case 0x2: channel.aAddress = (channel.aAddress & 0xFF00) | value; break;
+            case 0x3: channel.aAddress = (value << 8) | (channel.aAddress & 0xFF); break;
+            case 0x4: channel.aBank = value; break;
+            case 0x5: channel.count = (channel.count & 0xFF00) | value; break;
+            case 0x6: channel.count = (value << 8) | (channel.count & 0xFF); break;
+            case 0x7: channel.indirectBank = value; break;
+            case 0x8: channel.tableAddress = (channel.tableAddress & 0xFF00) | value; break;
+            case 0x9: channel.tableAddress = (value << 8) | (channel.tableAddress & 0xFF); break;
+            case 0xA: channel.lineCounter = value; break;
+            case 0xB: case 0xF: channel.unused = value; break;
+        }
+    }
+
+    setHDMAEnable(value: number): void {
+        this.hdmaEnable = value;
+    }
+
+    /**
+     * MDMAEN ($420B): runs general-purpose DMA on each selected channel in turn,
+     * lowest first, in either direction and with any transfer pattern. Channels
+     * HDMA is active on are skipped, as HDMA cuts off any transfer sharing its
+     * channel.
+     * @returns Master cycles the CPU is paused for
+     */
+    startGPDMA(mask: number): number {
+        let cycles = 0;
+        for (let i = 0; i < 8; i++) {
+            if ((mask & (1 << i)) === 0 || this.isHDMAActive(i)) continue;
+            const channel = this.channels[i];
+            const pattern = TRANSFER_PATTERNS[channel.control & 0x07];
+            const step = A_BUS_STEPS[(channel.control >> 3) & 0x03];
+            cycles += DMA_CHANNEL_CYCLES;
+
+            // A byte count of 0 means 64KB; the count and address registers are left
+            // where the transfer ended
+            let unit = 0;
+            do {
+                this.transfer(channel, (channel.aBank << 16) | channel.aAddress, pattern[unit]);
+                channel.aAddress = (channel.aAddress + step) & 0xFFFF;
+                unit = (unit + 1) % pattern.length;
+                channel.count = (channel.count - 1) & 0xFFFF;
+                cycles += DMA_BYTE_CYCLES;
+            } while (channel.count !== 0);
+        }
+        return cycles === 0 ? 0 : cycles + GPDMA_OVERHEAD_CYCLES;
+    }
+
+    // Called at the start of each frame: every enabled channel reloads its table
+    initHDMA(): void {
+        for (let i = 0; i < 8; i++) {
+            const channel = this.channels[i];
+            channel.hdmaCompleted = false;
+            channel.hdmaDoTransfer = true;
+            if ((this.hdmaEnable & (1 << i)) === 0) continue;
+            channel.tableAddress = channel.aAddress;
+            channel.lineCounter = 0;
+            this.reloadHDMA(channel);
+        }
+    }
+
+    /**
+     * Called at the start of H-blank on lines 0-224. Each active channel writes
+     * one unit of its transfer pattern (on an entry's first line, or every line
+     * in repeat mode) and counts down towards its next table entry.
+     * @returns Master cycles the CPU is paused for
+     */
+    runHDMA(): number {
+        if (this.hdmaEnable === 0) {
+            return 0;
+        }
+
+        let cycles = HDMA_OVERHEAD_CYCLES;
+        for (let i = 0; i < 8; i++) {
+            if (!this.isHDMAActive(i)) continue;
+            const channel = this.channels[i];
+            cycles += DMA_BYTE_CYCLES;
+
+            if (channel.hdmaDoTransfer) {
+                const indirect = (channel.control & 0x40) !== 0;
+                const pattern = TRANSFER_PATTERNS[channel.control & 0x07];
+                for (let unit = 0; unit < pattern.length; unit++) {
+                    let address: number;
+                    if (indirect) {
+                        address = (channel.indirectBank << 16) | channel.count;
+                        channel.count = (channel.count + 1) & 0xFFFF;
+                    } else {
+                        address = (channel.aBank << 16) | channel.tableAddress;
+                        channel.tableAddress = (channel.tableAddress + 1) & 0xFFFF;
+                    }
+                    this.transfer(channel, address, pattern[unit]);
+                    cycles += DMA_BYTE_CYCLES;
+                }
+            }
+
+            channel.lineCounter = (channel.lineCounter - 1) & 0xFF;
+            channel.hdmaDoTransfer = (channel.lineCounter & 0x80) !== 0;
+            cycles += this.reloadHDMA(channel);
+        }
+        return cycles;
+    }
+
+    private isHDMAActive(index: number): boolean {
+        return (this.hdmaEnable & (1 << index)) !== 0 && !this.channels[index].hdmaCompleted;
+    }
+
+    // Moves one byte between the A-bus and a B-bus register; DMAPn bit 7 selects B→A
+    private transfer(channel: DMAChannel, address: number, offset: number): void {
+        const bAddress = 0x2100 | ((channel.bAddress + offset) & 0xFF);
+        if (channel.control & 0x80) {
+            this.bus.write8(address, this.bus.read8(bAddress));
+        } else {
+            this.bus.write8(bAddress, this.bus.read8(address));
+        }
+    }
+
+    // Once an entry's lines run out, reads the next line count (0 ends the
+    // table) and, for indirect channels, the data address. Returns cycles used.
+    private reloadHDMA(channel: DMAChannel): number {
+        if ((channel.lineCounter & 0x7F) !== 0) {
+            return 0;
+        }
+
+        channel.lineCounter = this.readTable(channel);
+        channel.hdmaCompleted = channel.lineCounter === 0;
+        channel.hdmaDoTransfer = !channel.hdmaCompleted;
+        if ((channel.control & 0x40) === 0) {
+            return DMA_BYTE_CYCLES;
+        }
+
+        const low = this.readTable(channel);
+        const high = this.readTable(channel);
+        channel.count = (high << 8) | low;
+        return DMA_BYTE_CYCLES * 3;
+    }
+
+    private readTable(channel: DMAChannel): number {
+        const value = this.bus.read8((channel.aBank << 16) | channel.tableAddress);
+        channel.tableAddress = (channel.tableAddress + 1) & 0xFFFF;
+        return value;
+    }
+
+    getState(): object {
+        return {
+            hdmaEnable: this.hdmaEnable,
+            channels: this.channels.map((channel, index) => ({
+                channel: index,
+                direction: (channel.control & 0x80) !== 0,
+                indirect: (channel.control & 0x40) !== 0,
+                mode: channel.control & 0x07,
+                fixed: (channel.control & 0x08) !== 0,
+                address: (channel.aBank << 16) | channel.aAddress,
+                destReg: channel.bAddress,
+                size: channel.count || 0x10000,
+                hdmaActive: this.isHDMAActive(index),
+                lineCounter: channel.lineCounter
+            }))
+        };
+    }
+}
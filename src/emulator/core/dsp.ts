@@ -0,0 +1,481 @@
+// S-DSP: eight BRR sample voices with envelopes, noise, pitch modulation and an
+// echo unit with an 8-tap FIR filter. Produces one stereo sample every 32
+// SPC700 cycles (32kHz). Registers live in the APU's DSP register file.
+
+// Global registers
+const REG_MVOLL = 0x0C;
+const REG_MVOLR = 0x1C;
+const REG_EVOLL = 0x2C;
+const REG_EVOLR = 0x3C;
+const REG_KON = 0x4C;
+const REG_KOFF = 0x5C;
+const REG_FLG = 0x6C;
+const REG_ENDX = 0x7C;
+const REG_EFB = 0x0D;
+const REG_PMON = 0x2D;
+const REG_NON = 0x3D;
+const REG_EON = 0x4D;
+const REG_DIR = 0x5D;
+const REG_ESA = 0x6D;
+const REG_EDL = 0x7D;
+const REG_FIR = 0x0F; // FIR coefficient n at $nF
+
+// Per-voice registers (voice n at $n0-$n9)
+const VREG_VOLL = 0x0;
+const VREG_VOLR = 0x1;
+const VREG_PITCHL = 0x2;
+const VREG_PITCHH = 0x3;
+const VREG_SRCN = 0x4;
+const VREG_ADSR1 = 0x5;
+const VREG_ADSR2 = 0x6;
+const VREG_GAIN = 0x7;
+const VREG_ENVX = 0x8;
+const VREG_OUTX = 0x9;
+
+const BRR_BLOCK_SIZE = 9;
+const KEY_ON_DELAY = 5; // Samples of silence between key on and playback
+
+// Envelope/noise rates: samples between updates for each 5-bit rate (0 = never)
+const COUNTER_RANGE = 2048 * 5 * 3;
+const COUNTER_RATES = [
+    COUNTER_RANGE + 1, 2048, 1536, 1280, 1024, 768, 640, 512,
+    384, 320, 256, 192, 160, 128, 96, 80,
+    64, 48, 40, 32, 24, 20, 16, 12,
+    10, 8, 6, 5, 4, 3, 2, 1
+];
+const COUNTER_OFFSETS = [
+    1, 0, 1040, 536, 0, 1040, 536, 0,
+    1040, 536, 0, 1040, 536, 0, 1040, 536,
+    0, 1040, 536, 0, 1040, 536, 0, 1040,
+    536, 0, 1040, 536, 0, 1040, 0, 0
+];
+
+// Gaussian interpolation table from the DSP's internal ROM
+const GAUSS_TABLE = new Int16Array([
+       0,    0,    0,    0,    0,    0,    0,    0,    0,    0,    0,    0,    0,    0,    0,    0,
+       1,    1,    1,    1,    1,    1,    1,    1,    1,    1,    1,    2,    2,    2,    2,    2,
+       2,    2,    3,    3,    3,    3,    3,    4,    4,    4,    4,    4,    5,    5,    5,    5,
+       6,    6,    6,    6,    7,    7,    7,    8,    8,    8,    9,    9,    9,   10,   10,   10,
+      11,   11,   11,   12,   12,   13,   13,   14,   14,   15,   15,   15,   16,   16,   17,   17,
+      18,   19,   19,   20,   20,   21,   21,   22,   23,   23,   24,   24,   25,   26,   27,   27,
+      28,   29,   29,   30,   31,   32,   32,   33,   34,   35,   36,   36,   37,   38,   39,   40,
+      41,   42,   43,   44,   45,   46,   47,   48,   49,   50,   51,   52,   53,   54,   55,   56,
+      58,   59,   60,   61,   62,   64,   65,   66,   67,   69,   70,   71,   73,   74,   76,   77,
+      78,   80,   81,   83,   84,   86,   87,   89,   90,   92,   94,   95,   97,   99,  100,  102,
+     104,  106,  107,  109,  111,  113,  115,  117,  118,  120,  122,  124,  126,  128,  130,  132,
+     134,  137,  139,  141,  143,  145,  147,  150,  152,  154,  156,  159,  161,  163,  166,  168,
+     171,  173,  175,  178,  180,  183,  186,  188,  191,  193,  196,  199,  201,  204,  207,  210,
+     212,  215,  218,  221,  224,  227,  230,  233,  236,  239,  242,  245,  248,  251,  254,  257,
+     260,  263,  267,  270,  273,  276,  280,  283,  286,  290,  293,  297,  300,  304,  307,  311,
+     314,  318,  321,  325,  328,  332,  336,  339,  343,  347,  351,  354,  358,  362,  366,  370,
+     374,  378,  381,  385,  389,  393,  397,  401,  405,  410,  414,  418,  422,  426,  430,  434,
+     439,  443,  447,  451,  456,  460,  464,  469,  473,  477,  482,  486,  491,  495,  499,  504,
+     508,  513,  517,  522,  527,  531,  536,  540,  545,  550,  554,  559,  563,  568,  573,  577,
+     582,  587,  592,  596,  601,  606,  611,  615,  620,  625,  630,  635,  640,  644,  649,  654,
+     659,  664,  669,  674,  678,  683,  688,  693,  698,  703,  708,  713,  718,  723,  728,  732,
+     737,  742,  747,  752,  757,  762,  767,  772,  777,  782,  787,  792,  797,  802,  806,  811,
+     816,  821,  826,  831,  836,  841,  846,  851,  855,  860,  865,  870,  875,  880,  884,  889,
+     894,  899,  904,  908,  913,  918,  923,  927,  932,  937,  941,  946,  951,  955,  960,  965,
+     969,  974,  978,  983,  988,  992,  997, 1001, 1005, 1010, 1014, 1019, 1023, 1027, 1032, 1036,
+    1040, 1045, 1049, 1053, 1057, 1061, 1066, 1070, 1074, 1078, 1082, 1086, 1090, 1094, 1098, 1102,
+    1106, 1109, 1113, 1117, 1121, 1125, 1128, 1132, 1136, 1139, 1143, 1146, 1150, 1153, 1157, 1160,
+    1164, 1167, 1170, 1174, 1177, 1180, 1183, 1186, 1190, 1193, 1196, 1199, 1202, 1205, 1207, 1210,
+    1213, 1216, 1219, 1221, 1224, 1227, 1229, 1232, 1234, 1237, 1239, 1241, 1244, 1246, 1248, 1251,
+    1253, 1255, 1257, 1259, 1261, 1263, 1265, 1267, 1269, 1270, 1272, 1274, 1275, 1277, 1279, 1280,
+    1282, 1283, 1284, 1286, 1287, 1288, 1290, 1291, 1292, 1293, 1294, 1295, 1296, 1297, 1297, 1298,
+    1299, 1300, 1300, 1301, 1302, 1302, 1303, 1303, 1303, 1304, 1304, 1304, 1304, 1304, 1305, 1305
+]);
+
+enum EnvelopeMode { Attack, Decay, Sustain, Release }
+
+interface Voice {
+    brrAddress: number;   // Address of the BRR block being played
+    brrOffset: number;    // Next sample (0-15) to decode from the block
+    pitchCounter: number; // 12-bit fraction of the current sample position
+    history: Int16Array;  // Last four decoded samples, oldest first
+    envelope: number;     // 11-bit envelope level
+    hiddenEnvelope: number; // Unclamped level, used by the bent-line GAIN mode
+    envelopeMode: EnvelopeMode;
+    keyOnDelay: number;
+    output: number;       // Last output before volume, feeds pitch modulation
+}
+
+function clamp16(value: number): number {
+    return value < -0x8000 ? -0x8000 : value > 0x7FFF ? 0x7FFF : value;
+}
+
+// Wraps to a signed 16-bit value the way the DSP's adders overflow
+function wrap16(value: number): number {
+    return (value << 16) >> 16;
+}
+
+function signed8(value: number): number {
+    return (value << 24) >> 24;
+}
+
+export class DSP {
+    private aram: Uint8Array;
+    private registers: Uint8Array;
+
+    private voices: Voice[] = [];
+    private keyOnLatch: number = 0; // KON bits written since the last sample
+    private counter: number = 0;    // Global rate counter shared by envelopes and noise
+    private noise: number = 0x4000; // 15-bit noise LFSR
+
+    // Echo unit
+    private echoOffset: number = 0;
+    private echoLength: number = 0;
+    private echoHistoryL: Int16Array = new Int16Array(8);
+    private echoHistoryR: Int16Array = new Int16Array(8);
+    private echoHistoryPos: number = 0;
+
+    private outputLeft: number = 0;
+    private outputRight: number = 0;
+
+    constructor(aram: Uint8Array, registers: Uint8Array) {
+        this.aram = aram;
+        this.registers = registers;
+        this.reset();
+    }
+
+    reset(): void {
+        this.voices = [];
+        for (let i = 0; i < 8; i++) {
+            this.voices.push({
+                brrAddress: 0,
+                brrOffset: 0,
+                pitchCounter: 0,
+                history: new Int16Array(4),
+                envelope: 0,
+                hiddenEnvelope: 0,
+                envelopeMode: EnvelopeMode.Release,
+                keyOnDelay: 0,
+                output: 0
+            });
+        }
+        this.keyOnLatch = 0;
+        this.counter = 0;
+        this.noise = 0x4000;
+        this.echoOffset = 0;
+        this.echoLength = 0;
+        this.echoHistoryL.fill(0);
+        this.echoHistoryR.fill(0);
+        this.echoHistoryPos = 0;
+        this.outputLeft = 0;
+        this.outputRight = 0;
+        // FLG powers up with soft reset, mute and echo writes disabled
+        this.registers[REG_FLG] = 0xE0;
+    }
+
+    // Side effects of SPC700 writes through $F3; the APU has already stored the value
+    writeRegister(address: number, value: number): void {
+        switch (address) {
+            case REG_KON:
+                this.keyOnLatch |= value;
+                break;
+            case REG_ENDX: // Any write clears every end flag
+                this.registers[REG_ENDX] = 0;
+                break;
+        }
+    }
+
+    getOutputLeft(): number {
+        return this.outputLeft;
+    }
+
+    getOutputRight(): number {
+        return this.outputRight;
+    }
+
+    // Produces one 32kHz stereo sample
+    runSample(): void {
+        const regs = this.registers;
+        const flg = regs[REG_FLG];
+
+        if (--this.counter < 0) {
+            this.counter = COUNTER_RANGE - 1;
+        }
+
+        // Noise advances at its own rate
+        if (this.counterTicks(flg & 0x1F)) {
+            const feedback = (this.noise << 13) ^ (this.noise << 14);
+            this.noise = (feedback & 0x4000) ^ (this.noise >> 1);
+        }
+
+        this.handleKeys(flg);
+
+        const pmon = regs[REG_PMON] & 0xFE; // Voice 0 can't be modulated
+        const non = regs[REG_NON];
+        const eon = regs[REG_EON];
+        let mainL = 0;
+        let mainR = 0;
+        let echoL = 0;
+        let echoR = 0;
+
+        for (let v = 0; v < 8; v++) {
+            const voice = this.voices[v];
+            const base = v << 4;
+            const bit = 1 << v;
+
+            let pitch = ((regs[base + VREG_PITCHH] & 0x3F) << 8) | regs[base + VREG_PITCHL];
+            if (pmon & bit) {
+                pitch += ((this.voices[v - 1].output >> 5) * pitch) >> 10;
+                pitch = Math.max(0, Math.min(0x7FFF, pitch));
+            }
+
+            let output = 0;
+            if (voice.keyOnDelay > 0) {
+                voice.keyOnDelay--;
+            } else {
+                const sample = (non & bit) ? wrap16(this.noise << 1) : this.interpolate(voice);
+                this.runEnvelope(voice, base);
+                output = ((sample * voice.envelope) >> 11) & ~1;
+                this.advance(voice, v, pitch);
+            }
+            voice.output = output;
+
+            regs[base + VREG_ENVX] = voice.envelope >> 4;
+            regs[base + VREG_OUTX] = (output >> 8) & 0xFF;
+
+            const left = (output * signed8(regs[base + VREG_VOLL])) >> 7;
+            const right = (output * signed8(regs[base + VREG_VOLR])) >> 7;
+            mainL = clamp16(mainL + left);
+            mainR = clamp16(mainR + right);
+            if (eon & bit) {
+                echoL = clamp16(echoL + left);
+                echoR = clamp16(echoR + right);
+            }
+        }
+
+        const [echoOutL, echoOutR] = this.runEcho(echoL, echoR, flg);
+
+        let outL = clamp16(((mainL * signed8(regs[REG_MVOLL])) >> 7) + ((echoOutL * signed8(regs[REG_EVOLL])) >> 7));
+        let outR = clamp16(((mainR * signed8(regs[REG_MVOLR])) >> 7) + ((echoOutR * signed8(regs[REG_EVOLR])) >> 7));
+        if (flg & 0x40) { // Mute
+            outL = 0;
+            outR = 0;
+        }
+        this.outputLeft = outL;
+        this.outputRight = outR;
+    }
+
+    // The counter "ticks" for a rate when it lines up with that rate's period
+    private counterTicks(rate: number): boolean {
+        return (this.counter + COUNTER_OFFSETS[rate]) % COUNTER_RATES[rate] === 0;
+    }
+
+    private handleKeys(flg: number): void {
+        const regs = this.registers;
+        const koff = regs[REG_KOFF];
+
+        for (let v = 0; v < 8; v++) {
+            const voice = this.voices[v];
+            const bit = 1 << v;
+
+            if (this.keyOnLatch & bit) {
+                const entry = (regs[REG_DIR] << 8) + (regs[(v << 4) + VREG_SRCN] << 2);
+                voice.brrAddress = this.read16(entry);
+                voice.brrOffset = 0;
+                voice.pitchCounter = 0;
+                voice.history.fill(0);
+                voice.envelope = 0;
+                voice.hiddenEnvelope = 0;
+                voice.envelopeMode = EnvelopeMode.Attack;
+                voice.keyOnDelay = KEY_ON_DELAY;
+                regs[REG_ENDX] &= ~bit;
+            } else if (koff & bit) {
+                voice.envelopeMode = EnvelopeMode.Release;
+            }
+
+            // Soft reset silences everything immediately
+            if (flg & 0x80) {
+                voice.envelopeMode = EnvelopeMode.Release;
+                voice.envelope = 0;
+            }
+        }
+        this.keyOnLatch = 0;
+    }
+
+    // 4-point gaussian interpolation between the last four samples
+    private interpolate(voice: Voice): number {
+        const offset = (voice.pitchCounter >> 4) & 0xFF;
+        const h = voice.history;
+        let out = (GAUSS_TABLE[255 - offset] * h[0]) >> 11;
+        out += (GAUSS_TABLE[511 - offset] * h[1]) >> 11;
+        out += (GAUSS_TABLE[256 + offset] * h[2]) >> 11;
+        out = wrap16(out);
+        out += (GAUSS_TABLE[offset] * h[3]) >> 11;
+        return clamp16(out) & ~1;
+    }
+
+    // Moves the sample position forward by the voice's pitch, decoding BRR as needed
+    private advance(voice: Voice, index: number, pitch: number): void {
+        voice.pitchCounter += pitch;
+        while (voice.pitchCounter >= 0x1000) {
+            voice.pitchCounter -= 0x1000;
+            const h = voice.history;
+            h[0] = h[1];
+            h[1] = h[2];
+            h[2] = h[3];
+            h[3] = this.decodeNextSample(voice, index);
+        }
+    }
+
+    private decodeNextSample(voice: Voice, index: number): number {
+        const header = this.aram[voice.brrAddress];
+        const byte = this.aram[(voice.brrAddress + 1 + (voice.brrOffset >> 1)) & 0xFFFF];
+        const nibble = (voice.brrOffset & 1) ? byte & 0x0F : byte >> 4;
+        const shift = header >> 4;
+        const filter = (header >> 2) & 3;
+
+        let s = (nibble << 28) >> 28; // Sign-extend
+        s = shift <= 12 ? (s << shift) >> 1 : (s < 0 ? -2048 : 0);
+
+        // Prediction filters work on the previous two decoded samples
+        const p1 = voice.history[3];
+        const p2 = voice.history[2] >> 1;
+        switch (filter) {
+            case 1:
+                s += (p1 >> 1) + ((-p1) >> 5);
+                break;
+            case 2:
+                s += p1 - p2 + (p2 >> 4) + ((p1 * -3) >> 6);
+                break;
+            case 3:
+                s += p1 - p2 + ((p1 * -13) >> 7) + ((p2 * 3) >> 4);
+                break;
+        }
+        s = wrap16(clamp16(s) << 1);
+
+        if (++voice.brrOffset === 16) {
+            voice.brrOffset = 0;
+            if (header & 0x01) {
+                // End of sample: flag it and loop, or silence the voice
+                this.registers[REG_ENDX] |= 1 << index;
+                const entry = (this.registers[REG_DIR] << 8) + (this.registers[(index << 4) + VREG_SRCN] << 2);
+                voice.brrAddress = this.read16(entry + 2);
+                if (!(header & 0x02)) {
+                    voice.envelopeMode = EnvelopeMode.Release;
+                    voice.envelope = 0;
+                }
+            } else {
+                voice.brrAddress = (voice.brrAddress + BRR_BLOCK_SIZE) & 0xFFFF;
+            }
+        }
+        return s;
+    }
+
+    private runEnvelope(voice: Voice, base: number): void {
+        let env = voice.envelope;
+        if (voice.envelopeMode === EnvelopeMode.Release) {
+            voice.envelope = Math.max(0, env - 8);
+            return;
+        }
+
+        const adsr1 = this.registers[base + VREG_ADSR1];
+        let envData = this.registers[base + VREG_ADSR2];
+        let rate: number;
+
+        if (adsr1 & 0x80) {
+            if (voice.envelopeMode === EnvelopeMode.Attack) {
+                rate = ((adsr1 & 0x0F) << 1) + 1;
+                env += rate < 31 ? 0x20 : 0x400;
+            } else {
+                // Decay and sustain are both exponential
+                env--;
+                env -= env >> 8;
+                rate = voice.envelopeMode === EnvelopeMode.Decay ? ((adsr1 >> 3) & 0x0E) + 0x10 : envData & 0x1F;
+            }
+        } else {
+            envData = this.registers[base + VREG_GAIN];
+            const mode = envData >> 5;
+            if (mode < 4) { // Direct
+                env = envData << 4;
+                rate = 31;
+            } else {
+                rate = envData & 0x1F;
+                if (mode === 4) { // Linear decrease
+                    env -= 0x20;
+                } else if (mode === 5) { // Exponential decrease
+                    env--;
+                    env -= env >> 8;
+                } else { // Linear or bent-line increase
+                    env += 0x20;
+                    if (mode === 7 && voice.hiddenEnvelope >= 0x600) {
+                        env += 0x08 - 0x20;
+                    }
+                }
+            }
+        }
+
+        // Decay ends at the sustain level (GAIN mode compares against its own register)
+        if ((env >> 8) === (envData >> 5) && voice.envelopeMode === EnvelopeMode.Decay) {
+            voice.envelopeMode = EnvelopeMode.Sustain;
+        }
+        voice.hiddenEnvelope = env;
+
+        if (env < 0 || env > 0x7FF) {
+            env = env < 0 ? 0 : 0x7FF;
+            if (voice.envelopeMode === EnvelopeMode.Attack) {
+                voice.envelopeMode = EnvelopeMode.Decay;
+            }
+        }
+
+        if (this.counterTicks(rate)) {
+            voice.envelope = env;
+        }
+    }
+
+    // Reads the echo buffer through the FIR filter and feeds the new input back in
+    private runEcho(inputL: number, inputR: number, flg: number): [number, number] {
+        const regs = this.registers;
+        const address = ((regs[REG_ESA] << 8) + this.echoOffset) & 0xFFFF;
+
+        this.echoHistoryPos = (this.echoHistoryPos + 1) & 7;
+        this.echoHistoryL[this.echoHistoryPos] = wrap16(this.read16(address)) >> 1;
+        this.echoHistoryR[this.echoHistoryPos] = wrap16(this.read16(address + 2)) >> 1;
+
+        const outL = this.applyFIR(this.echoHistoryL);
+        const outR = this.applyFIR(this.echoHistoryR);
+
+        const efb = signed8(regs[REG_EFB]);
+        const feedbackL = clamp16(inputL + ((outL * efb) >> 7)) & ~1;
+        const feedbackR = clamp16(inputR + ((outR * efb) >> 7)) & ~1;
+        if (!(flg & 0x20)) {
+            this.write16(address, feedbackL);
+            this.write16(address + 2, feedbackR);
+        }
+
+        // The buffer length is only re-read from EDL when the buffer wraps
+        if (this.echoOffset === 0) {
+            this.echoLength = (regs[REG_EDL] & 0x0F) << 11;
+        }
+        this.echoOffset += 4;
+        if (this.echoOffset >= this.echoLength) {
+            this.echoOffset = 0;
+        }
+
+        return [outL, outR];
+    }
+
+    // 8-tap FIR over the echo history, oldest sample first
+    private applyFIR(history: Int16Array): number {
+        let sum = 0;
+        for (let tap = 0; tap < 7; tap++) {
+            const sample = history[(this.echoHistoryPos + tap + 1) & 7];
+            sum += (sample * signed8(this.registers[(tap << 4) | REG_FIR])) >> 6;
+        }
+        sum = wrap16(sum);
+        sum += (history[this.echoHistoryPos] * signed8(this.registers[0x70 | REG_FIR])) >> 6;
+        return clamp16(sum);
+    }
+
+    private read16(address: number): number {
+        return this.aram[address & 0xFFFF] | (this.aram[(address + 1) & 0xFFFF] << 8);
+    }
+
+    private write16(address: number, value: number): void {
+        this.aram[address & 0xFFFF] = value & 0xFF;
+        this.aram[(address + 1) & 0xFFFF] = (value >> 8) & 0xFF;
+    }
+}
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DSP1 } from './dsp1';
+
+// Known command results. Entries run in order on one chip, so an Attitude
+// entry sets up the matrix for the entries after it.
+const COMMAND_TESTS: { name: string; command: number; input: number[]; output: number[] }[] = [
+    { name: 'Multiply 0.5 × 0.5', command: 0x00, input: [0x4000, 0x4000], output: [0x2000] },
+    { name: 'Multiply (rounded up)', command: 0x20, input: [0x4000, 0x4000], output: [0x2001] },
+    { name: 'Inverse of 0', command: 0x10, input: [0x0000, 0x0000], output: [0x7FFF, 0x002F] },
+    { name: 'Inverse of 0.5', command: 0x10, input: [0x4000, 0x0000], output: [0x7FFF, 0x0001] },
+    { name: 'Inverse of -0.5', command: 0x10, input: [0xC000, 0x0000], output: [0xC000, 0x0002] },
+    { name: 'Inverse of 0.75', command: 0x10, input: [0x6000, 0x0000], output: [0x5555, 0x0001] },
+    { name: 'Inverse of 0.25 (normalised)', command: 0x10, input: [0x2000, 0x0000], output: [0x7FFF, 0x0002] },
+    { name: 'Triangle at 90°', command: 0x04, input: [0x4000, 0x1000], output: [0x0FFF, 0x0000] },
+    { name: 'Triangle at 0°', command: 0x04, input: [0x0000, 0x1000], output: [0x0000, 0x0FFF] },
+    { name: 'Radius', command: 0x08, input: [0x0100, 0x0100, 0x0100], output: [0x0000, 0x0006] },
+    { name: 'Range', command: 0x18, input: [0x4000, 0x0000, 0x0000, 0x0000], output: [0x2000] },
+    { name: 'Range (rounded up)', command: 0x38, input: [0x4000, 0x0000, 0x0000, 0x0000], output: [0x2001] },
+    { name: 'Distance', command: 0x28, input: [0x0003, 0x0004, 0x0000], output: [0x0005] },
+    { name: 'Rotate by 90°', command: 0x0C, input: [0x4000, 0x0100, 0x0000], output: [0x0000, 0xFF01] },
+    { name: 'Polar with no rotation', command: 0x1C, input: [0x0000, 0x0000, 0x0000, 0x0100, 0x0200, 0x0300], output: [0x00FE, 0x01FE, 0x02FE] },
+    { name: 'Attitude A, identity at scale 0.5', command: 0x01, input: [0x4000, 0x0000, 0x0000, 0x0000], output: [] },
+    { name: 'Objective A', command: 0x0D, input: [0x1000, 0x1000, 0x1000], output: [0x03FF, 0x03FF, 0x03FF] },
+    { name: 'Subjective A', command: 0x03, input: [0x1000, 0x2000, 0x0000], output: [0x03FF, 0x07FF, 0x0000] },
+    { name: 'Scalar A', command: 0x0B, input: [0x1000, 0x0000, 0x0000], output: [0x03FF] },
+    { name: 'Gyrate with no rotation', command: 0x14, input: [0x0100, 0x0200, 0x0300, 0x0000, 0x0000, 0x0000], output: [0x0100, 0x0200, 0x0300] },
+    { name: 'Memory test', command: 0x0F, input: [0x0000], output: [0x0000] },
+    { name: 'Memory size', command: 0x2F, input: [0x0000], output: [0x0100] }
+];
+
+const dsp = new DSP1();
+
+// Sends the command byte and its 16-bit inputs low byte first, then reads
+// back as many words as expected
+function runCommand(command: number, input: number[], outputWords: number): number[] {
+    dsp.writeData(command);
+    for (const word of input) {
+        dsp.writeData(word & 0xFF);
+        dsp.writeData(word >> 8);
+    }
+    return Array.from({ length: outputWords }, () => dsp.readData() | (dsp.readData() << 8));
+}
+
+for (const { name, command, input, output } of COMMAND_TESTS) {
+    test(name, () => {
+        assert.deepEqual(runCommand(command, input, output.length), output);
+    });
+}
@@ -0,0 +1,467 @@
+import { BusHandler, CartridgeBus, HiROMMapper, LoROMMapper } from './mappers';
+
+// Status register: RQM (bit 7) is always set, as commands finish instantly here
+const STATUS_READY = 0x80;
+
+// Angles are 16-bit fractions of a full turn
+const ANGLE_TO_RADIANS = Math.PI / 0x8000;
+
+// Number of 16-bit parameters by command byte; aliases share a count
+const INPUT_COUNTS: Record<number, number> = {};
+function defineCommand(opcodes: number[], inputs: number): void {
+    for (const opcode of opcodes) INPUT_COUNTS[opcode] = inputs;
+}
+defineCommand([0x00, 0x20], 2);                      // Multiply
+defineCommand([0x10, 0x30], 2);                      // Inverse
+defineCommand([0x04, 0x24], 2);                      // Triangle
+defineCommand([0x08], 3);                            // Radius
+defineCommand([0x18, 0x38], 4);                      // Range
+defineCommand([0x28], 3);                            // Distance
+defineCommand([0x0C, 0x2C], 3);                      // Rotate
+defineCommand([0x1C, 0x3C], 6);                      // Polar
+defineCommand([0x02, 0x12, 0x22, 0x32], 7);          // Parameter
+defineCommand([0x0A, 0x1A, 0x2A, 0x3A], 1);          // Raster
+defineCommand([0x06, 0x16, 0x26, 0x36], 3);          // Project
+defineCommand([0x0E, 0x1E, 0x2E, 0x3E], 2);          // Target
+defineCommand([0x01, 0x05, 0x31, 0x35, 0x11, 0x15, 0x21, 0x25], 4); // Attitude A/B/C
+defineCommand([0x09, 0x0D, 0x39, 0x3D, 0x19, 0x1D, 0x29, 0x2D], 3); // Objective A/B/C
+defineCommand([0x03, 0x33, 0x13, 0x23], 3);          // Subjective A/B/C
+defineCommand([0x0B, 0x3B, 0x1B, 0x2B], 3);          // Scalar A/B/C
+defineCommand([0x14, 0x34], 6);                      // Gyrate
+defineCommand([0x07, 0x0F], 1);                      // Memory test
+defineCommand([0x27, 0x2F], 1);                      // Memory size
+defineCommand([0x17, 0x37, 0x3F, 0x1F], 1);          // Memory dump
+
+function toSigned(value: number): number {
+    return (value << 16) >> 16;
+}
+
+function saturate(value: number): number {
+    return Math.max(-0x8000, Math.min(0x7FFF, Math.trunc(value)));
+}
+
+// Sine and cosine as signed 1.15 fractions
+function sin(angle: number): number {
+    return saturate(Math.round(Math.sin(angle * ANGLE_TO_RADIANS) * 0x7FFF));
+}
+
+function cos(angle: number): number {
+    return saturate(Math.round(Math.cos(angle * ANGLE_TO_RADIANS) * 0x7FFF));
+}
+
+/**
+ * High-level emulation of the NEC µPD77C25 programmed as the DSP-1. The SNES
+ * writes a command byte and its 16-bit parameters (low byte first) to the data
+ * register, then reads the results back from it. Fixed-point commands follow
+ * the chip's arithmetic; the projection commands (Parameter, Raster, Project,
+ * Target) are computed in floating point from the same camera model.
+ */
+export class DSP1 {
+    private command: number = -1; // -1 while waiting for a command byte
+    private input: number[] = [];
+    private inputCount: number = 0;
+    private lowByte: number | null = null;
+    private output: number[] = [];
+    private outputIndex: number = 0;
+    private outputHighByte: boolean = false;
+
+    // Attitude matrices A, B and C, each 3×3 in 1.15
+    private matrices: number[][][] = [0, 1, 2].map(() => [[0, 0, 0], [0, 0, 0], [0, 0, 0]]);
+
+    // Camera set up by Parameter
+    private viewer = [0, 0, 0];   // Viewpoint
+    private forward = [0, 0, -1]; // Line of sight
+    private right = [1, 0, 0];    // Screen X axis
+    private down = [0, 1, 0];     // Screen Y axis
+    private screenDistance: number = 0;
+    private azimuth: number = 0;
+    private zenith: number = 0;
+    private rasterLine: number = 0;
+
+    reset(): void {
+        this.command = -1;
+        this.input = [];
+        this.lowByte = null;
+        this.output = [];
+        this.outputIndex = 0;
+        this.outputHighByte = false;
+    }
+
+    readStatus(): number {
+        return STATUS_READY;
+    }
+
+    readData(): number {
+        if (this.outputIndex >= this.output.length) return 0xFF;
+
+        const word = this.output[this.outputIndex];
+        if (!this.outputHighByte) {
+            this.outputHighByte = true;
+            return word & 0xFF;
+        }
+
+        this.outputHighByte = false;
+        this.outputIndex++;
+        if (this.outputIndex >= this.output.length) {
+            if (this.isRaster(this.command)) {
+                // Raster keeps producing the next line until a new command arrives
+                this.rasterLine = (this.rasterLine + 1) & 0xFFFF;
+                this.output = this.raster(this.rasterLine);
+                this.outputIndex = 0;
+            } else {
+                this.command = -1;
+            }
+        }
+        return (word >> 8) & 0xFF;
+    }
+
+    writeData(value: number): void {
+        value &= 0xFF;
+
+        if (this.command < 0 || this.outputIndex < this.output.length) {
+            // A write while results are pending abandons them and starts a new command
+            this.startCommand(value);
+            return;
+        }
+
+        if (this.lowByte === null) {
+            this.lowByte = value;
+            return;
+        }
+        this.input.push(this.lowByte | (value << 8));
+        this.lowByte = null;
+        if (this.input.length >= this.inputCount) {
+            this.finishCommand();
+        }
+    }
+
+    private isRaster(command: number): boolean {
+        return (command & 0x0F) === 0x0A;
+    }
+
+    private startCommand(command: number): void {
+        this.output = [];
+        this.outputIndex = 0;
+        this.outputHighByte = false;
+        this.input = [];
+        this.lowByte = null;
+
+        // Bytes that aren't commands (e.g. $80 sent to resynchronise) are ignored
+        if ((command & 0xC0) !== 0 || !(command in INPUT_COUNTS)) {
+            this.command = -1;
+            return;
+        }
+        this.command = command;
+        this.inputCount = INPUT_COUNTS[command];
+    }
+
+    private finishCommand(): void {
+        const command = this.command;
+        const result = this.execute(command, this.input.map(toSigned));
+        this.output = result.map(word => word & 0xFFFF);
+        this.outputIndex = 0;
+        this.outputHighByte = false;
+        this.input = [];
+        // Commands without results (Attitude) are ready for the next one at once
+        if (this.output.length === 0) this.command = -1;
+    }
+
+    private execute(command: number, input: number[]): number[] {
+        switch (command) {
+            case 0x00: // Multiply
+                return [(input[0] * input[1]) >> 15];
+            case 0x20: // Multiply, rounded up
+                return [((input[0] * input[1]) >> 15) + 1];
+            case 0x10: case 0x30: // Inverse
+                return this.inverse(input[0], input[1]);
+            case 0x04: case 0x24: // Triangle
+                return [(sin(input[0]) * input[1]) >> 15, (cos(input[0]) * input[1]) >> 15];
+            case 0x08: { // Radius: X² + Y² + Z² as 32 bits
+                const size = (input[0] * input[0] + input[1] * input[1] + input[2] * input[2]) * 2;
+                return [size & 0xFFFF, (size >>> 16) & 0xFFFF];
+            }
+            case 0x18: // Range
+                return [this.range(input)];
+            case 0x38: // Range, rounded up
+                return [this.range(input) + 1];
+            case 0x28: // Distance
+                return [saturate(Math.sqrt(input[0] * input[0] + input[1] * input[1] + input[2] * input[2]))];
+            case 0x0C: case 0x2C: // Rotate
+                return this.rotate(input[0], input[1], input[2]);
+            case 0x1C: case 0x3C: // Polar
+                return this.polar(input);
+            case 0x02: case 0x12: case 0x22: case 0x32: // Parameter
+                return this.parameter(input);
+            case 0x0A: case 0x1A: case 0x2A: case 0x3A: // Raster
+                this.rasterLine = input[0] & 0xFFFF;
+                return this.raster(this.rasterLine);
+            case 0x06: case 0x16: case 0x26: case 0x36: // Project
+                return this.project(input[0], input[1], input[2]);
+            case 0x0E: case 0x1E: case 0x2E: case 0x3E: // Target
+                return this.target(input[0], input[1]);
+            case 0x01: case 0x05: case 0x31: case 0x35: // Attitude A
+                this.attitude(0, input);
+                return [];
+            case 0x11: case 0x15: // Attitude B
+                this.attitude(1, input);
+                return [];
+            case 0x21: case 0x25: // Attitude C
+                this.attitude(2, input);
+                return [];
+            case 0x09: case 0x0D: case 0x39: case 0x3D: // Objective A
+                return this.objective(0, input);
+            case 0x19: case 0x1D: // Objective B
+                return this.objective(1, input);
+            case 0x29: case 0x2D: // Objective C
+                return this.objective(2, input);
+            case 0x03: case 0x33: // Subjective A
+                return this.subjective(0, input);
+            case 0x13: // Subjective B
+                return this.subjective(1, input);
+            case 0x23: // Subjective C
+                return this.subjective(2, input);
+            case 0x0B: case 0x3B: // Scalar A
+                return this.scalar(0, input);
+            case 0x1B: // Scalar B
+                return this.scalar(1, input);
+            case 0x2B: // Scalar C
+                return this.scalar(2, input);
+            case 0x14: case 0x34: // Gyrate
+                return this.gyrate(input);
+            case 0x07: case 0x0F: // Memory test: no faults
+                return [0x0000];
+            case 0x27: case 0x2F: // Memory size
+                return [0x0100];
+            default: // Memory dump: the data ROM isn't included, so it reads as zeros
+                return new Array(1024).fill(0);
+        }
+    }
+
+    // 1 / (coefficient × 2^exponent) as a normalised coefficient and exponent
+    private inverse(coefficient: number, exponent: number): number[] {
+        if (coefficient === 0) return [0x7FFF, 0x002F];
+
+        let sign = 1;
+        if (coefficient < 0) {
+            coefficient = Math.min(-coefficient, 0x7FFF);
+            sign = -1;
+        }
+        while (coefficient < 0x4000) {
+            coefficient <<= 1;
+            exponent--;
+        }
+
+        let result: number;
+        if (coefficient === 0x4000) {
+            // 1 / 0.5 is 2.0, which only fits as 1.0 × 2^1 when negative
+            if (sign === 1) {
+                result = 0x7FFF;
+            } else {
+                result = -0x4000;
+                exponent--;
+            }
+        } else {
+            result = sign * Math.min(0x7FFF, Math.floor(0x20000000 / coefficient));
+        }
+        return [result, 1 - exponent];
+    }
+
+    // X² + Y² + Z² - R², which can exceed 32 bits before the shift
+    private range([x, y, z, r]: number[]): number {
+        return Math.floor((x * x + y * y + z * z - r * r) / 0x8000);
+    }
+
+    private rotate(angle: number, x: number, y: number): number[] {
+        return [
+            ((y * sin(angle)) >> 15) + ((x * cos(angle)) >> 15),
+            ((y * cos(angle)) >> 15) - ((x * sin(angle)) >> 15)
+        ];
+    }
+
+    // Rotates (X, Y, Z) about the Z, then Y, then X axes
+    private polar(input: number[]): number[] {
+        const [az, ay, ax] = input;
+        let [x, y, z] = [input[3], input[4], input[5]];
+
+        [x, y] = [((y * sin(az)) >> 15) + ((x * cos(az)) >> 15), ((y * cos(az)) >> 15) - ((x * sin(az)) >> 15)];
+        [z, x] = [((x * sin(ay)) >> 15) + ((z * cos(ay)) >> 15), ((x * cos(ay)) >> 15) - ((z * sin(ay)) >> 15)];
+        [y, z] = [((z * sin(ax)) >> 15) + ((y * cos(ax)) >> 15), ((z * cos(ax)) >> 15) - ((y * sin(ax)) >> 15)];
+        return [x, y, z];
+    }
+
+    // Builds a rotation matrix scaled by M from angles about Z, Y and X
+    private attitude(index: number, input: number[]): void {
+        const m = input[0] >> 1;
+        const [sinZ, cosZ] = [sin(input[1]), cos(input[1])];
+        const [sinY, cosY] = [sin(input[2]), cos(input[2])];
+        const [sinX, cosX] = [sin(input[3]), cos(input[3])];
+        const matrix = this.matrices[index];
+
+        matrix[0][0] = (((m * cosZ) >> 15) * cosY) >> 15;
+        matrix[0][1] = -((((m * sinZ) >> 15) * cosY) >> 15);
+        matrix[0][2] = (m * sinY) >> 15;
+        matrix[1][0] = ((((m * sinZ) >> 15) * cosX) >> 15) + ((((((m * cosZ) >> 15) * sinX) >> 15) * sinY) >> 15);
+        matrix[1][1] = ((((m * cosZ) >> 15) * cosX) >> 15) - ((((((m * sinZ) >> 15) * sinX) >> 15) * sinY) >> 15);
+        matrix[1][2] = -((((m * sinX) >> 15) * cosY) >> 15);
+        matrix[2][0] = ((((m * sinZ) >> 15) * sinX) >> 15) - ((((((m * cosZ) >> 15) * cosX) >> 15) * sinY) >> 15);
+        matrix[2][1] = ((((m * cosZ) >> 15) * sinX) >> 15) + ((((((m * sinZ) >> 15) * cosX) >> 15) * sinY) >> 15);
+        matrix[2][2] = (((m * cosX) >> 15) * cosY) >> 15;
+    }
+
+    // Global (X, Y, Z) into the object's (F, L, U)
+    private objective(index: number, [x, y, z]: number[]): number[] {
+        const matrix = this.matrices[index];
+        return matrix.map(row => ((x * row[0]) >> 15) + ((y * row[1]) >> 15) + ((z * row[2]) >> 15));
+    }
+
+    // The object's (F, L, U) into global (X, Y, Z)
+    private subjective(index: number, [f, l, u]: number[]): number[] {
+        const matrix = this.matrices[index];
+        return [0, 1, 2].map(column =>
+            ((f * matrix[0][column]) >> 15) + ((l * matrix[1][column]) >> 15) + ((u * matrix[2][column]) >> 15));
+    }
+
+    // Inner product of (X, Y, Z) with the matrix's first row
+    private scalar(index: number, [x, y, z]: number[]): number[] {
+        const row = this.matrices[index][0];
+        return [(x * row[0] + y * row[1] + z * row[2]) >> 15];
+    }
+
+    // New attitude angles after turning by (U, F, L) about the object's own axes
+    private gyrate(input: number[]): number[] {
+        const [zr, xr, yr, u, f, l] = input;
+        const x = xr * ANGLE_TO_RADIANS;
+        const y = yr * ANGLE_TO_RADIANS;
+        const turn = u * Math.cos(y) - f * Math.sin(y);
+        const pitch = u * Math.cos(y) + f * Math.sin(y);
+        return [
+            Math.round(zr + turn / Math.cos(x)),
+            Math.round(xr + u * Math.sin(y) + f * Math.cos(y)),
+            Math.round(yr - Math.tan(x) * pitch + l)
+        ];
+    }
+
+    // --- Projection ---
+
+    // Sets up the camera: it sits Lfe from the fixation point F, looking along
+    // azimuth Aas (about Z) and zenith Azs (from straight down), with the
+    // screen Les in front of it. Returns Vof, Vva, Cx and Cy.
+    private parameter(input: number[]): number[] {
+        const [fx, fy, fz, lfe, les, aas, azs] = input;
+        const a = aas * ANGLE_TO_RADIANS;
+        const z = azs * ANGLE_TO_RADIANS;
+
+        this.azimuth = a;
+        this.zenith = z;
+        this.screenDistance = les;
+        this.forward = [Math.sin(z) * Math.sin(a), -Math.sin(z) * Math.cos(a), -Math.cos(z)];
+        this.right = [Math.cos(a), Math.sin(a), 0];
+        this.down = [-Math.cos(z) * Math.sin(a), Math.cos(z) * Math.cos(a), -Math.sin(z)];
+        this.viewer = [fx - this.forward[0] * lfe, fy - this.forward[1] * lfe, fz - this.forward[2] * lfe];
+
+        // Raster line of the horizon: where a ray parallel to the ground meets the screen
+        const vanishingPoint = Math.sin(z) === 0 ? -0x8000 : saturate(-les * Math.cos(z) / Math.sin(z));
+        const [cx, cy] = this.target(0, 0);
+        return [0, vanishingPoint, cx, cy];
+    }
+
+    // Mode 7 matrix (A, B, C, D in 8.8) for the ground seen on raster line Vs
+    private raster(line: number): number[] {
+        const vs = toSigned(line);
+        const depth = Math.cos(this.zenith) * this.screenDistance + Math.sin(this.zenith) * vs;
+        if (depth <= 0) return [0, 0, 0, 0];
+
+        // Ground units per pixel across the line, and per line down the screen
+        const horizontal = this.viewer[2] / depth;
+        const vertical = Math.cos(this.zenith) === 0 ? 0x7FFF : horizontal / Math.cos(this.zenith);
+        return [
+            saturate(horizontal * Math.cos(this.azimuth) * 0x100),
+            saturate(-vertical * Math.sin(this.azimuth) * 0x100),
+            saturate(horizontal * Math.sin(this.azimuth) * 0x100),
+            saturate(vertical * Math.cos(this.azimuth) * 0x100)
+        ];
+    }
+
+    // Screen position (H, V) of a point, and its scale M (1.0 = $0100)
+    private project(x: number, y: number, z: number): number[] {
+        const relative = [x - this.viewer[0], y - this.viewer[1], z - this.viewer[2]];
+        const depth = dot(relative, this.forward);
+        if (depth <= 0) return [-0x8000, -0x8000, 0];
+
+        const scale = this.screenDistance / depth;
+        return [
+            saturate(dot(relative, this.right) * scale),
+            saturate(dot(relative, this.down) * scale),
+            saturate(scale * 0x100)
+        ];
+    }
+
+    // Ground position (X, Y) seen at screen position (H, V)
+    private target(h: number, v: number): number[] {
+        const ray = [0, 1, 2].map(i => this.forward[i] * this.screenDistance + this.right[i] * h + this.down[i] * v);
+        if (ray[2] >= 0) return [-0x8000, -0x8000];
+
+        const distance = -this.viewer[2] / ray[2];
+        return [saturate(this.viewer[0] + ray[0] * distance), saturate(this.viewer[1] + ray[1] * distance)];
+    }
+}
+
+function dot(a: number[], b: number[]): number {
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+// Register window for a board, with the status register on the addresses
+// where statusBit is set
+function dsp1Handler(dsp: DSP1, statusBit: number): BusHandler {
+    return {
+        read8: (address) => (address & statusBit) ? dsp.readStatus() : dsp.readData(),
+        write8: (address, value) => {
+            if (!(address & statusBit)) dsp.writeData(value);
+        }
+    };
+}
+
+// LoROM boards with a DSP-1: data at $8000-$BFFF and status at $C000-$FFFF of
+// $30-$3F/$B0-$BF, or for ROMs over 1MB at $0000-$3FFF/$4000-$7FFF of $60-$6F/$E0-$EF
+export class DSP1LoROMMapper extends LoROMMapper {
+    readonly name: string = 'LoROM DSP-1';
+    readonly coprocessor: string | null = 'DSP-1';
+
+    private dsp = new DSP1();
+
+    map(bus: CartridgeBus): void {
+        super.map(bus);
+        const handler = dsp1Handler(this.dsp, 0x4000);
+        if (this.rom.length > 0x100000) {
+            bus.mapHandler(0x60, 0x6F, 0x0000, 0x7FFF, handler);
+            bus.mapHandler(0xE0, 0xEF, 0x0000, 0x7FFF, handler);
+        } else {
+            bus.mapHandler(0x30, 0x3F, 0x8000, 0xFFFF, handler);
+            bus.mapHandler(0xB0, 0xBF, 0x8000, 0xFFFF, handler);
+        }
+    }
+
+    reset(): void {
+        this.dsp.reset();
+    }
+}
+
+// HiROM boards with a DSP-1: data at $6000-$6FFF and status at $7000-$7FFF of
+// $00-$1F/$80-$9F
+export class DSP1HiROMMapper extends HiROMMapper {
+    readonly name: string = 'HiROM DSP-1';
+    readonly coprocessor: string | null = 'DSP-1';
+
+    private dsp = new DSP1();
+
+    map(bus: CartridgeBus): void {
+        super.map(bus);
+        const handler = dsp1Handler(this.dsp, 0x1000);
+        bus.mapHandler(0x00, 0x1F, 0x6000, 0x7FFF, handler);
+        bus.mapHandler(0x80, 0x9F, 0x6000, 0x7FFF, handler);
+    }
+
+    reset(): void {
+        this.dsp.reset();
+    }
+}
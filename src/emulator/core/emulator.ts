@@ -2,7 +2,9 @@ import { Memory } from './memory';
 import { CPU } from './cpu';
 import { PPU } from './ppu';
 import { APU } from './apu';
-import { MemoryBus } from './memoryBus';
+import { AudioRingBuffer } from './audioRingBuffer';
+import { DMA } from './dma';
+import { ControllerPorts, SNESButton, AUTO_JOYPAD_CYCLES, PeripheralType, SuperScopeButtons } from './controller';
 
 // --- START CPU State Interface ---
 interface CPUState {
@@ -21,19 +23,28 @@ interface CPUState {
 // --- END CPU State Interface ---
 
 // Constants
-const CYCLES_PER_FRAME = 536182; // SNES master cycles per frame (NTSC: ~60Hz)
+const CYCLES_PER_FRAME = 357368; // SNES master cycles per frame (NTSC: 1364 x 262)
 const FRAME_TIME = 1000 / 60; // Target frame time in milliseconds (60 FPS)
 const CYCLES_PER_SCANLINE = 1364;
 const TOTAL_SCANLINES = 262;
 const VBLANK_START_SCANLINE = 225;
 const VBLANK_DURATION_CYCLES = 1364; // Assuming VBLANK_DURATION_CYCLES is defined
+const MASTER_CYCLES_PER_DOT = 4;
+const HBLANK_START_CYCLE = 274 * MASTER_CYCLES_PER_DOT; // H-blank begins at dot 274
+
+// Audio output
+const AUDIO_RING_FRAMES = 8192; // Capacity of the ring shared with the worklet
+const AUDIO_TARGET_LATENCY = 0.05; // Seconds of audio to keep buffered
+const AUDIO_MAX_RATE_DELTA = 0.005; // Largest resampling ratio change (0.5%) used to steer latency
+const AUDIO_CHUNK_FRAMES = 2048; // Most output frames pushed per emulated frame
 
 export class Emulator {
     private memory: Memory;
     private cpu: CPU;
     private ppu: PPU;
     private apu: APU;
-    private memoryBus: MemoryBus;
+    private dma: DMA;
+    private controllers: ControllerPorts;
     private isRunning: boolean = false;
     private romLoaded: boolean = false;
     private frameCount: number = 0;
@@ -45,14 +56,29 @@ export class Emulator {
     
     // V-Blank related state
     private currentScanline: number = 0;
+    private scanlineCycle: number = 0; // Master cycles elapsed in the current scanline
+    private stallCycles: number = 0;   // Master cycles the CPU still has to sit out for DMA
     private isInVBlank: boolean = false;
+    private isInHBlank: boolean = false;
     private nmiEnabled: boolean = false;
-    private hvbJoyReadRequested: boolean = false; // Status for 0x4212
+    private autoJoypadStart: number = -1; // totalCycles when the last auto-joypad read began
+    private timerIRQFlag: boolean = false; // TIMEUP ($4211) bit 7
+    private cartridgeIRQ: boolean = false; // IRQ line driven by the cartridge
+
+    // Points in the current scanline (master cycles) where something happens
+    // mid-line, in order; runCPUUntil stops the CPU at each one
+    private lineEvents: { cycle: number; kind: 'timer' | 'lightgun'; fire: () => void }[] = [];
 
     // Web Audio API components
     private audioContext: AudioContext | null = null;
-    private scriptNode: ScriptProcessorNode | null = null;
-    private audioBufferSize: number = 2048; // Adjust based on performance needs
+    private audioNode: AudioWorkletNode | null = null;
+    private audioRing: AudioRingBuffer | null = null; // Null when samples go over the worklet's message port
+    private audioInitPromise: Promise<void> | null = null;
+    private audioChunkL: Float32Array = new Float32Array(AUDIO_CHUNK_FRAMES);
+    private audioChunkR: Float32Array = new Float32Array(AUDIO_CHUNK_FRAMES);
+    private audioRateAdjust: number = 1;
+    // Worklet-side counters, reported over the message port when there's no shared ring
+    private audioPortStats = { bufferedFrames: 0, underruns: 0, overruns: 0 };
 
     // Emergency mode to handle problematic ROMs
     private emergencyModeEnabled: boolean = false;
@@ -64,10 +90,13 @@ export class Emulator {
         this.cpu = new CPU(this.memory);
         this.ppu = new PPU(this.memory);
         this.apu = new APU();
-        this.memoryBus = new MemoryBus(this.memory, this.ppu, this.apu);
+        this.dma = new DMA(this.memory);
+        this.controllers = new ControllerPorts();
 
         this.memory.setPPU(this.ppu);
         this.memory.setAPU(this.apu);
+        this.memory.setDMA(this.dma);
+        this.memory.setControllers(this.controllers);
         this.memory.setEmulator(this);
 
         this.canvas = null;
@@ -93,11 +122,24 @@ export class Emulator {
         this.memory.reset();
         this.ppu.reset();
         this.apu.reset();
+        this.dma.reset();
+        this.controllers.reset();
+        this.cpu.reset(); // Fetches the reset vector, so it must follow memory setup
         this.frameCount = 0;
         this.totalCycles = 0;
         this.cyclesSinceLastRender = 0;
+        this.currentScanline = 0;
+        this.scanlineCycle = 0;
+        this.stallCycles = 0;
+        this.isInVBlank = false;
+        this.isInHBlank = false;
+        this.nmiEnabled = false;
+        this.autoJoypadStart = -1;
+        this.timerIRQFlag = false;
+        this.cartridgeIRQ = false;
+        this.updateIRQLine();
+        this.lineEvents = [];
         this.isRunning = false;
-        this.romLoaded = false;
         this.lastLoopTime = 0;
         if (this.timeoutId !== null) {
             clearTimeout(this.timeoutId);
@@ -113,13 +155,12 @@ export class Emulator {
         }
         
         console.debug(`[DEBUG] Loading ROM data (${romData.length} bytes)`);
+        this.stop();
         this.memory.loadROM(romData);
         
-        // Initialize memory bus with the ROM data for proper address mapping
-        this.memoryBus.initialize(romData);
-        
-        this.romLoaded = true;
+        // Reset after the cartridge is in place so the CPU boots from its reset vector
         this.reset();
+        this.romLoaded = true;
         
         // Call validation and analyze ROM
         this.validateROMHeader();
@@ -154,23 +195,18 @@ export class Emulator {
             return;
         }
 
+        const frameStart = performance.now();
+
         try {
-            // Limit CPU usage by using fixed frame timing
-            const cyclesPerFrame = 40000; // Approximate SNES cycles per frame 
-            
-            // Run CPU for a batch of cycles
-            for (let i = 0; i < 100 && this.isRunning; i++) {
-                this.cpu.step();
-            }
+            this.runFrame();
+            this.pushAudio();
             
             // Update frame counter and render
             this.frameCount++;
             
-            // Render frame (either emergency or normal)
+            // Normal frames are pushed by the scheduler at V-blank
             if (this.emergencyModeEnabled) {
                 this.renderEmergencyGraphics();
-            } else {
-                this.renderFrame();
             }
             
         } catch (e) {
@@ -178,9 +214,10 @@ export class Emulator {
             this.emergencyModeEnabled = true; // Enable emergency mode on exception
         }
         
-        // Use requestAnimationFrame to limit to display refresh rate
+        // Schedule the next frame so emulated frames are paced at ~60fps
         if (this.isRunning) {
-            this.timeoutId = setTimeout(() => this.runLoop(), 16); // ~60fps
+            const elapsed = performance.now() - frameStart;
+            this.timeoutId = setTimeout(() => this.runLoop(), Math.max(0, FRAME_TIME - elapsed));
         }
         
         // Less logging to reduce browser load
@@ -189,6 +226,179 @@ export class Emulator {
         }
     }
     
+    // Runs exactly one frame: 262 scanlines of master-clock time
+    private runFrame(): void {
+        for (let line = 0; line < TOTAL_SCANLINES && this.isRunning; line++) {
+            this.runScanline(line);
+        }
+    }
+
+    // Runs one scanline, splitting it at the start of H-blank. CPU overshoot past the
+    // end of the line carries over into the next one.
+    private runScanline(line: number): void {
+        this.currentScanline = line;
+        this.startScanline(line);
+
+        this.scheduleLineEvents(line);
+
+        this.runCPUUntil(HBLANK_START_CYCLE);
+        this.isInHBlank = true;
+        if (line < VBLANK_START_SCANLINE) {
+            // The line is drawn before HDMA updates registers for the next one
+            this.ppu.renderScanline(line);
+            this.stallCPU(this.dma.runHDMA());
+        }
+        this.runCPUUntil(CYCLES_PER_SCANLINE);
+        this.isInHBlank = false;
+
+        this.scanlineCycle -= CYCLES_PER_SCANLINE;
+    }
+
+    // Per-line events that happen at dot 0
+    private startScanline(line: number): void {
+        if (line === 0) {
+            // V-blank ends and the NMI flag drops at the start of a new frame
+            this.isInVBlank = false;
+            this.memory.setVBlankFlag(false);
+            this.dma.initHDMA();
+        } else if (line === VBLANK_START_SCANLINE) {
+            this.isInVBlank = true;
+            this.memory.setVBlankFlag(true);
+            this.ppu.startVBlank();
+            if (!this.emergencyModeEnabled) {
+                this.renderFrame();
+            }
+            if (this.nmiEnabled) {
+                this.cpu.triggerNMI();
+            }
+            if (this.memory.isAutoJoypadEnabled()) {
+                this.controllers.runAutoRead();
+                this.autoJoypadStart = this.totalCycles;
+            }
+        }
+    }
+
+    // Mid-line events for this scanline: the H/V timer IRQ and a light gun
+    // latching the counters as the beam passes its aim point
+    private scheduleLineEvents(line: number): void {
+        this.lineEvents = [];
+
+        const timerCycle = this.getTimerIRQCycle(line);
+        if (timerCycle >= 0) {
+            this.lineEvents.push({ cycle: timerCycle, kind: 'timer', fire: () => this.raiseTimerIRQ() });
+        }
+
+        const lightGun = this.controllers.getLightGunLatch();
+        if (lightGun && lightGun.line === line) {
+            this.lineEvents.push({
+                cycle: lightGun.dot * MASTER_CYCLES_PER_DOT,
+                kind: 'lightgun',
+                fire: () => {
+                    if (this.memory.isCounterLatchEnabled()) this.latchCounters();
+                }
+            });
+        }
+
+        this.lineEvents.sort((a, b) => a.cycle - b.cycle);
+    }
+
+    // NMITIMEN ($4200) or HTIME/VTIME ($4207-$420A) was written: moves the
+    // timer event for the rest of this line. A position the beam has already
+    // passed waits until it comes round again.
+    rescheduleTimerIRQ(): void {
+        this.lineEvents = this.lineEvents.filter(event => event.kind !== 'timer');
+
+        const timerCycle = this.getTimerIRQCycle(this.currentScanline);
+        if (timerCycle < this.scanlineCycle) return;
+        const index = this.lineEvents.findIndex(event => event.cycle > timerCycle);
+        const event = { cycle: timerCycle, kind: 'timer' as const, fire: () => this.raiseTimerIRQ() };
+        this.lineEvents.splice(index < 0 ? this.lineEvents.length : index, 0, event);
+    }
+
+    // Where in the line the H/V timer fires, or -1. H only: every line at dot
+    // HTIME; V only: dot 0 of line VTIME; both: dot HTIME of line VTIME.
+    private getTimerIRQCycle(line: number): number {
+        const timer = this.memory.getTimerIRQ();
+        if (timer.vEnabled && line !== timer.vTime) return -1;
+        if (timer.hEnabled) {
+            const cycle = timer.hTime * MASTER_CYCLES_PER_DOT;
+            return cycle < CYCLES_PER_SCANLINE ? cycle : -1;
+        }
+        return timer.vEnabled ? 0 : -1;
+    }
+
+    private raiseTimerIRQ(): void {
+        this.timerIRQFlag = true;
+        this.updateIRQLine();
+    }
+
+    // TIMEUP ($4211) read, or NMITIMEN disabling the timer: clears the flag,
+    // releasing the timer's side of the IRQ line. Returns the flag as it was.
+    acknowledgeTimerIRQ(): boolean {
+        const wasSet = this.timerIRQFlag;
+        this.timerIRQFlag = false;
+        this.updateIRQLine();
+        return wasSet;
+    }
+
+    // The CPU's IRQ input is a level: low while either the timer flag or the
+    // cartridge holds it, sampled before each instruction
+    private updateIRQLine(): void {
+        this.cpu.setIRQLine(this.timerIRQFlag || this.cartridgeIRQ);
+    }
+
+    // Advances the CPU to a master-cycle position in the current scanline,
+    // stopping at any line events on the way
+    private runCPUUntil(targetCycle: number): void {
+        while (this.lineEvents.length > 0 && this.lineEvents[0].cycle < targetCycle) {
+            const event = this.lineEvents[0];
+            this.runCPUSlice(event.cycle);
+            // A register write during the slice may have moved the event
+            if (this.lineEvents[0] !== event) continue;
+            this.lineEvents.shift();
+            event.fire();
+        }
+        this.runCPUSlice(targetCycle);
+    }
+
+    // The APU catches up after every instruction so port handshakes see current values
+    private runCPUSlice(targetCycle: number): void {
+        while (this.scanlineCycle < targetCycle) {
+            let cycles: number;
+            if (this.stallCycles > 0) {
+                cycles = Math.min(this.stallCycles, targetCycle - this.scanlineCycle);
+                this.stallCycles -= cycles;
+            } else {
+                cycles = this.isRunning ? this.cpu.step() : 0;
+                if (cycles === 0) {
+                    // CPU not running: time still passes for the rest of the system
+                    cycles = targetCycle - this.scanlineCycle;
+                }
+            }
+            this.scanlineCycle += cycles;
+            this.totalCycles += cycles;
+            this.apu.runCycles(cycles);
+            this.memory.clockCartridge(cycles);
+        }
+    }
+    
+    // Captures the current dot and scanline into OPHCT/OPVCT ($213C/$213D)
+    latchCounters(): void {
+        this.ppu.latchCounters(Math.floor(this.scanlineCycle / MASTER_CYCLES_PER_DOT), this.currentScanline);
+    }
+
+    // IRQ line from the cartridge (coprocessors)
+    setCartridgeIRQ(asserted: boolean): void {
+        this.cartridgeIRQ = asserted;
+        this.updateIRQLine();
+    }
+
+    // Pauses the CPU for DMA; the rest of the system keeps running, across
+    // scanline boundaries if need be
+    stallCPU(cycles: number): void {
+        this.stallCycles += cycles;
+    }
+    
     stop(): void {
         if (this.isRunning) {
             this.isRunning = false;
@@ -202,9 +412,38 @@ export class Emulator {
         }
     }
 
-    setButtonState(button: string, pressed: boolean): void {
-        console.debug(`[DEBUG] Button ${button} ${pressed ? 'pressed' : 'released'}`);
-        // TODO: Link button state with controller input
+    // Presses or releases a button for a player. Players count the pads across
+    // both ports, so with a multitap in port 2 there are five (0-4).
+    setButtonState(button: SNESButton, pressed: boolean, player: number = 0): void {
+        this.controllers.setButton(player, button, pressed);
+    }
+
+    // Plugs a device into controller port 0 or 1
+    setPeripheral(port: number, type: PeripheralType): void {
+        this.controllers.setPeripheral(port, type);
+    }
+
+    getPeripheral(port: number): PeripheralType {
+        return this.controllers.getPeripheralType(port);
+    }
+
+    // SNES Mouse input: relative movement in mouse counts, and its buttons
+    moveMouse(dx: number, dy: number): void {
+        this.controllers.moveMouse(dx, dy);
+    }
+
+    setMouseButtons(left: boolean, right: boolean): void {
+        this.controllers.setMouseButtons(left, right);
+    }
+
+    // Super Scope input: the 256x224 screen position aimed at (null when
+    // pointing off screen), and its buttons
+    aimSuperScope(x: number | null, y: number | null): void {
+        this.controllers.aimSuperScope(x, y);
+    }
+
+    setSuperScopeButtons(buttons: SuperScopeButtons): void {
+        this.controllers.setSuperScopeButtons(buttons);
     }
 
     getState(): { 
@@ -238,6 +477,7 @@ export class Emulator {
         console.info('[ROM_DIAG] ROM Header Diagnostics:');
         console.info(`[ROM_DIAG] Title: ${headerData.title}`);
         console.info(`[ROM_DIAG] Mapping: ${headerData.mappingMode}`);
+        console.info(`[ROM_DIAG] Map Mode: 0x${headerData.mapMode.toString(16)}`);
         console.info(`[ROM_DIAG] ROM Type: ${headerData.romType}`);
         console.info(`[ROM_DIAG] ROM Size: ${headerData.romSize}KB`);
         console.info(`[ROM_DIAG] RAM Size: ${headerData.ramSize}KB`);
@@ -249,8 +489,8 @@ export class Emulator {
         console.info(`[ROM_DIAG] Checksum validation: ${actualSum === 0xFFFF ? 'Valid' : 'Invalid'}`);
         
         // Specific advice based on header issues
-        if (headerData.mappingMode !== 'LoROM' && headerData.mappingMode !== 'HiROM') {
-            console.warn('[ROM_DIAG] Non-standard mapping mode may cause addressing problems');
+        if ((headerData.mapMode & 0xE0) !== 0x20) {
+            console.warn('[ROM_DIAG] Non-standard map mode byte; mapping was guessed from the header location');
         }
         
         if (actualSum !== 0xFFFF) {
@@ -350,15 +590,9 @@ export class Emulator {
         // depending on screen resolution, ROM size, and frame complexity.
     }
 
-    // Button state management integration with actual input:
-    private processControllerInput(): void {
-        // Integrate real controller input logic (e.g., keyboard, gamepad).
-        // Map controller buttons to emulator button state here.
-    }
-
     // --- Audio Handling Methods ---
 
-    private initializeAudio(): void {
+    private async initializeAudio(): Promise<void> {
         if (this.audioContext) return; // Already initialized
 
         try {
@@ -379,52 +613,113 @@ export class Emulator {
                 // For now, we just log it.
             }
 
-            this.scriptNode = this.audioContext.createScriptProcessor(this.audioBufferSize, 0, 2); // 0 input channels, 2 output channels (stereo)
-            this.scriptNode.onaudioprocess = this.handleAudioProcess;
-            console.debug('[DEBUG] Audio initialized. Sample Rate:', this.audioContext.sampleRate, 'Buffer Size:', this.audioBufferSize);
+            await this.audioContext.audioWorklet.addModule('/audio-processor.js');
+
+            // Shared memory needs a cross-origin isolated page; otherwise samples
+            // are posted to the worklet, which keeps its own ring
+            this.audioRing = AudioRingBuffer.isSupported() ? new AudioRingBuffer(AUDIO_RING_FRAMES) : null;
+            this.audioNode = new AudioWorkletNode(this.audioContext, 'snes-audio-processor', {
+                numberOfInputs: 0,
+                outputChannelCount: [2],
+                processorOptions: {
+                    shared: this.audioRing ? this.audioRing.getSharedBuffers() : null,
+                    capacity: AUDIO_RING_FRAMES
+                }
+            });
+            if (!this.audioRing) {
+                this.audioNode.port.onmessage = (event: MessageEvent) => {
+                    if (event.data.type === 'stats') {
+                        this.audioPortStats = {
+                            bufferedFrames: event.data.bufferedFrames,
+                            underruns: event.data.underruns,
+                            overruns: event.data.overruns
+                        };
+                    }
+                };
+            }
+            console.debug('[DEBUG] Audio initialized. Sample Rate:', this.audioContext.sampleRate, 'Shared ring:', this.audioRing !== null);
         } catch (e) {
             console.error('[ERROR] Failed to initialize Web Audio API:', e);
             this.audioContext = null;
-            this.scriptNode = null;
+            this.audioNode = null;
+            this.audioRing = null;
         }
     }
 
-    private handleAudioProcess = (audioProcessingEvent: AudioProcessingEvent): void => {
-        if (!this.apu) return;
+    // Moves the frame's APU output to the worklet. The resampling ratio is nudged
+    // by up to AUDIO_MAX_RATE_DELTA so the buffered latency drifts back to its
+    // target instead of slowly underrunning or overrunning.
+    private pushAudio(): void {
+        if (!this.audioNode || !this.audioContext) return;
 
-        // Get the output buffer pointers
-        const outputBuffer = audioProcessingEvent.outputBuffer;
-        const outputL = outputBuffer.getChannelData(0);
-        const outputR = outputBuffer.getChannelData(1);
+        const sampleRate = this.audioContext.sampleRate;
+        const buffered = this.audioRing ? this.audioRing.availableRead() : this.audioPortStats.bufferedFrames;
+        const target = sampleRate * AUDIO_TARGET_LATENCY;
+        const error = Math.max(-1, Math.min(1, (buffered - target) / target));
+        this.audioRateAdjust = 1 + error * AUDIO_MAX_RATE_DELTA;
 
-        // Ask the APU to fill the buffers with samples
-        this.apu.generateSamples(outputL, outputR);
-    };
+        const count = this.apu.readSamples(this.audioChunkL, this.audioChunkR, sampleRate, this.audioRateAdjust);
+        if (count === 0) return;
 
-    startAudio(): void {
-        this.initializeAudio(); // Ensure audio is initialized
-
-        if (this.scriptNode && this.audioContext) {
-             // Resume context if suspended (important for user interaction requirement)
-             if (this.audioContext.state === 'suspended') {
-                 this.audioContext.resume().then(() => {
-                     console.debug('[DEBUG] AudioContext resumed.');
-                     this.scriptNode?.connect(this.audioContext!.destination);
-                     console.debug('[DEBUG] Audio processing started (after resume).');
-                 }).catch(err => console.error('[ERROR] Failed to resume AudioContext:', err));
-             } else {
-                 this.scriptNode.connect(this.audioContext.destination);
-                 console.debug('[DEBUG] Audio processing started.');
-             }
+        if (this.audioRing) {
+            this.audioRing.write(this.audioChunkL, this.audioChunkR, count);
         } else {
-            console.warn('[WARN] Cannot start audio: Audio components not available.');
+            const samples = new Float32Array(count * 2);
+            for (let i = 0; i < count; i++) {
+                samples[i * 2] = this.audioChunkL[i];
+                samples[i * 2 + 1] = this.audioChunkR[i];
+            }
+            this.audioNode.port.postMessage({ type: 'samples', samples }, [samples.buffer]);
+            // Count the frames as buffered until the worklet's next report
+            this.audioPortStats.bufferedFrames += count;
         }
     }
 
+    getAudioStats(): { bufferedFrames: number, underruns: number, overruns: number, rateAdjust: number } {
+        if (this.audioRing) {
+            return {
+                bufferedFrames: this.audioRing.availableRead(),
+                underruns: this.audioRing.getUnderruns(),
+                overruns: this.audioRing.getOverruns(),
+                rateAdjust: this.audioRateAdjust
+            };
+        }
+        return { ...this.audioPortStats, rateAdjust: this.audioRateAdjust };
+    }
+
+    startAudio(): void {
+        if (!this.audioInitPromise) {
+            this.audioInitPromise = this.initializeAudio(); // Ensure audio is initialized
+        }
+
+        this.audioInitPromise.then(() => {
+            if (!this.audioNode || !this.audioContext) {
+                console.warn('[WARN] Cannot start audio: Audio components not available.');
+                return;
+            }
+            if (!this.isRunning) return; // Stopped while the worklet was loading
+
+            // Samples produced while audio was off would only add latency
+            this.apu.discardSamples();
+
+            // Resume context if suspended (important for user interaction requirement)
+            if (this.audioContext.state === 'suspended') {
+                this.audioContext.resume().then(() => {
+                    console.debug('[DEBUG] AudioContext resumed.');
+                    this.audioNode?.connect(this.audioContext!.destination);
+                    console.debug('[DEBUG] Audio processing started (after resume).');
+                }).catch(err => console.error('[ERROR] Failed to resume AudioContext:', err));
+            } else {
+                this.audioNode.connect(this.audioContext.destination);
+                console.debug('[DEBUG] Audio processing started.');
+            }
+        });
+    }
+
     stopAudio(): void {
-        if (this.scriptNode && this.audioContext) {
+        if (this.audioNode && this.audioContext) {
             try {
-                this.scriptNode.disconnect(); // Disconnect from destination
+                this.audioNode.disconnect(); // Disconnect from destination
                 console.debug('[DEBUG] Audio processing stopped.');
             } catch (e) {
                 // Ignore errors if already disconnected
@@ -440,6 +735,10 @@ export class Emulator {
     }
 
     public setNmiEnabled(enabled: boolean): void {
+        // Enabling NMI while the V-blank NMI flag is still raised fires it immediately
+        if (enabled && !this.nmiEnabled && this.isInVBlank && this.memory.isVBlankFlagSet()) {
+            this.cpu.triggerNMI();
+        }
         this.nmiEnabled = enabled;
         console.debug(`[DEBUG] Emulator: NMI ${enabled ? 'Enabled' : 'Disabled'}`);
     }
@@ -448,6 +747,24 @@ export class Emulator {
         return this.isInVBlank;
     }
 
+    public getIsInHBlank(): boolean {
+        return this.isInHBlank;
+    }
+
+    // HVBJOY bit 0: set while the auto-joypad read is shifting the pads in
+    public isAutoJoypadBusy(): boolean {
+        return this.autoJoypadStart >= 0 && this.totalCycles - this.autoJoypadStart < AUTO_JOYPAD_CYCLES;
+    }
+
+    // Master cycles since reset, the clock for timed hardware such as the math unit
+    public getTotalCycles(): number {
+        return this.totalCycles;
+    }
+
+    public getCurrentScanline(): number {
+        return this.currentScanline;
+    }
+
     public getIsROMLoaded(): boolean {
         return this.romLoaded;
     }
@@ -519,8 +836,8 @@ export class Emulator {
             emergencyModeNeeded = true;
         }
         
-        // Check ROM makeup byte
-        if (headerData.romType > 0x10) {
+        // Check ROM makeup byte; coprocessor boards are fine when the mapper emulates the chip
+        if (headerData.romType > 0x10 && !headerData.coprocessor) {
             console.warn('[EMERGENCY] Unusual ROM type detected');
             emergencyModeNeeded = true;
         }
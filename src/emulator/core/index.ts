@@ -1,4 +1,6 @@
 export * from './cpu';
 export * from './memory';
+export * from './cartridge';
 export * from './ppu';
-export * from './emulator'; 
\ No newline at end of file
+export * from './emulator';
+export * from './controller';
\ No newline at end of file
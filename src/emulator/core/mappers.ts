@@ -0,0 +1,123 @@
+// Device answering reads and writes on a range of bus pages
+export interface BusHandler {
+    read8(address: number): number;
+    write8(address: number, value: number): void;
+}
+
+// A page-mapped address space. Ranges cover banks first-last and, within each
+// bank, addresses start-end (whole 4KB pages).
+export interface PageMap {
+    // offset gives the array index for the first byte of each page; indices past
+    // the end of the array are mirrored back into it
+    mapMemory(first: number, last: number, start: number, end: number, memory: Uint8Array,
+              offset: (bank: number, address: number) => number, writable: boolean): void;
+    mapHandler(first: number, last: number, start: number, end: number, handler: BusHandler): void;
+    // Leaves the pages reading as open bus
+    unmap(first: number, last: number, start: number, end: number): void;
+}
+
+// The parts of the CPU bus a mapper may populate
+export interface CartridgeBus extends PageMap {
+    // Registers at start-end inside the system I/O pages ($2000-$2FFF,
+    // $4000-$4FFF) of banks $00-$3F/$80-$BF; the handler sees 16-bit addresses
+    mapIO(start: number, end: number, handler: BusHandler): void;
+    // Drives the cartridge IRQ line; the main CPU is interrupted while it is
+    // asserted, so the chip must release it once acknowledged
+    setIRQLine(asserted: boolean): void;
+}
+
+// Places a cartridge's ROM and SRAM (and any on-board chips) on the bus. New
+// board types subclass this and are chosen in createMapper (cartridge.ts).
+export abstract class Mapper {
+    abstract readonly name: string;
+    // On-board chip emulated by this mapper, if any
+    readonly coprocessor: string | null = null;
+
+    constructor(protected rom: Uint8Array, protected sram: Uint8Array) {}
+
+    abstract map(bus: CartridgeBus): void;
+
+    // Console reset
+    reset(): void {}
+
+    // Runs on-board chips for the master cycles the CPU just used
+    run(_masterCycles: number): void {}
+
+    protected mapROM(bus: PageMap, first: number, last: number, start: number, end: number): void {
+        bus.mapMemory(first, last, start, end, this.rom, (bank, address) => this.romOffset(bank, address), false);
+    }
+
+    protected mapSRAM(bus: PageMap, first: number, last: number, start: number, end: number): void {
+        if (this.sram.length === 0) return;
+        bus.mapMemory(first, last, start, end, this.sram, (bank, address) => this.sramOffset(bank, address), true);
+    }
+
+    // ROM/SRAM index of the byte at bank:address
+    protected abstract romOffset(bank: number, address: number): number;
+    protected abstract sramOffset(bank: number, address: number): number;
+}
+
+// Mode $20: 32KB ROM banks in the upper half of $00-$7D/$80-$FF, mirrored into
+// the lower half of $40-$6F/$C0-$EF; SRAM in the lower half of $70-$7D/$F0-$FF
+export class LoROMMapper extends Mapper {
+    readonly name: string = 'LoROM';
+
+    map(bus: CartridgeBus): void {
+        this.mapROM(bus, 0x00, 0x7D, 0x8000, 0xFFFF);
+        this.mapROM(bus, 0x80, 0xFF, 0x8000, 0xFFFF);
+        this.mapROM(bus, 0x40, 0x6F, 0x0000, 0x7FFF);
+        this.mapROM(bus, 0xC0, 0xEF, 0x0000, 0x7FFF);
+        this.mapSRAM(bus, 0x70, 0x7D, 0x0000, 0x7FFF);
+        this.mapSRAM(bus, 0xF0, 0xFF, 0x0000, 0x7FFF);
+    }
+
+    protected romOffset(bank: number, address: number): number {
+        return (bank & 0x7F) * 0x8000 + (address & 0x7FFF);
+    }
+
+    protected sramOffset(bank: number, address: number): number {
+        return (bank & 0x0F) * 0x8000 + address;
+    }
+}
+
+// LoROM layout for images over 4MB: $80-$FF see the first 4MB, $00-$7D the rest
+export class ExLoROMMapper extends LoROMMapper {
+    readonly name: string = 'ExLoROM';
+
+    protected romOffset(bank: number, address: number): number {
+        return ((bank & 0x80) ? 0 : 0x400000) + super.romOffset(bank, address);
+    }
+}
+
+// Mode $21: 64KB ROM banks at $40-$7D/$C0-$FF, their upper halves mirrored into
+// $00-$3F/$80-$BF; 8KB SRAM blocks at $6000-$7FFF of $20-$3F/$A0-$BF
+export class HiROMMapper extends Mapper {
+    readonly name: string = 'HiROM';
+
+    map(bus: CartridgeBus): void {
+        this.mapROM(bus, 0x00, 0x3F, 0x8000, 0xFFFF);
+        this.mapROM(bus, 0x80, 0xBF, 0x8000, 0xFFFF);
+        this.mapROM(bus, 0x40, 0x7D, 0x0000, 0xFFFF);
+        this.mapROM(bus, 0xC0, 0xFF, 0x0000, 0xFFFF);
+        this.mapSRAM(bus, 0x20, 0x3F, 0x6000, 0x7FFF);
+        this.mapSRAM(bus, 0xA0, 0xBF, 0x6000, 0x7FFF);
+    }
+
+    protected romOffset(bank: number, address: number): number {
+        return ((bank & 0x3F) << 16) | address;
+    }
+
+    protected sramOffset(bank: number, address: number): number {
+        return (bank & 0x1F) * 0x2000 + (address - 0x6000);
+    }
+}
+
+// Mode $25: HiROM layout for images over 4MB: $C0-$FF (and $80-$BF) see the
+// first 4MB, $40-$7D (and $00-$3F) the rest
+export class ExHiROMMapper extends HiROMMapper {
+    readonly name: string = 'ExHiROM';
+
+    protected romOffset(bank: number, address: number): number {
+        return ((bank & 0x80) ? 0 : 0x400000) + super.romOffset(bank, address);
+    }
+}
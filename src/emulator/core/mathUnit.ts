@@ -0,0 +1,106 @@
+// Master cycles per step of the unit. It advances once per CPU cycle; this is
+// the shortest one, so code waiting the documented 8 (multiply) or 16 (divide)
+// cycles always sees the finished result.
+const STEP_CYCLES = 6;
+
+const MULTIPLY_STEPS = 8;
+const DIVIDE_STEPS = 16;
+
+/**
+ * The CPU's multiply/divide unit (WRMPYA-WRDIVB, $4202-$4206; RDDIV/RDMPY,
+ * $4214-$4217). Both operations are shift-and-add/subtract loops doing one bit
+ * per step, so results read early hold the partial values real hardware shows.
+ * Steps are run lazily against the master clock when a register is touched.
+ */
+export class MathUnit {
+    private multiplicand: number = 0xFF; // WRMPYA
+    private dividend: number = 0xFFFF;   // WRDIVL/WRDIVH
+    private quotient: number = 0;        // RDDIV; also the multiplier shift register
+    private product: number = 0;         // RDMPY; also the remainder
+    private shift: number = 0;
+    private multiplySteps: number = 0;   // Steps left in the running operation
+    private divideSteps: number = 0;
+    private lastStep: number = 0;        // Master cycle the last step was run at
+
+    reset(): void {
+        this.multiplySteps = 0;
+        this.divideSteps = 0;
+        this.lastStep = 0;
+    }
+
+    write(address: number, value: number, now: number): void {
+        this.catchUp(now);
+        switch (address) {
+            case 0x4202: // WRMPYA - Multiplicand
+                this.multiplicand = value;
+                break;
+            case 0x4203: // WRMPYB - Multiplier, starts the multiplication
+                this.product = 0;
+                if (this.isBusy()) break;
+                this.quotient = (value << 8) | this.multiplicand;
+                this.shift = value;
+                this.multiplySteps = MULTIPLY_STEPS;
+                this.lastStep = now;
+                break;
+            case 0x4204: // WRDIVL - Dividend Low
+                this.dividend = (this.dividend & 0xFF00) | value;
+                break;
+            case 0x4205: // WRDIVH - Dividend High
+                this.dividend = (this.dividend & 0x00FF) | (value << 8);
+                break;
+            case 0x4206: // WRDIVB - Divisor, starts the division
+                // Dividing by zero leaves a quotient of $FFFF and the dividend
+                // as the remainder
+                this.product = this.dividend;
+                if (this.isBusy()) break;
+                this.shift = value << 16;
+                this.divideSteps = DIVIDE_STEPS;
+                this.lastStep = now;
+                break;
+        }
+    }
+
+    read(address: number, now: number): number {
+        this.catchUp(now);
+        switch (address) {
+            case 0x4214: return this.quotient & 0xFF;        // RDDIVL
+            case 0x4215: return (this.quotient >> 8) & 0xFF; // RDDIVH
+            case 0x4216: return this.product & 0xFF;         // RDMPYL
+            case 0x4217: return (this.product >> 8) & 0xFF;  // RDMPYH
+            default: return 0;
+        }
+    }
+
+    private isBusy(): boolean {
+        return this.multiplySteps > 0 || this.divideSteps > 0;
+    }
+
+    private catchUp(now: number): void {
+        if (!this.isBusy()) return;
+        let steps = Math.floor((now - this.lastStep) / STEP_CYCLES);
+        this.lastStep += steps * STEP_CYCLES;
+        for (; steps > 0 && this.isBusy(); steps--) {
+            this.step();
+        }
+    }
+
+    private step(): void {
+        if (this.multiplySteps > 0) {
+            // Add the shifted multiplicand for each set multiplier bit
+            this.multiplySteps--;
+            if (this.quotient & 1) this.product = (this.product + this.shift) & 0xFFFF;
+            this.quotient >>= 1;
+            this.shift <<= 1;
+        }
+        if (this.divideSteps > 0) {
+            // Restoring division, one quotient bit per step
+            this.divideSteps--;
+            this.quotient = (this.quotient << 1) & 0xFFFF;
+            this.shift >>>= 1;
+            if (this.product >= this.shift) {
+                this.product -= this.shift;
+                this.quotient |= 1;
+            }
+        }
+    }
+}
@@ -8,10 +8,46 @@ export interface BGSettings {
     characterAddress: number;
 }
 
+const LAYER_OBJ = 4;
+const LAYER_BACKDROP = 5; // Color math enable bit for pixels no layer covers
+const WINDOW_COLOR = 5;   // Window area index of the color window, after BG1-BG4 and OBJ
+
+// Compositing order per BG mode, front to back. Each entry is layer * 4 + priority,
+// where BGs have a 1-bit tile priority and sprites a 2-bit one.
+const BG1 = (priority: number) => 0 * 4 + priority;
+const BG2 = (priority: number) => 1 * 4 + priority;
+const BG3 = (priority: number) => 2 * 4 + priority;
+const BG4 = (priority: number) => 3 * 4 + priority;
+const OBJ = (priority: number) => LAYER_OBJ * 4 + priority;
+
+const PRIORITY_MODE0 = [OBJ(3), BG1(1), BG2(1), OBJ(2), BG1(0), BG2(0), OBJ(1), BG3(1), BG4(1), OBJ(0), BG3(0), BG4(0)];
+const PRIORITY_MODE1 = [OBJ(3), BG1(1), BG2(1), OBJ(2), BG1(0), BG2(0), OBJ(1), BG3(1), OBJ(0), BG3(0)];
+const PRIORITY_MODE1_BG3_HIGH = [BG3(1), OBJ(3), BG1(1), BG2(1), OBJ(2), BG1(0), BG2(0), OBJ(1), OBJ(0), BG3(0)];
+const PRIORITY_MODE2_5 = [OBJ(3), BG1(1), OBJ(2), BG2(1), OBJ(1), BG1(0), OBJ(0), BG2(0)];
+const PRIORITY_MODE6 = [OBJ(3), BG1(1), OBJ(2), OBJ(1), BG1(0), OBJ(0)];
+const PRIORITY_MODE7 = [OBJ(3), OBJ(2), BG2(1), OBJ(1), BG1(0), OBJ(0), BG2(0)]; // BG2 is EXTBG
+
+// M7SEL ($211A) screen over settings: what lies outside the 1024x1024 plane
+const M7_OVER_TRANSPARENT = 2;
+const M7_OVER_TILE0 = 3;
+
+// Mode 7 scroll and center registers are 13-bit signed
+const signed13 = (value: number) => ((value & 0x1FFF) << 19) >> 19;
+
+// STAT77 ($213E) flags
+const OBJ_TIME_OVER = 0x80;
+const OBJ_RANGE_OVER = 0x40;
+const PPU1_VERSION = 0x01;
+
+// STAT78 ($213F) flags
+const COUNTERS_LATCHED = 0x40;
+const PPU2_VERSION = 0x03;
+
 export class PPU {
     // Constants
     private static readonly SCREEN_WIDTH = 256;
     private static readonly SCREEN_HEIGHT = 224;
+    private static readonly HIRES_WIDTH = 512;
     
     // Canvas and rendering context
     public canvasContext: CanvasRenderingContext2D | null = null;
@@ -38,6 +74,9 @@ export class PPU {
     
     // Image data for rendering
     private imageData: ImageData;
+    private hiResImageData: ImageData; // Modes 5 and 6
+    private lineHiRes: Uint8Array = new Uint8Array(224); // Which buffer each line of this frame went to
+    private frameHiRes: boolean = false;
     
     // Background settings
     public bgSettings: BGSettings[] = [
@@ -53,6 +92,81 @@ export class PPU {
     private _vramIncrement: number = 1;
     private _vramIncrementOnHigh: boolean = false;
     
+    // Scroll registers ($210D-$2114) and their shared write-twice latches
+    private bgHScroll: Uint16Array = new Uint16Array(4);
+    private bgVScroll: Uint16Array = new Uint16Array(4);
+    private bgScrollLatch: number = 0; // Previous byte written to any BGnxOFS
+    private hScrollLatch: number = 0;  // Previous byte written to any BGnHOFS
+    private m7Latch: number = 0;       // Previous byte written to any Mode 7 register
+    private m7HScroll: number = 0;     // 13-bit signed Mode 7 scroll, written through $210D
+    private m7VScroll: number = 0;     // 13-bit signed Mode 7 scroll, written through $210E
+    private bg3Priority: boolean = false; // BGMODE bit 3: BG3 high-priority tiles in front in Mode 1
+
+    // Mode 7 settings ($211A-$2120) and EXTBG from SETINI ($2133)
+    private m7ScreenOver: number = 0;
+    private m7HFlip: boolean = false;
+    private m7VFlip: boolean = false;
+    private m7A: number = 0; // Matrix entries are 16-bit signed, 8.8 fixed point
+    private m7B: number = 0;
+    private m7C: number = 0;
+    private m7D: number = 0;
+    private m7X: number = 0; // 13-bit signed center of rotation
+    private m7Y: number = 0;
+    private extBg: boolean = false;
+
+    // OAM address and access registers
+    private oamAddress: number = 0;       // Byte address into OAM (0-0x3FF, high table mirrored)
+    private oamAddressReload: number = 0; // Value written to OAMADD, restored at V-blank
+    private oamPriorityRotation: boolean = false;
+    private oamLatch: number = 0;         // Even byte held until the odd byte of a low-table word
+
+    // OBJ settings from OBSEL ($2101) and TM ($212C)
+    private objSizeSelect: number = 0;
+    private objNameBase: number = 0;   // Word address of the first OBJ name table
+    private objNameGap: number = 0x1000; // Words between the first and second name tables
+    private objEnabled: boolean = false;
+    private objFlags: number = 0;      // Time Over / Range Over bits reported through STAT77
+
+    // H/V counters latched by SLHV ($2137) or the light gun line, read back
+    // through OPHCT/OPVCT ($213C/$213D) low byte first
+    private hCounterLatch: number = 0;
+    private vCounterLatch: number = 0;
+    private hCounterHighNext: boolean = false;
+    private vCounterHighNext: boolean = false;
+    private countersLatched: boolean = false;
+
+    // Sub screen designation TS ($212D), and the layers window masking applies
+    // to on each screen: TMW ($212E) and TSW ($212F). Bits 0-3 BG1-BG4, bit 4 OBJ.
+    private subScreenLayers: number = 0;
+    private mainWindowLayers: number = 0;
+    private subWindowLayers: number = 0;
+
+    // Windows ($2123-$212B), per area: BG1-BG4, OBJ and the color window
+    private windowSelect: Uint8Array = new Uint8Array(6); // Bits 0/2: invert W1/W2, bits 1/3: enable W1/W2
+    private windowLogic: Uint8Array = new Uint8Array(6);  // 0=OR, 1=AND, 2=XOR, 3=XNOR
+    private window1Left: number = 0;
+    private window1Right: number = 0;
+    private window2Left: number = 0;
+    private window2Right: number = 0;
+    private windowMask: Uint8Array[] = Array.from({ length: 6 }, () => new Uint8Array(256)); // 1 = inside
+
+    // Color math ($2130-$2132). Regions: 0=never, 1=outside color window, 2=inside, 3=always.
+    private clipToBlack: number = 0;       // Region where the main screen is forced black
+    private preventMath: number = 0;       // Region where color math is disabled
+    private addSubscreen: boolean = false; // Blend with the sub screen rather than the fixed color
+    private directColor: boolean = false;  // 8bpp BGs use their pixel values as colors
+    private mathSubtract: boolean = false;
+    private mathHalf: boolean = false;
+    private mathLayers: number = 0;        // Bits 0-3 BG1-BG4, bit 4 OBJ, bit 5 backdrop
+    private fixedColor: number = 0;
+
+    // Per-line layer buffers (BG1-BG4, OBJ), wide enough for hi-res: 15-bit color
+    // with bit 15 set when opaque (0 = transparent), and priority
+    private layerColor: Uint16Array[] = Array.from({ length: 5 }, () => new Uint16Array(512));
+    private layerPriority: Uint8Array[] = Array.from({ length: 5 }, () => new Uint8Array(512));
+    private tileRow: Uint8Array = new Uint8Array(8);
+    private objColorMath: Uint8Array = new Uint8Array(256); // Only sprite palettes 4-7 take part in color math
+
     // CGRAM address and access registers
     private _cgramAddress: number = 0;
     private _cgramAddressLatch: boolean = false;
@@ -60,6 +174,7 @@ export class PPU {
 
     constructor(memory: Memory) {
         this.imageData = new ImageData(256, 224);
+        this.hiResImageData = new ImageData(512, 224);
         this._bgMode = 1;
         this._brightness = 0xF;
         this._forcedBlank = false;
@@ -271,53 +386,58 @@ export class PPU {
         console.debug(`[DEBUG] PPU: Screen Brightness set to ${this._brightness}`);
     }
 
-    renderFrame(): void {
-        if (!this.canvasContext) {
-            console.warn('[DEBUG] PPU: No canvas context available for renderFrame');
+    // Renders one visible scanline (1-224) into the frame buffer from the
+    // current register state, so mid-frame changes affect the lines after them.
+    // Called by the scheduler at the start of each line's H-blank.
+    renderScanline(line: number): void {
+        const y = line - 1;
+        if (y < 0 || y >= PPU.SCREEN_HEIGHT) {
             return;
         }
+        if (y === 0) {
+            this.objFlags = 0;
+            this.frameHiRes = false;
+        }
 
-        try {
-            // Clear screen with black
-            this.canvasContext.fillStyle = 'black';
-        this.canvasContext.fillRect(0, 0, 256, 224);
-            
-            // Skip rendering if forced blank is enabled
-            if (this._forcedBlank) {
-                this.canvasContext.fillStyle = 'white';
-                this.canvasContext.font = '12px Arial';
-                this.canvasContext.fillText('FORCED BLANK', 10, 112);
+        // Modes 5 and 6 output 512 pixels per line
+        const hiRes = this._bgMode === 5 || this._bgMode === 6;
+        const image = hiRes ? this.hiResImageData : this.imageData;
+        this.lineHiRes[y] = hiRes ? 1 : 0;
+        this.frameHiRes = this.frameHiRes || hiRes;
+
+        if (this._forcedBlank) {
+            const offset = y * image.width * 4;
+            for (let x = 0; x < image.width; x++) {
+                this.writePixel(image.data, offset + x * 4, 0);
+            }
             return;
         }
-            
-            // Skip if no layers are enabled
-            if (!this._mainScreenEnabled) {
-                this.canvasContext.fillStyle = 'white';
-                this.canvasContext.font = '12px Arial';
-                this.canvasContext.fillText('SCREEN DISABLED', 10, 112);
+        this.renderLine(y, image.data, image.width);
+    }
+
+    // Pushes the frame assembled by renderScanline to the canvas; called once per V-blank
+    renderFrame(): void {
+        if (!this.canvasContext) {
+            console.warn('[DEBUG] PPU: No canvas context available for renderFrame');
             return;
         }
-            
-            // Initialize our pixel buffer
-            const imageData = this.canvasContext.createImageData(256, 224);
-            const pixels = imageData.data;
-            
-            // Render backgrounds based on mode
-            switch (this._bgMode) {
-                case 0: // Mode 0: four 2bpp BGs
-                    this.renderMode0(pixels);
-                    break;
-                case 1: // Mode 1: two 4bpp BGs, one 2bpp BG
-                    this.renderMode1(pixels);
-                    break;
-                default:
-                    // For other modes, just try basic rendering
-                    this.renderBasicBG(pixels);
-                    break;
+
+        try {
+            // Frames with any hi-res line are shown at 512 pixels wide
+            let image = this.imageData;
+            if (this.frameHiRes) {
+                this.expandLoResLines();
+                image = this.hiResImageData;
             }
-            
+
+            // Switch the canvas between our two widths; CSS keeps the displayed size
+            const otherWidth = this.frameHiRes ? PPU.SCREEN_WIDTH : PPU.HIRES_WIDTH;
+            if (this.canvas && this.canvas.width === otherWidth) {
+                this.canvas.width = image.width;
+            }
+
             // Put the image data onto the canvas
-            this.canvasContext.putImageData(imageData, 0, 0);
+            this.canvasContext.putImageData(image, 0, 0);
             
             // Frame counter indicator
             this.canvasContext.fillStyle = (this.frameCount % 60 < 30) ? 'white' : 'red';
@@ -332,140 +452,471 @@ export class PPU {
             this.renderFallbackPattern();
         }
     }
-    
-    // Basic BG rendering for any mode
-    private renderBasicBG(pixels: Uint8ClampedArray): void {
-        // Get the first enabled background layer
-        const bgIndex = this.bgSettings.findIndex(bg => bg.enabled);
-        if (bgIndex === -1) return; // No enabled layers
-        
-        const bg = this.bgSettings[bgIndex];
-        
-        // Get VRAM addresses for tilemap and characters
-        const tilemapBase = bg.tilemapAddress;
-        const characterBase = bg.characterAddress;
-        
-        // Determine bits per pixel based on mode and BG
-        const bpp = (this._bgMode === 0) ? 2 : (bgIndex < 2) ? 4 : 2;
-        
-        // Calculate bytes per character based on BPP (2bpp=16 bytes, 4bpp=32 bytes, 8bpp=64 bytes)
-        const bytesPerChar = 8 * bpp;
-        
-        // Loop through each tile on screen (32x28 tiles for 256x224 resolution)
-        for (let y = 0; y < 28; y++) {
-            for (let x = 0; x < 32; x++) {
-                // Calculate tilemap address for this tile
-                const tilemapAddress = tilemapBase + (y * 32 + x) * 2;
-                
-                // Read tile data from VRAM (2 bytes per tile)
-                const tileDataLow = this.vram[tilemapAddress];
-                const tileDataHigh = this.vram[tilemapAddress + 1];
-                
-                // Extract tile information
-                const tileNumber = tileDataLow & 0x3FF; // 10 bits for tile number
-                const palette = (tileDataHigh & 0x1C) >> 2; // 3 bits for palette
-                const hFlip = (tileDataHigh & 0x40) !== 0; // Horizontal flip
-                const vFlip = (tileDataHigh & 0x80) !== 0; // Vertical flip
-                
-                // Render this tile
-                this.renderTile(
-                    pixels,
-                    x * 8, y * 8, // Screen position
-                    tileNumber,
-                    characterBase,
-                    palette,
-                    bpp,
-                    hFlip,
-                    vFlip
-                );
+
+    // Copies the lo-res lines of a mixed frame into the hi-res buffer, doubling each pixel
+    private expandLoResLines(): void {
+        const source = new Uint32Array(this.imageData.data.buffer);
+        const target = new Uint32Array(this.hiResImageData.data.buffer);
+        for (let y = 0; y < PPU.SCREEN_HEIGHT; y++) {
+            if (this.lineHiRes[y]) continue;
+            for (let x = 0; x < PPU.SCREEN_WIDTH; x++) {
+                const pixel = source[y * PPU.SCREEN_WIDTH + x];
+                target[y * PPU.HIRES_WIDTH + x * 2] = pixel;
+                target[y * PPU.HIRES_WIDTH + x * 2 + 1] = pixel;
             }
         }
     }
-    
-    // Render a single tile to the pixel buffer
-    private renderTile(
-        pixels: Uint8ClampedArray,
-        screenX: number,
-        screenY: number,
-        tileNumber: number,
-        characterBase: number,
-        palette: number,
-        bpp: number,
-        hFlip: boolean,
-        vFlip: boolean
-    ): void {
-        // Calculate address of this tile in character data
-        const tileAddress = characterBase + tileNumber * 8 * bpp / 4; // Divide by 4 since VRAM is 16-bit
-        
-        // For each pixel in the 8x8 tile
-        for (let y = 0; y < 8; y++) {
-            const actualY = vFlip ? 7 - y : y;
-            
-            // Get the bitplanes for this row
-            const rowAddress = tileAddress + actualY * bpp / 8;
-            
-            // Read bitplanes - depends on bpp (2bpp=2 bytes, 4bpp=4 bytes, 8bpp=8 bytes per row)
-            const bitplanes = [];
-            for (let p = 0; p < bpp / 2; p++) {
-                bitplanes.push(this.vram[rowAddress + p]);
+
+    // Renders one line: each layer into its line buffer, then composited into RGBA
+    private renderLine(y: number, pixels: Uint8ClampedArray, width: number): void {
+        const mode = this._bgMode;
+        const depths = this.getBackgroundDepths(mode);
+        const hiRes = width === PPU.HIRES_WIDTH;
+
+        const mainLayers = this.getMainScreenLayers();
+        const usedLayers = mainLayers | this.subScreenLayers;
+
+        for (let bg = 0; bg < 4; bg++) {
+            this.layerColor[bg].fill(0);
+            if ((usedLayers & (1 << bg)) && depths[bg] > 0) {
+                this.renderBackgroundLine(bg, y, depths[bg], hiRes);
             }
-            
-            // Process each pixel in the row
+        }
+        if (mode === 7) {
+            this.renderMode7Line(y, usedLayers);
+        }
+
+        this.layerColor[LAYER_OBJ].fill(0);
+        if (usedLayers & (1 << LAYER_OBJ)) {
+            this.renderSpriteLine(y);
+        }
+
+        for (let area = 0; area < 6; area++) {
+            this.computeWindowMask(area);
+        }
+
+        const order = this.getPriorityOrder(mode);
+        const offset = y * width * 4;
+        for (let x = 0; x < width; x++) {
+            // Windows and sprites stay at 256-pixel resolution
+            const lx = hiRes ? x >> 1 : x;
+            const colorWindow = this.windowMask[WINDOW_COLOR][lx] !== 0;
+            const clipped = this.inMathRegion(this.clipToBlack, colorWindow);
+
+            const subLayer = this.getFrontLayer(order, x, lx, this.subScreenLayers, this.subWindowLayers);
+            const subColor = this.getLayerColor(subLayer, x, lx);
+
+            // In hi-res the sub screen supplies the even pixels
+            if (hiRes && (x & 1) === 0) {
+                this.writePixel(pixels, offset + x * 4, clipped ? 0 : subColor);
+                continue;
+            }
+
+            const mainLayer = this.getFrontLayer(order, x, lx, mainLayers, this.mainWindowLayers);
+            let color = clipped ? 0 : this.getLayerColor(mainLayer, x, lx);
+
+            const mathEnabled = (this.mathLayers & (1 << mainLayer)) !== 0
+                && (mainLayer !== LAYER_OBJ || this.objColorMath[lx] !== 0)
+                && !this.inMathRegion(this.preventMath, colorWindow);
+            if (mathEnabled) {
+                // A transparent sub screen blends as the fixed color, without halving
+                const useSubscreen = this.addSubscreen && subLayer !== LAYER_BACKDROP;
+                const half = this.mathHalf && !clipped && (useSubscreen || !this.addSubscreen);
+                color = this.blendColors(color, useSubscreen ? subColor : this.fixedColor, half);
+            }
+            this.writePixel(pixels, offset + x * 4, color);
+        }
+    }
+
+    // TM ($212C) designation as a layer bitmask
+    private getMainScreenLayers(): number {
+        let layers = this.objEnabled ? 1 << LAYER_OBJ : 0;
+        for (let bg = 0; bg < 4; bg++) {
+            if (this.bgSettings[bg].enabled) layers |= 1 << bg;
+        }
+        return layers;
+    }
+
+    // Front-most opaque layer at a pixel in the mode's priority order, among the
+    // layers designated to a screen and not masked by their window
+    private getFrontLayer(order: number[], x: number, lx: number, layers: number, windowLayers: number): number {
+        for (let i = 0; i < order.length; i++) {
+            const layer = order[i] >> 2;
+            if ((layers & (1 << layer)) === 0) continue;
+            if ((windowLayers & (1 << layer)) && this.windowMask[layer][lx]) continue;
+            const px = layer === LAYER_OBJ ? lx : x;
+            if (this.layerColor[layer][px] !== 0 && this.layerPriority[layer][px] === (order[i] & 3)) {
+                return layer;
+            }
+        }
+        return LAYER_BACKDROP;
+    }
+
+    private getLayerColor(layer: number, x: number, lx: number): number {
+        if (layer === LAYER_BACKDROP) return this.cgram[0];
+        return this.layerColor[layer][layer === LAYER_OBJ ? lx : x] & 0x7FFF;
+    }
+
+    private inMathRegion(region: number, colorWindow: boolean): boolean {
+        switch (region) {
+            case 0: return false;
+            case 1: return !colorWindow;
+            case 2: return colorWindow;
+            default: return true;
+        }
+    }
+
+    // Adds or subtracts two colors per component, clamping to 0-31
+    private blendColors(main: number, sub: number, half: boolean): number {
+        let result = 0;
+        for (let shift = 0; shift < 15; shift += 5) {
+            const a = (main >> shift) & 0x1F;
+            const b = (sub >> shift) & 0x1F;
+            let component = this.mathSubtract ? a - b : a + b;
+            if (half) component >>= 1;
+            result |= Math.max(0, Math.min(0x1F, component)) << shift;
+        }
+        return result;
+    }
+
+    // Evaluates both windows over one line for an area (BG1-BG4, OBJ or color),
+    // combining them with the area's logic when both are enabled
+    private computeWindowMask(area: number): void {
+        const select = this.windowSelect[area];
+        const mask = this.windowMask[area];
+        const window1 = (select & 0x02) !== 0;
+        const window2 = (select & 0x08) !== 0;
+        if (!window1 && !window2) {
+            mask.fill(0);
+            return;
+        }
+
+        const invert1 = (select & 0x01) !== 0;
+        const invert2 = (select & 0x04) !== 0;
+        for (let x = 0; x < PPU.SCREEN_WIDTH; x++) {
+            const in1 = (x >= this.window1Left && x <= this.window1Right) !== invert1;
+            const in2 = (x >= this.window2Left && x <= this.window2Right) !== invert2;
+            let inside: boolean;
+            if (!window2) {
+                inside = in1;
+            } else if (!window1) {
+                inside = in2;
+            } else {
+                switch (this.windowLogic[area]) {
+                    case 0: inside = in1 || in2; break;
+                    case 1: inside = in1 && in2; break;
+                    case 2: inside = in1 !== in2; break;
+                    default: inside = in1 === in2; break;
+                }
+            }
+            mask[x] = inside ? 1 : 0;
+        }
+    }
+
+    private getPriorityOrder(mode: number): number[] {
+        switch (mode) {
+            case 0: return PRIORITY_MODE0;
+            case 1: return this.bg3Priority ? PRIORITY_MODE1_BG3_HIGH : PRIORITY_MODE1;
+            case 6: return PRIORITY_MODE6;
+            case 7: return PRIORITY_MODE7;
+            default: return PRIORITY_MODE2_5;
+        }
+    }
+
+    // Bits per pixel of BG1-BG4 in each mode (0 = layer unavailable)
+    private getBackgroundDepths(mode: number): number[] {
+        switch (mode) {
+            case 0: return [2, 2, 2, 2];
+            case 1: return [4, 4, 2, 0];
+            case 2: return [4, 4, 0, 0];
+            case 3: return [8, 4, 0, 0];
+            case 4: return [8, 2, 0, 0];
+            case 5: return [4, 2, 0, 0];
+            case 6: return [4, 0, 0, 0];
+            default: return [0, 0, 0, 0]; // Mode 7 has its own renderer
+        }
+    }
+
+    // Converts a 15-bit BGR color to RGBA, applying the master brightness
+    private writePixel(pixels: Uint8ClampedArray, offset: number, color: number): void {
+        const scale = this._brightness / 15;
+        const r = color & 0x1F;
+        const g = (color >> 5) & 0x1F;
+        const b = (color >> 10) & 0x1F;
+        pixels[offset] = ((r << 3) | (r >> 2)) * scale;
+        pixels[offset + 1] = ((g << 3) | (g >> 2)) * scale;
+        pixels[offset + 2] = ((b << 3) | (b >> 2)) * scale;
+        pixels[offset + 3] = 255;
+    }
+
+    // Direct color: an 8bpp pixel is BBGGGRRR, with the tile's palette bits
+    // supplying one extra low bit for each component
+    private getDirectColor(pixel: number, palette: number): number {
+        const r = ((pixel & 0x07) << 2) | ((palette & 0x01) << 1);
+        const g = (((pixel >> 3) & 0x07) << 2) | (palette & 0x02);
+        const b = (((pixel >> 6) & 0x03) << 3) | (palette & 0x04);
+        return r | (g << 5) | (b << 10);
+    }
+
+    // Decodes one 8-pixel row of a tile. VRAM is word addressed: each word holds
+    // two bitplanes for one row, and each further plane pair sits 8 words later.
+    private decodeTileRow(characterBase: number, tileNumber: number, bpp: number, row: number, out: Uint8Array): void {
+        const address = characterBase + tileNumber * bpp * 4 + row;
+        out.fill(0);
+        for (let pair = 0; pair < bpp / 2; pair++) {
+            const word = this.vram[(address + pair * 8) & 0x7FFF];
+            const lowPlane = word & 0xFF;
+            const highPlane = word >> 8;
             for (let x = 0; x < 8; x++) {
-                const actualX = hFlip ? 7 - x : x;
-                
-                // Build the color index for this pixel from all bitplanes
-                let colorIndex = 0;
-                for (let p = 0; p < bitplanes.length; p++) {
-                    // Extract 2 bits from each bitplane word (shift right by bit position, then mask lowest 2 bits)
-                    const bitplaneBits = (bitplanes[p] >> (14 - actualX * 2)) & 0x03;
-                    // Add to color index in the right position (2 bits per plane)
-                    colorIndex |= (bitplaneBits << (p * 2));
+                const bit = 7 - x;
+                out[x] |= (((lowPlane >> bit) & 1) | (((highPlane >> bit) & 1) << 1)) << (pair * 2);
+            }
+        }
+    }
+
+    // Tilemaps are made of 32x32 screens laid out left-right, then top-bottom
+    private getTilemapEntry(bg: number, tileX: number, tileY: number): number {
+        const settings = this.bgSettings[bg];
+        const wide = (settings.tilemapSize & 1) !== 0;
+        const tall = (settings.tilemapSize & 2) !== 0;
+        let screen = 0;
+        if (wide && (tileX & 0x20)) screen += 1;
+        if (tall && (tileY & 0x20)) screen += wide ? 2 : 1;
+        return this.vram[(settings.tilemapAddress + screen * 0x400 + ((tileY & 0x1F) << 5) + (tileX & 0x1F)) & 0x7FFF];
+    }
+
+    // Offset-per-tile (modes 2, 4 and 6): BG3's tilemap holds replacement
+    // scroll values for each 8-pixel column of BG1/BG2 after the leftmost one.
+    // Entry bits 13/14 select which BG an entry applies to.
+    private getOffsetPerTileScroll(bg: number, x: number): [number, number] {
+        let hScroll = this.bgHScroll[bg];
+        let vScroll = this.bgVScroll[bg];
+        const column = (x + (hScroll & 7)) >> 3;
+        if (column === 0) {
+            return [hScroll, vScroll];
+        }
+
+        const tileX = column - 1 + (this.bgHScroll[2] >> 3);
+        const tileY = this.bgVScroll[2] >> 3;
+        let hEntry = this.getTilemapEntry(2, tileX, tileY);
+        let vEntry = this.getTilemapEntry(2, tileX, tileY + 1);
+        if (this._bgMode === 4) {
+            // Mode 4 reads a single row; bit 15 marks a vertical offset
+            vEntry = (hEntry & 0x8000) ? hEntry : 0;
+            hEntry = (hEntry & 0x8000) ? 0 : hEntry;
+        }
+
+        const enable = bg === 0 ? 0x2000 : 0x4000;
+        if (hEntry & enable) {
+            hScroll = (hEntry & 0x3F8) | (hScroll & 7); // The fine scroll is kept
+        }
+        if (vEntry & enable) {
+            vScroll = vEntry & 0x3FF;
+        }
+        return [hScroll, vScroll];
+    }
+
+    // Renders one line of a tiled background into its line buffer as colors
+    private renderBackgroundLine(bg: number, y: number, bpp: number, hiRes: boolean): void {
+        const settings = this.bgSettings[bg];
+        // Hi-res tiles are always 16 pixels wide
+        const tileWidth = settings.tileSize || hiRes ? 16 : 8;
+        const tileHeight = settings.tileSize ? 16 : 8;
+        const width = hiRes ? PPU.HIRES_WIDTH : PPU.SCREEN_WIDTH;
+        const mode = this._bgMode;
+        const colorBase = mode === 0 ? bg * 32 : 0; // Mode 0 gives each BG its own palettes
+        const offsetPerTile = bg < 2 && (mode === 2 || mode === 4 || mode === 6);
+        const directColor = this.directColor && bpp === 8;
+        const out = this.layerColor[bg];
+        const priorities = this.layerPriority[bg];
+
+        for (let x = 0; x < width; ) {
+            const [hScroll, vScroll] = offsetPerTile
+                ? this.getOffsetPerTileScroll(bg, hiRes ? x >> 1 : x)
+                : [this.bgHScroll[bg], this.bgVScroll[bg]];
+
+            // Screen row 0 is scanline 1, so an unscrolled BG starts at its second line.
+            // Hi-res scroll values count in 256-pixel units.
+            const px = (x + (hiRes ? hScroll << 1 : hScroll)) & 0x7FF;
+            const py = (y + 1 + vScroll) & 0x3FF;
+            const entry = this.getTilemapEntry(bg, Math.floor(px / tileWidth), Math.floor(py / tileHeight));
+
+            const hFlip = (entry & 0x4000) !== 0;
+            const vFlip = (entry & 0x8000) !== 0;
+            let fineX = px & (tileWidth - 1);
+            let fineY = py & (tileHeight - 1);
+            if (hFlip) fineX = tileWidth - 1 - fineX;
+            if (vFlip) fineY = tileHeight - 1 - fineY;
+
+            // 16x16 tiles are four 8x8 characters: N, N+1, N+16, N+17
+            const tileNumber = ((entry & 0x3FF) + (fineX >> 3) + ((fineY >> 3) << 4)) & 0x3FF;
+            this.decodeTileRow(settings.characterAddress, tileNumber, bpp, fineY & 7, this.tileRow);
+
+            const palette = (entry >> 10) & 0x07;
+            const paletteBase = bpp === 8 ? 0 : colorBase + palette * (1 << bpp);
+            const priority = (entry >> 13) & 1;
+
+            // Draw until the end of this 8-pixel character; flipped tiles walk it backwards
+            const run = 8 - (px & 7);
+            for (let i = 0; i < run && x < width; i++, x++) {
+                const pixel = this.tileRow[(hFlip ? fineX - i : fineX + i) & 7];
+                if (pixel === 0) {
+                    out[x] = 0;
+                } else {
+                    out[x] = 0x8000 | (directColor ? this.getDirectColor(pixel, palette) : this.cgram[paletteBase + pixel]);
                 }
-                
-                // Calculate palette index
-                // For 2bpp: 4 colors per palette, 8 palettes total = 0-31
-                // For 4bpp: 16 colors per palette, 8 palettes total = 0-127
-                // For 8bpp: 256 colors = 0-255
-                const paletteOffset = bpp === 2 ? (palette * 4) : (palette * 16);
-                const finalColorIndex = colorIndex === 0 ? 0 : paletteOffset + colorIndex;
-                
-                // Skip transparent pixels (index 0)
-                if (colorIndex === 0) continue;
+                priorities[x] = priority;
+            }
+        }
+    }
 
-                // Get the color from CGRAM
-                const color = this.cgram[finalColorIndex];
-                
-                // Calculate RGB values (SNES format: 0bbbbbgg gggrrrrr)
-                const r = (color & 0x1F) * 8; // 5 bits red
-                const g = ((color >> 5) & 0x1F) * 8; // 5 bits green
-                const b = ((color >> 10) & 0x1F) * 8; // 5 bits blue
-                
-                // Calculate the pixel position in the output buffer
-                const pixelPos = ((screenY + y) * 256 + (screenX + x)) * 4;
-                
-                // Set the RGBA values in the buffer
-                pixels[pixelPos] = r;
-                pixels[pixelPos + 1] = g;
-                pixels[pixelPos + 2] = b;
-                pixels[pixelPos + 3] = 255; // Alpha
+    // Renders one line of Mode 7 into BG1, and into BG2 when EXTBG is on. The
+    // plane is 1024x1024 pixels: the low byte of VRAM words 0-$3FFF is a
+    // 128x128 tilemap and the high byte holds 8bpp tiles, 64 words each.
+    // Registers are read per line, so mid-frame matrix changes take effect.
+    private renderMode7Line(y: number, layers: number): void {
+        const bg1 = (layers & 0x01) !== 0;
+        const bg2 = this.extBg && (layers & 0x02) !== 0;
+        if (!bg1 && !bg2) {
+            return;
+        }
+
+        // Offsets from the center wrap into 10 bits, sign-extended
+        const clip = (value: number) => (value & 0x2000) ? (value | ~0x3FF) : (value & 0x3FF);
+        const a = this.m7A;
+        const b = this.m7B;
+        const c = this.m7C;
+        const d = this.m7D;
+        const centerX = this.m7X;
+        const centerY = this.m7Y;
+        const hOffset = clip(this.m7HScroll - centerX);
+        const vOffset = clip(this.m7VScroll - centerY);
+
+        // Screen row 0 is scanline 1. Partial products drop their low 6 bits
+        // like the hardware's.
+        const screenY = this.m7VFlip ? 255 - (y + 1) : y + 1;
+        const originX = ((a * hOffset) & ~63) + ((b * vOffset) & ~63) + ((b * screenY) & ~63) + (centerX << 8);
+        const originY = ((c * hOffset) & ~63) + ((d * vOffset) & ~63) + ((d * screenY) & ~63) + (centerY << 8);
+
+        const direct = this.directColor;
+        for (let x = 0; x < PPU.SCREEN_WIDTH; x++) {
+            const screenX = this.m7HFlip ? 255 - x : x;
+            const planeX = (originX + a * screenX) >> 8;
+            const planeY = (originY + c * screenX) >> 8;
+
+            let pixel = 0;
+            const outside = ((planeX | planeY) & ~0x3FF) !== 0;
+            if (!outside || this.m7ScreenOver !== M7_OVER_TRANSPARENT) {
+                const tile = outside && this.m7ScreenOver === M7_OVER_TILE0
+                    ? 0
+                    : this.vram[(((planeY >> 3) & 0x7F) << 7) | ((planeX >> 3) & 0x7F)] & 0xFF;
+                pixel = this.vram[(tile << 6) | ((planeY & 7) << 3) | (planeX & 7)] >> 8;
+            }
+
+            if (bg1) {
+                this.layerColor[0][x] = pixel === 0 ? 0 : 0x8000 | (direct ? this.getDirectColor(pixel, 0) : this.cgram[pixel]);
+                this.layerPriority[0][x] = 0;
+            }
+            // EXTBG: the same pixels as 7bpp, with bit 7 as priority
+            if (bg2) {
+                const color = pixel & 0x7F;
+                this.layerColor[1][x] = color === 0 ? 0 : 0x8000 | this.cgram[color];
+                this.layerPriority[1][x] = pixel >> 7;
             }
         }
     }
-    
-    // Mode-specific rendering methods
-    private renderMode0(pixels: Uint8ClampedArray): void {
-        // Mode 0: four 2bpp BGs
-        // Just use basic BG rendering for now - prioritize the first enabled background
-        this.renderBasicBG(pixels);
+
+    // Object sizes (small, large) in pixels for each OBSEL size setting
+    private static readonly OBJ_SIZES: [number, number, number, number][] = [
+        [8, 8, 16, 16], [8, 8, 32, 32], [8, 8, 64, 64], [16, 16, 32, 32],
+        [16, 16, 64, 64], [32, 32, 64, 64], [16, 32, 32, 64], [16, 32, 32, 32]
+    ];
+
+    // Evaluates OAM for one line and draws the visible sprites into the OBJ line
+    // buffer, applying the 32-sprite range and 34-tile time limits
+    private renderSpriteLine(y: number): void {
+        const sizes = PPU.OBJ_SIZES[this.objSizeSelect];
+        const firstSprite = this.oamPriorityRotation ? (this.oamAddressReload >> 2) & 0x7F : 0;
+
+        // Range evaluation: the first 32 sprites on this line, in priority order
+        const inRange: number[] = [];
+        for (let i = 0; i < 128; i++) {
+            const index = (firstSprite + i) & 0x7F;
+            const { x, y: spriteY, large } = this.getSpritePosition(index);
+            const width = large ? sizes[2] : sizes[0];
+            const height = large ? sizes[3] : sizes[1];
+            if (((y - spriteY) & 0xFF) >= height) continue;
+            if (x !== -256 && (x + width <= 0 || x >= PPU.SCREEN_WIDTH)) continue;
+            if (inRange.length === 32) {
+                this.objFlags |= OBJ_RANGE_OVER;
+                break;
+            }
+            inRange.push(index);
+        }
+
+        // Tile fetch runs from the last sprite in range backwards, so once 34
+        // tiles are fetched it's the highest priority sprites that lose theirs
+        const out = this.layerColor[LAYER_OBJ];
+        const priorities = this.layerPriority[LAYER_OBJ];
+        let tilesFetched = 0;
+        for (let r = inRange.length - 1; r >= 0; r--) {
+            const index = inRange[r];
+            const { x, y: spriteY, large } = this.getSpritePosition(index);
+            const width = large ? sizes[2] : sizes[0];
+            const height = large ? sizes[3] : sizes[1];
+            const tile = this.oam[index * 4 + 2];
+            const attributes = this.oam[index * 4 + 3];
+            const hFlip = (attributes & 0x40) !== 0;
+            const vFlip = (attributes & 0x80) !== 0;
+            const priority = (attributes >> 4) & 0x03;
+            const paletteBase = 128 + ((attributes >> 1) & 0x07) * 16;
+            const characterBase = (this.objNameBase + ((attributes & 0x01) ? this.objNameGap : 0)) & 0x7FFF;
+
+            let row = (y - spriteY) & 0xFF;
+            if (vFlip) row = height - 1 - row;
+
+            for (let column = 0; column < width; column += 8) {
+                const screenX = x + column;
+                if (screenX <= -8 || screenX >= PPU.SCREEN_WIDTH) continue;
+                if (++tilesFetched > 34) {
+                    this.objFlags |= OBJ_TIME_OVER;
+                    break;
+                }
+
+                // Characters of a large sprite come from a 16x16 grid of tiles
+                const tileColumn = (hFlip ? width - 8 - column : column) >> 3;
+                const tileNumber = (((tile >> 4) + (row >> 3)) & 0x0F) << 4 | ((tile + tileColumn) & 0x0F);
+                this.decodeTileRow(characterBase, tileNumber, 4, row & 7, this.tileRow);
+
+                for (let i = 0; i < 8; i++) {
+                    const px = screenX + i;
+                    if (px < 0 || px >= PPU.SCREEN_WIDTH) continue;
+                    const pixel = this.tileRow[hFlip ? 7 - i : i];
+                    if (pixel === 0) continue;
+                    // Later (lower index) sprites overwrite earlier ones
+                    out[px] = 0x8000 | this.cgram[paletteBase + pixel];
+                    priorities[px] = priority;
+                    this.objColorMath[px] = paletteBase >= 192 ? 1 : 0;
+                }
+            }
+        }
     }
-    
-    private renderMode1(pixels: Uint8ClampedArray): void {
-        // Mode 1: two 4bpp BGs, one 2bpp BG
-        // Just use basic BG rendering for now - prioritize the first enabled background
-        this.renderBasicBG(pixels);
+
+    private getSpritePosition(index: number): { x: number, y: number, large: boolean } {
+        const high = this.oam[0x200 + (index >> 2)] >> ((index & 3) * 2);
+        let x = this.oam[index * 4] | ((high & 1) << 8);
+        if (x >= 256) x -= 512; // 9-bit signed
+        return { x, y: this.oam[index * 4 + 1], large: (high & 2) !== 0 };
     }
-    
+
+    // Called by the scheduler when V-blank starts
+    startVBlank(): void {
+        // The OAM address is reloaded from OAMADD unless the screen is forced blank
+        if (!this._forcedBlank) {
+            this.oamAddress = this.oamAddressReload;
+        }
+    }
+
     // Fallback pattern for debugging
     private renderFallbackPattern(): void {
         if (!this.canvasContext) return;
@@ -493,7 +944,56 @@ export class PPU {
         console.debug('[DEBUG] PPU: Resetting PPU state');
         this.vram.fill(0);
         this.cgram.fill(0);
-        this._bgMode = 1;
+        this.oam.fill(0);
+        this.oamAddress = 0;
+        this.oamAddressReload = 0;
+        this.oamPriorityRotation = false;
+        this.oamLatch = 0;
+        this.objSizeSelect = 0;
+        this.objNameBase = 0;
+        this.objNameGap = 0x1000;
+        this.objEnabled = false;
+        this.objFlags = 0;
+        this.hCounterLatch = 0;
+        this.vCounterLatch = 0;
+        this.hCounterHighNext = false;
+        this.vCounterHighNext = false;
+        this.countersLatched = false;
+        this.bgHScroll.fill(0);
+        this.bgVScroll.fill(0);
+        this.bgScrollLatch = 0;
+        this.hScrollLatch = 0;
+        this.m7Latch = 0;
+        this.m7HScroll = 0;
+        this.m7VScroll = 0;
+        this.m7ScreenOver = 0;
+        this.m7HFlip = false;
+        this.m7VFlip = false;
+        this.m7A = 0;
+        this.m7B = 0;
+        this.m7C = 0;
+        this.m7D = 0;
+        this.m7X = 0;
+        this.m7Y = 0;
+        this.extBg = false;
+        this.bg3Priority = false;
+        this.subScreenLayers = 0;
+        this.mainWindowLayers = 0;
+        this.subWindowLayers = 0;
+        this.windowSelect.fill(0);
+        this.windowLogic.fill(0);
+        this.window1Left = 0;
+        this.window1Right = 0;
+        this.window2Left = 0;
+        this.window2Right = 0;
+        this.clipToBlack = 0;
+        this.preventMath = 0;
+        this.addSubscreen = false;
+        this.directColor = false;
+        this.mathSubtract = false;
+        this.mathHalf = false;
+        this.mathLayers = 0;
+        this.fixedColor = 0;
         this.bgSettings[0] = {
             enabled: true,
             tileSize: false,
@@ -597,6 +1097,116 @@ export class PPU {
         console.warn('[PPU] Forced emergency PPU state established');
     }
 
+    // Mode 7 registers are 16-bit values written low byte first through one
+    // shared latch; returns the combined value as a 16-bit signed number
+    private writeMode7Latch(value: number): number {
+        const combined = (value << 8) | this.m7Latch;
+        this.m7Latch = value;
+        return (combined << 16) >> 16;
+    }
+
+    // Signed product of M7A and the last byte written to M7B, read through $2134-$2136
+    private getMultiplyResult(): number {
+        return (this.m7A * ((this.m7B >> 8) << 24 >> 24)) & 0xFFFFFF;
+    }
+
+    /**
+     * Read from a PPU register (0x00-0xFF mapping to $2100-$21FF)
+     */
+    readRegister(register: number): number {
+        const reg = register & 0xFF;
+
+        switch (reg) {
+            // MPYL/MPYM/MPYH - Multiplication Result ($2134-$2136)
+            case 0x34:
+                return this.getMultiplyResult() & 0xFF;
+            case 0x35:
+                return (this.getMultiplyResult() >> 8) & 0xFF;
+            case 0x36:
+                return this.getMultiplyResult() >> 16;
+
+            // OAMDATAREAD - OAM Data Read ($2138)
+            case 0x38: {
+                const value = this.oamAddress >= 0x200
+                    ? this.oam[0x200 | (this.oamAddress & 0x1F)]
+                    : this.oam[this.oamAddress];
+                this.oamAddress = (this.oamAddress + 1) & 0x3FF;
+                return value;
+            }
+
+            // VMDATALREAD/VMDATAHREAD - VRAM Data Read ($2139/$213A)
+            // Reads come from a prefetch buffer, refilled when the address increments
+            case 0x39: {
+                const value = this._vramReadBuffer & 0xFF;
+                if (!this._vramIncrementOnHigh) {
+                    this.prefetchVRAM();
+                }
+                return value;
+            }
+            case 0x3A: {
+                const value = this._vramReadBuffer >> 8;
+                if (this._vramIncrementOnHigh) {
+                    this.prefetchVRAM();
+                }
+                return value;
+            }
+
+            // CGDATAREAD - CGRAM Data Read ($213B), low byte then high byte
+            case 0x3B: {
+                const color = this.cgram[this._cgramAddress];
+                if (!this._cgramAddressLatch) {
+                    this._cgramAddressLatch = true;
+                    return color & 0xFF;
+                }
+                this._cgramAddressLatch = false;
+                this._cgramAddress = (this._cgramAddress + 1) & 0xFF;
+                return (color >> 8) & 0x7F;
+            }
+
+            // OPHCT/OPVCT - Latched H/V Counter ($213C/$213D), 9 bits read
+            // low byte then high byte
+            case 0x3C: {
+                const value = this.hCounterHighNext ? (this.hCounterLatch >> 8) & 0x01 : this.hCounterLatch & 0xFF;
+                this.hCounterHighNext = !this.hCounterHighNext;
+                return value;
+            }
+            case 0x3D: {
+                const value = this.vCounterHighNext ? (this.vCounterLatch >> 8) & 0x01 : this.vCounterLatch & 0xFF;
+                this.vCounterHighNext = !this.vCounterHighNext;
+                return value;
+            }
+
+            // STAT77 - PPU1 Status ($213E)
+            case 0x3E:
+                return this.objFlags | PPU1_VERSION;
+
+            // STAT78 - PPU2 Status ($213F). Reading clears the latch flag and
+            // resets the OPHCT/OPVCT byte selectors.
+            case 0x3F: {
+                const value = (this.countersLatched ? COUNTERS_LATCHED : 0) | PPU2_VERSION;
+                this.countersLatched = false;
+                this.hCounterHighNext = false;
+                this.vCounterHighNext = false;
+                return value;
+            }
+
+            default:
+                return 0;
+        }
+    }
+
+    // Captures the H (dot) and V (scanline) counters for OPHCT/OPVCT
+    latchCounters(dot: number, line: number): void {
+        this.hCounterLatch = dot & 0x1FF;
+        this.vCounterLatch = line & 0x1FF;
+        this.countersLatched = true;
+    }
+
+    private prefetchVRAM(): void {
+        this._vramReadBuffer = this.vram[this._vramAddress & 0x7FFF];
+        this._vramAddress = (this._vramAddress + this._vramIncrement) & 0xFFFF;
+    }
+
     /**
      * Write to a PPU register (0x00-0xFF mapping to $2100-$21FF)
      */
@@ -613,10 +1223,43 @@ export class PPU {
                 this._forcedBlank = (val & 0x80) !== 0; // Bit 7: Force blank
                 break;
                 
+            // OBSEL - Object Size and Character Address ($2101)
+            case 0x01:
+                this.objNameBase = (val & 0x07) << 13; // Bits 0-2: Name base * 8K words
+                this.objNameGap = (((val >> 3) & 0x03) + 1) << 12; // Bits 3-4: Name select gap
+                this.objSizeSelect = val >> 5; // Bits 5-7: Object size pair
+                break;
+
+            // OAMADDL/OAMADDH - OAM Address ($2102/$2103)
+            case 0x02:
+                this.oamAddressReload = (this.oamAddressReload & 0x200) | (val << 1);
+                this.oamAddress = this.oamAddressReload;
+                break;
+            case 0x03:
+                this.oamAddressReload = ((val & 0x01) << 9) | (this.oamAddressReload & 0x1FE);
+                this.oamPriorityRotation = (val & 0x80) !== 0; // Bit 7: Priority rotation
+                this.oamAddress = this.oamAddressReload;
+                break;
+
+            // OAMDATA - OAM Data Write ($2104)
+            case 0x04:
+                if (this.oamAddress >= 0x200) {
+                    // High table bytes are written immediately (mirrored every 32 bytes)
+                    this.oam[0x200 | (this.oamAddress & 0x1F)] = val;
+                } else if ((this.oamAddress & 1) === 0) {
+                    // Low table words are committed when the odd byte arrives
+                    this.oamLatch = val;
+                } else {
+                    this.oam[this.oamAddress - 1] = this.oamLatch;
+                    this.oam[this.oamAddress] = val;
+                }
+                this.oamAddress = (this.oamAddress + 1) & 0x3FF;
+                break;
+
             // BGMODE - BG Mode and BG Character Size Register ($2105)
             case 0x05:
                 this._bgMode = val & 0x07; // Bits 0-2: BG Mode
-                // Bit 3: BG3 Priority - TODO
+                this.bg3Priority = (val & 0x08) !== 0; // Bit 3: BG3 Priority (Mode 1)
                 this.bgSettings[0].tileSize = (val & 0x10) !== 0; // Bit 4: BG1 Tile Size (0=8x8, 1=16x16)
                 this.bgSettings[1].tileSize = (val & 0x20) !== 0; // Bit 5: BG2 Tile Size
                 this.bgSettings[2].tileSize = (val & 0x40) !== 0; // Bit 6: BG3 Tile Size
@@ -666,22 +1309,144 @@ export class PPU {
                 this.bgSettings[3].characterAddress = (val & 0xF0) << 8;  // Bits 4-7 * 0x1000
                 break;
                 
+            // BGnHOFS/BGnVOFS - BG Scroll ($210D-$2114)
+            // Both registers are written twice through latches shared by all four
+            // BGs. $210D/$210E also feed the Mode 7 scroll through the Mode 7 latch.
+            case 0x0D: case 0x0F: case 0x11: case 0x13: {
+                const bg = (reg - 0x0D) >> 1;
+                this.bgHScroll[bg] = ((val << 8) | (this.bgScrollLatch & ~7) | (this.hScrollLatch & 7)) & 0x3FF;
+                this.bgScrollLatch = val;
+                this.hScrollLatch = val;
+                if (reg === 0x0D) {
+                    this.m7HScroll = signed13(this.writeMode7Latch(val));
+                }
+                break;
+            }
+            case 0x0E: case 0x10: case 0x12: case 0x14: {
+                const bg = (reg - 0x0E) >> 1;
+                this.bgVScroll[bg] = ((val << 8) | this.bgScrollLatch) & 0x3FF;
+                this.bgScrollLatch = val;
+                if (reg === 0x0E) {
+                    this.m7VScroll = signed13(this.writeMode7Latch(val));
+                }
+                break;
+            }
+
+            // M7SEL - Mode 7 Settings ($211A)
+            case 0x1A:
+                this.m7ScreenOver = val >> 6; // Bits 6-7: Screen over
+                this.m7VFlip = (val & 0x02) !== 0; // Bit 1: Vertical flip
+                this.m7HFlip = (val & 0x01) !== 0; // Bit 0: Horizontal flip
+                break;
+
+            // M7A-M7D - Mode 7 Matrix ($211B-$211E); M7A/M7B also feed the multiplier
+            case 0x1B:
+                this.m7A = this.writeMode7Latch(val);
+                break;
+            case 0x1C:
+                this.m7B = this.writeMode7Latch(val);
+                break;
+            case 0x1D:
+                this.m7C = this.writeMode7Latch(val);
+                break;
+            case 0x1E:
+                this.m7D = this.writeMode7Latch(val);
+                break;
+
+            // M7X/M7Y - Mode 7 Center ($211F/$2120)
+            case 0x1F:
+                this.m7X = signed13(this.writeMode7Latch(val));
+                break;
+            case 0x20:
+                this.m7Y = signed13(this.writeMode7Latch(val));
+                break;
+
+            // SETINI - Screen Mode/Video Select ($2133)
+            case 0x33:
+                this.extBg = (val & 0x40) !== 0; // Bit 6: Mode 7 EXTBG
+                break;
+
             // TM - Main Screen Designation ($212C)
             case 0x2C:
                 this.bgSettings[0].enabled = (val & 0x01) !== 0; // Bit 0: BG1 Enable
                 this.bgSettings[1].enabled = (val & 0x02) !== 0; // Bit 1: BG2 Enable
                 this.bgSettings[2].enabled = (val & 0x04) !== 0; // Bit 2: BG3 Enable
                 this.bgSettings[3].enabled = (val & 0x08) !== 0; // Bit 3: BG4 Enable
-                // Bits 4-7: Object/Sprite enable, color window enable
+                this.objEnabled = (val & 0x10) !== 0; // Bit 4: OBJ Enable
                 this._mainScreenEnabled = (val !== 0); // Any layer enabled means screen is on
                 break;
                 
             // TS - Sub Screen Designation ($212D)
             case 0x2D:
-                // Set sub screen layer visibility (similar to TM)
+                this.subScreenLayers = val & 0x1F; // Same layout as TM
                 this._subScreenEnabled = (val !== 0);
                 break;
+
+            // TMW/TSW - Window Mask Designation ($212E/$212F)
+            case 0x2E:
+                this.mainWindowLayers = val & 0x1F;
+                break;
+            case 0x2F:
+                this.subWindowLayers = val & 0x1F;
+                break;
+
+            // W12SEL/W34SEL/WOBJSEL - Window Mask Settings ($2123-$2125), a nibble per area
+            case 0x23: case 0x24: case 0x25: {
+                const area = (reg - 0x23) * 2;
+                this.windowSelect[area] = val & 0x0F;
+                this.windowSelect[area + 1] = val >> 4;
+                break;
+            }
+
+            // WH0-WH3 - Window Positions ($2126-$2129)
+            case 0x26:
+                this.window1Left = val;
+                break;
+            case 0x27:
+                this.window1Right = val;
+                break;
+            case 0x28:
+                this.window2Left = val;
+                break;
+            case 0x29:
+                this.window2Right = val;
+                break;
+
+            // WBGLOG/WOBJLOG - Window Mask Logic ($212A/$212B), two bits per area
+            case 0x2A:
+                for (let area = 0; area < 4; area++) {
+                    this.windowLogic[area] = (val >> (area * 2)) & 0x03;
+                }
+                break;
+            case 0x2B:
+                this.windowLogic[LAYER_OBJ] = val & 0x03;
+                this.windowLogic[WINDOW_COLOR] = (val >> 2) & 0x03;
+                break;
                 
+            // CGWSEL - Color Math Control A ($2130)
+            case 0x30:
+                this.clipToBlack = val >> 6; // Bits 6-7: Clip main screen to black
+                this.preventMath = (val >> 4) & 0x03; // Bits 4-5: Prevent color math
+                this.addSubscreen = (val & 0x02) !== 0; // Bit 1: Add sub screen instead of fixed color
+                this.directColor = (val & 0x01) !== 0; // Bit 0: Direct color for 8bpp BGs
+                break;
+
+            // CGADSUB - Color Math Designation ($2131)
+            case 0x31:
+                this.mathSubtract = (val & 0x80) !== 0; // Bit 7: Subtract
+                this.mathHalf = (val & 0x40) !== 0; // Bit 6: Half the result
+                this.mathLayers = val & 0x3F; // Bits 0-5: BG1-BG4, OBJ, backdrop
+                break;
+
+            // COLDATA - Fixed Color ($2132): bits 5-7 pick which components get the intensity
+            case 0x32: {
+                const intensity = val & 0x1F;
+                if (val & 0x20) this.fixedColor = (this.fixedColor & ~0x001F) | intensity;
+                if (val & 0x40) this.fixedColor = (this.fixedColor & ~0x03E0) | (intensity << 5);
+                if (val & 0x80) this.fixedColor = (this.fixedColor & ~0x7C00) | (intensity << 10);
+                break;
+            }
+
             // CGADD - CGRAM Address ($2121)
             case 0x21:
                 this._cgramAddress = val; // Set CGRAM Address (palette)
@@ -0,0 +1,749 @@
+import { CPU, CPUBus } from './cpu';
+import { Bus, mirrorAddress } from './bus';
+import { BusHandler, CartridgeBus, Mapper, PageMap } from './mappers';
+
+// The SA-1 CPU runs at 10.74MHz, half the master clock; BW-RAM runs at half its speed
+const SA1_CYCLES_PER_IO = 2;
+const SA1_ACCESS_CYCLES = 2;
+const SA1_BWRAM_ACCESS_CYCLES = 4;
+
+const IRAM_SIZE = 0x800;
+
+// The timer counts dots of 4 master cycles: 341 × 262 in H/V mode, or a free
+// running 512 × 512 count in linear mode
+const MASTER_CYCLES_PER_DOT = 4;
+const HV_TIMER_DOTS = 341;
+const HV_TIMER_LINES = 262;
+const LINEAR_TIMER_DOTS = 512;
+const LINEAR_TIMER_LINES = 512;
+
+// Interrupt flags: CIE/CIC/CFR on the SA-1 side, SIE/SIC/SFR on the SNES side
+const IRQ_FLAG = 0x80;
+const TIMER_IRQ_FLAG = 0x40;
+const DMA_IRQ_FLAG = 0x20;      // SA-1 DMA end (SA-1) / character conversion DMA (SNES)
+const NMI_FLAG = 0x10;
+
+// DCNT bits 0-1
+const DMA_SOURCE_ROM = 0;
+const DMA_SOURCE_BWRAM = 1;
+
+/**
+ * SA-1 cartridge (map mode $23): a second 65C816 on the cartridge with 2KB of
+ * I-RAM, BW-RAM (the cartridge RAM), a DMA unit with character conversion, a
+ * multiply/divide/sum unit, variable-length bit reads and the super MMC, which
+ * pages 1MB ROM blocks into both CPUs' address spaces.
+ */
+export class SA1Mapper extends Mapper {
+    readonly name: string = 'SA-1';
+    readonly coprocessor: string | null = 'SA-1';
+
+    private bwram: Uint8Array;
+    private iram = new Uint8Array(IRAM_SIZE);
+    private snesBus: CartridgeBus | null = null;
+    private sa1Bus = new Bus();
+    private cpu: CPU;
+    private cycleDebt: number = 0; // Master cycles owed to the SA-1 CPU
+
+    // Interrupts and messages
+    private control: number = 0x20;    // CCNT ($2200): bit 5 holds the SA-1 in reset, bit 6 waits
+    private snesIRQEnable: number = 0; // SIE ($2201)
+    private snesIRQFlags: number = 0;  // SFR ($2300) bits 7 and 5
+    private snesControl: number = 0;   // SCNT ($2209): vector selects and message to the SNES
+    private sa1IRQEnable: number = 0;  // CIE ($220A)
+    private sa1IRQFlags: number = 0;   // CFR ($2301) bits 4-7
+    private resetVector: number = 0;   // CRV ($2203/$2204)
+    private nmiVector: number = 0;     // CNV ($2205/$2206)
+    private irqVector: number = 0;     // CIV ($2207/$2208)
+    private snesNMIVector: number = 0; // SNV ($220C/$220D)
+    private snesIRQVector: number = 0; // SIV ($220E/$220F)
+
+    // H/V timer
+    private timerControl: number = 0;  // TMC ($2210)
+    private hTarget: number = 0;       // HCNT ($2212/$2213)
+    private vTarget: number = 0;       // VCNT ($2214/$2215)
+    private hCounter: number = 0;
+    private vCounter: number = 0;
+    private hLatch: number = 0;        // HCR ($2302/$2303)
+    private vLatch: number = 0;        // VCR ($2304/$2305)
+    private dotCycles: number = 0;
+
+    // Super MMC
+    private romBlocks: number[] = [0, 1, 2, 3]; // CXB-FXB ($2220-$2223)
+    private snesBWRAMBlock: number = 0;         // BMAPS ($2224)
+    private sa1BWRAMBlock: number = 0;          // BMAP ($2225): bit 7 selects the bitmap view
+    private bitmapFormat: number = 0;           // BBF ($223F): bit 7 = 2bpp, else 4bpp
+    private writeProtect: Uint8Array = new Uint8Array(5); // SBWE, CBWE, BWPA, SIWP, CIWP (unenforced)
+
+    // DMA and character conversion
+    private dmaControl: number = 0;    // DCNT ($2230)
+    private ccControl: number = 0;     // CDMA ($2231): bits 2-4 width in tiles (log2), bits 0-1 depth
+    private dmaSource: number = 0;     // SDA ($2232-$2234)
+    private dmaDest: number = 0;       // DDA ($2235-$2237)
+    private dmaLength: number = 0;     // DTC ($2238/$2239)
+    private ccActive: boolean = false; // Type 1 conversion running: SNES BW-RAM reads return tiles
+    private ccLine: number = 0;        // Next type 2 line (0-15)
+    private bitmapRegisters = new Uint8Array(16); // BRF ($2240-$224F)
+
+    // Arithmetic unit
+    private mathControl: number = 0;   // MCNT ($2250): 0 multiply, 1 divide, 2 multiply and sum
+    private multiplicand: number = 0;  // MA ($2251/$2252)
+    private multiplier: number = 0;    // MB ($2253/$2254)
+    private mathResult: number = 0;    // MR ($2306-$230A), 40 bits
+    private mathOverflow: boolean = false; // OF ($230B)
+
+    // Variable-length bit processing
+    private bitAutoIncrement: boolean = false; // VBD ($2258) bit 7
+    private bitLength: number = 16;            // VBD bits 0-3 (0 means 16)
+    private bitAddress: number = 0;            // VDA ($2259-$225B)
+    private bitOffset: number = 0;
+
+    private sa1CPUBus: CPUBus = {
+        read8: (address) => this.sa1Bus.read8(address),
+        write8: (address, value) => this.sa1Bus.write8(address, value),
+        getAccessCycles: (address) => this.isBWRAMAddress(address) ? SA1_BWRAM_ACCESS_CYCLES : SA1_ACCESS_CYCLES
+    };
+
+    // $2200-$23FF, shared by both CPUs
+    private io: BusHandler = {
+        read8: (address) => this.readRegister(address & 0xFFFF),
+        write8: (address, value) => this.writeRegister(address & 0xFFFF, value)
+    };
+
+    // Bank $00:$F000-$FFFF: ROM, with the interrupt vectors replaced by registers
+    private snesVectors: BusHandler = {
+        read8: (address) => {
+            const offset = address & 0xFFFF;
+            if ((this.snesControl & 0x10) && (offset & 0xFFFE) === 0xFFEA) return this.vectorByte(this.snesNMIVector, offset);
+            if ((this.snesControl & 0x40) && (offset & 0xFFFE) === 0xFFEE) return this.vectorByte(this.snesIRQVector, offset);
+            return this.readROM(address);
+        },
+        write8: () => {}
+    };
+
+    private sa1Vectors: BusHandler = {
+        read8: (address) => {
+            const offset = address & 0xFFFF;
+            switch (offset & 0xFFFE) {
+                case 0xFFEA: case 0xFFFA: return this.vectorByte(this.nmiVector, offset);
+                case 0xFFEE: case 0xFFFE: return this.vectorByte(this.irqVector, offset);
+                case 0xFFFC: return this.vectorByte(this.resetVector, offset);
+                default: return this.readROM(address);
+            }
+        },
+        write8: () => {}
+    };
+
+    // BW-RAM seen as packed 2bpp/4bpp pixels: $60-$6F, and $6000-$7FFF with BMAP bit 7
+    private bitmapView: BusHandler = {
+        read8: (address) => this.readBitmap(this.bitmapAddress(address)),
+        write8: (address, value) => this.writeBitmap(this.bitmapAddress(address), value)
+    };
+
+    // SNES view of BW-RAM while a type 1 character conversion is running
+    private ccView: BusHandler = {
+        read8: (address) => this.readConvertedCharacter(this.snesBWRAMAddress(address)),
+        write8: (address, value) => {
+            this.bwram[this.snesBWRAMAddress(address) & (this.bwram.length - 1)] = value;
+        }
+    };
+
+    constructor(rom: Uint8Array, sram: Uint8Array) {
+        super(rom, sram);
+        // The SA-1 always has BW-RAM, even where the header declares none
+        this.bwram = sram.length > 0 ? sram : new Uint8Array(0x2000);
+        this.cpu = new CPU(this.sa1CPUBus, SA1_CYCLES_PER_IO);
+    }
+
+    map(bus: CartridgeBus): void {
+        this.snesBus = bus;
+        bus.mapIO(0x2200, 0x23FF, this.io);
+        for (const first of [0x00, 0x80]) {
+            bus.mapMemory(first, first + 0x3F, 0x3000, 0x3FFF, this.iram, (_bank, address) => address & 0x7FF, true);
+        }
+        this.mapROMBlocks(bus);
+        this.mapSNESBWRAM();
+        this.mapSA1Bus();
+    }
+
+    reset(): void {
+        this.cycleDebt = 0;
+        this.control = 0x20;
+        this.snesIRQEnable = 0;
+        this.snesIRQFlags = 0;
+        this.snesControl = 0;
+        this.sa1IRQEnable = 0;
+        this.sa1IRQFlags = 0;
+        this.updateSA1IRQ();
+        this.updateSNESIRQ();
+        this.resetVector = 0;
+        this.nmiVector = 0;
+        this.irqVector = 0;
+        this.snesNMIVector = 0;
+        this.snesIRQVector = 0;
+        this.timerControl = 0;
+        this.hTarget = 0;
+        this.vTarget = 0;
+        this.hCounter = 0;
+        this.vCounter = 0;
+        this.hLatch = 0;
+        this.vLatch = 0;
+        this.dotCycles = 0;
+        this.romBlocks = [0, 1, 2, 3];
+        this.snesBWRAMBlock = 0;
+        this.sa1BWRAMBlock = 0;
+        this.bitmapFormat = 0;
+        this.writeProtect.fill(0);
+        this.dmaControl = 0;
+        this.ccControl = 0;
+        this.dmaSource = 0;
+        this.dmaDest = 0;
+        this.dmaLength = 0;
+        this.ccActive = false;
+        this.ccLine = 0;
+        this.bitmapRegisters.fill(0);
+        this.mathControl = 0;
+        this.multiplicand = 0;
+        this.multiplier = 0;
+        this.mathResult = 0;
+        this.mathOverflow = false;
+        this.bitAutoIncrement = false;
+        this.bitLength = 16;
+        this.bitAddress = 0;
+        this.bitOffset = 0;
+        this.iram.fill(0);
+        this.cpu.stop();
+
+        if (this.snesBus) {
+            this.mapROMBlocks(this.snesBus);
+            this.mapSNESBWRAM();
+            this.mapSA1Bus();
+        }
+    }
+
+    run(masterCycles: number): void {
+        this.clockTimer(masterCycles);
+
+        // Held in reset (CCNT bit 5) or waiting (bit 6)
+        if (this.control & 0x60) return;
+
+        this.cycleDebt += masterCycles;
+        while (this.cycleDebt > 0) {
+            const cycles = this.cpu.step();
+            if (cycles === 0) {
+                this.cycleDebt = 0;
+                break;
+            }
+            this.cycleDebt -= cycles;
+        }
+    }
+
+    // --- Super MMC ---
+
+    // ROM in $00-$3F/$80-$BF:$8000-$FFFF (LoROM layout) and $C0-$FF (HiROM
+    // layout), each quarter paged in 1MB blocks by CXB/DXB/EXB/FXB
+    protected romOffset(bank: number, address: number): number {
+        if (bank >= 0xC0) {
+            return (this.romBlocks[(bank >> 4) & 0x03] & 0x07) * 0x100000 + (((bank & 0x0F) << 16) | address);
+        }
+        // Without bit 7 the LoROM areas keep their power-on blocks
+        const area = ((bank >> 6) & 0x02) | ((bank >> 5) & 0x01);
+        const block = (this.romBlocks[area] & 0x80) ? this.romBlocks[area] & 0x07 : area;
+        return block * 0x100000 + (bank & 0x1F) * 0x8000 + (address & 0x7FFF);
+    }
+
+    // SNES $6000-$7FFF window into BW-RAM, in 8KB blocks selected by BMAPS
+    protected sramOffset(_bank: number, address: number): number {
+        return this.snesBWRAMBlock * 0x2000 + (address - 0x6000);
+    }
+
+    private mapROMBlocks(bus: PageMap): void {
+        this.mapROM(bus, 0x00, 0x3F, 0x8000, 0xFFFF);
+        this.mapROM(bus, 0x80, 0xBF, 0x8000, 0xFFFF);
+        this.mapROM(bus, 0xC0, 0xFF, 0x0000, 0xFFFF);
+    }
+
+    private readROM(address: number): number {
+        return this.rom[mirrorAddress(this.romOffset(address >> 16, address & 0xFFFF), this.rom.length)];
+    }
+
+    private vectorByte(vector: number, offset: number): number {
+        return (offset & 1) ? vector >> 8 : vector & 0xFF;
+    }
+
+    private mapSNESBWRAM(): void {
+        const bus = this.snesBus;
+        if (!bus) return;
+
+        if (this.ccActive) {
+            bus.mapHandler(0x00, 0x3F, 0x6000, 0x7FFF, this.ccView);
+            bus.mapHandler(0x80, 0xBF, 0x6000, 0x7FFF, this.ccView);
+            bus.mapHandler(0x40, 0x4F, 0x0000, 0xFFFF, this.ccView);
+        } else {
+            bus.mapMemory(0x00, 0x3F, 0x6000, 0x7FFF, this.bwram, (bank, address) => this.sramOffset(bank, address), true);
+            bus.mapMemory(0x80, 0xBF, 0x6000, 0x7FFF, this.bwram, (bank, address) => this.sramOffset(bank, address), true);
+            bus.mapMemory(0x40, 0x4F, 0x0000, 0xFFFF, this.bwram, (bank, address) => ((bank & 0x0F) << 16) | address, true);
+        }
+        bus.mapHandler(0x00, 0x00, 0xF000, 0xFFFF, this.snesVectors);
+    }
+
+    // The SA-1's own address space: no WRAM or PPU, but I-RAM at $0000 and
+    // the bitmap view of BW-RAM
+    private mapSA1Bus(): void {
+        const bus = this.sa1Bus;
+        this.mapROMBlocks(bus);
+        for (const first of [0x00, 0x80]) {
+            bus.mapMemory(first, first + 0x3F, 0x0000, 0x0FFF, this.iram, (_bank, address) => address & 0x7FF, true);
+            bus.mapMemory(first, first + 0x3F, 0x3000, 0x3FFF, this.iram, (_bank, address) => address & 0x7FF, true);
+            bus.mapHandler(first, first + 0x3F, 0x2000, 0x2FFF, this.io);
+        }
+        this.mapSA1BWRAMWindow();
+        bus.mapMemory(0x40, 0x4F, 0x0000, 0xFFFF, this.bwram, (bank, address) => ((bank & 0x0F) << 16) | address, true);
+        bus.mapHandler(0x60, 0x6F, 0x0000, 0xFFFF, this.bitmapView);
+        bus.mapHandler(0x00, 0x00, 0xF000, 0xFFFF, this.sa1Vectors);
+    }
+
+    private mapSA1BWRAMWindow(): void {
+        for (const first of [0x00, 0x80]) {
+            if (this.sa1BWRAMBlock & 0x80) {
+                this.sa1Bus.mapHandler(first, first + 0x3F, 0x6000, 0x7FFF, this.bitmapView);
+            } else {
+                const base = (this.sa1BWRAMBlock & 0x1F) * 0x2000;
+                this.sa1Bus.mapMemory(first, first + 0x3F, 0x6000, 0x7FFF, this.bwram, (_bank, address) => base + address - 0x6000, true);
+            }
+        }
+    }
+
+    private isBWRAMAddress(address: number): boolean {
+        const bank = (address >> 16) & 0xFF;
+        if ((bank & 0xF0) === 0x40 || (bank & 0xF0) === 0x60) return true;
+        return (bank & 0x40) === 0 && (address & 0xE000) === 0x6000;
+    }
+
+    private snesBWRAMAddress(address: number): number {
+        if ((address & 0x400000) !== 0) return address & 0x0FFFFF;
+        return this.snesBWRAMBlock * 0x2000 + (address & 0x1FFF);
+    }
+
+    private bitmapAddress(address: number): number {
+        if ((address & 0x400000) !== 0) return address & 0x0FFFFF;
+        return (this.sa1BWRAMBlock & 0x7F) * 0x2000 + (address & 0x1FFF);
+    }
+
+    private readBitmap(pixel: number): number {
+        const mask = this.bwram.length - 1;
+        if (this.bitmapFormat & 0x80) {
+            return (this.bwram[(pixel >> 2) & mask] >> ((pixel & 3) << 1)) & 0x03;
+        }
+        return (this.bwram[(pixel >> 1) & mask] >> ((pixel & 1) << 2)) & 0x0F;
+    }
+
+    private writeBitmap(pixel: number, value: number): void {
+        const mask = this.bwram.length - 1;
+        if (this.bitmapFormat & 0x80) {
+            const index = (pixel >> 2) & mask;
+            const shift = (pixel & 3) << 1;
+            this.bwram[index] = (this.bwram[index] & ~(0x03 << shift)) | ((value & 0x03) << shift);
+        } else {
+            const index = (pixel >> 1) & mask;
+            const shift = (pixel & 1) << 2;
+            this.bwram[index] = (this.bwram[index] & ~(0x0F << shift)) | ((value & 0x0F) << shift);
+        }
+    }
+
+    // --- Interrupts ---
+
+    // Flags an interrupt to the SA-1 CPU, delivered if CIE enables it
+    private raiseSA1(flag: number): void {
+        this.sa1IRQFlags |= flag;
+        if (flag === NMI_FLAG) {
+            if (this.sa1IRQEnable & flag) this.cpu.triggerNMI();
+        } else {
+            this.updateSA1IRQ();
+        }
+    }
+
+    // Flags an interrupt to the SNES CPU, delivered if SIE enables it
+    private raiseSNES(flag: number): void {
+        this.snesIRQFlags |= flag;
+        this.updateSNESIRQ();
+    }
+
+    // The IRQ lines stay asserted while an enabled flag is set, until CIC/SIC
+    // clears it
+    private updateSA1IRQ(): void {
+        this.cpu.setIRQLine((this.sa1IRQFlags & this.sa1IRQEnable & ~NMI_FLAG) !== 0);
+    }
+
+    private updateSNESIRQ(): void {
+        this.snesBus?.setIRQLine((this.snesIRQFlags & this.snesIRQEnable) !== 0);
+    }
+
+    // --- Timer ---
+
+    private clockTimer(masterCycles: number): void {
+        this.dotCycles += masterCycles;
+        const dots = Math.floor(this.dotCycles / MASTER_CYCLES_PER_DOT);
+        if (dots === 0) return;
+        this.dotCycles -= dots * MASTER_CYCLES_PER_DOT;
+
+        const linear = (this.timerControl & 0x80) !== 0;
+        const dotsPerLine = linear ? LINEAR_TIMER_DOTS : HV_TIMER_DOTS;
+        const lines = linear ? LINEAR_TIMER_LINES : HV_TIMER_LINES;
+        const enable = this.timerControl & 0x03;
+
+        for (let i = 0; i < dots; i++) {
+            if (++this.hCounter >= dotsPerLine) {
+                this.hCounter = 0;
+                if (++this.vCounter >= lines) this.vCounter = 0;
+            }
+            if (enable === 0) continue;
+
+            // HEN alone fires every line, VEN alone at the start of the line,
+            // both at that dot of that line
+            const hMatch = (enable & 0x01) ? this.hCounter === this.hTarget : this.hCounter === 0;
+            const vMatch = (enable & 0x02) ? this.vCounter === this.vTarget : true;
+            if (hMatch && vMatch) {
+                this.raiseSA1(TIMER_IRQ_FLAG);
+            }
+        }
+    }
+
+    // --- Registers ---
+
+    private readRegister(address: number): number {
+        switch (address) {
+            case 0x2300: // SFR - SNES CPU Flag Read
+                return this.snesIRQFlags | (this.snesControl & 0x5F);
+            case 0x2301: // CFR - SA-1 CPU Flag Read
+                return this.sa1IRQFlags | (this.control & 0x0F);
+            case 0x2302: // HCR - H Count Read (latches both counters)
+                this.hLatch = this.hCounter;
+                this.vLatch = this.vCounter;
+                return this.hLatch & 0xFF;
+            case 0x2303:
+                return this.hLatch >> 8;
+            case 0x2304: // VCR - V Count Read
+                return this.vLatch & 0xFF;
+            case 0x2305:
+                return this.vLatch >> 8;
+            case 0x2306: case 0x2307: case 0x2308: case 0x2309: case 0x230A: // MR - Arithmetic Result
+                return Math.floor(this.mathResult / 2 ** ((address - 0x2306) * 8)) & 0xFF;
+            case 0x230B: // OF - Arithmetic Overflow Flag
+                return this.mathOverflow ? 0x80 : 0;
+            case 0x230C: // VDPL - Variable-Length Data Read Port
+                return this.readBitStream() & 0xFF;
+            case 0x230D: { // VDPH; advances the stream in auto-increment mode
+                const value = this.readBitStream() >> 8;
+                if (this.bitAutoIncrement) this.advanceBitStream();
+                return value & 0xFF;
+            }
+            default:
+                return 0;
+        }
+    }
+
+    private writeRegister(address: number, value: number): void {
+        switch (address) {
+            case 0x2200: { // CCNT - SA-1 CPU Control
+                const wasHeld = (this.control & 0x20) !== 0;
+                this.control = value;
+                if (value & 0x80) this.raiseSA1(IRQ_FLAG);
+                if (value & 0x10) this.raiseSA1(NMI_FLAG);
+                if (wasHeld && (value & 0x20) === 0) {
+                    // Leaving reset: start from CRV
+                    this.cpu.reset();
+                    this.cpu.start();
+                    this.cycleDebt = 0;
+                }
+                break;
+            }
+            case 0x2201: // SIE - SNES CPU Interrupt Enable
+                this.snesIRQEnable = value & (IRQ_FLAG | DMA_IRQ_FLAG);
+                this.updateSNESIRQ();
+                break;
+            case 0x2202: // SIC - SNES CPU Interrupt Clear
+                this.snesIRQFlags &= ~value;
+                this.updateSNESIRQ();
+                break;
+            case 0x2203: this.resetVector = (this.resetVector & 0xFF00) | value; break; // CRV
+            case 0x2204: this.resetVector = (value << 8) | (this.resetVector & 0xFF); break;
+            case 0x2205: this.nmiVector = (this.nmiVector & 0xFF00) | value; break;     // CNV
+            case 0x2206: this.nmiVector = (value << 8) | (this.nmiVector & 0xFF); break;
+            case 0x2207: this.irqVector = (this.irqVector & 0xFF00) | value; break;     // CIV
+            case 0x2208: this.irqVector = (value << 8) | (this.irqVector & 0xFF); break;
+            case 0x2209: // SCNT - SNES CPU Control
+                this.snesControl = value;
+                if (value & 0x80) this.raiseSNES(IRQ_FLAG);
+                break;
+            case 0x220A: // CIE - SA-1 CPU Interrupt Enable
+                this.sa1IRQEnable = value & 0xF0;
+                this.updateSA1IRQ();
+                break;
+            case 0x220B: // CIC - SA-1 CPU Interrupt Clear
+                this.sa1IRQFlags &= ~value;
+                this.updateSA1IRQ();
+                break;
+            case 0x220C: this.snesNMIVector = (this.snesNMIVector & 0xFF00) | value; break; // SNV
+            case 0x220D: this.snesNMIVector = (value << 8) | (this.snesNMIVector & 0xFF); break;
+            case 0x220E: this.snesIRQVector = (this.snesIRQVector & 0xFF00) | value; break; // SIV
+            case 0x220F: this.snesIRQVector = (value << 8) | (this.snesIRQVector & 0xFF); break;
+            case 0x2210: // TMC - H/V Timer Control
+                this.timerControl = value;
+                break;
+            case 0x2211: // CTR - Timer Restart
+                this.hCounter = 0;
+                this.vCounter = 0;
+                break;
+            case 0x2212: this.hTarget = (this.hTarget & 0x100) | value; break; // HCNT
+            case 0x2213: this.hTarget = ((value & 0x01) << 8) | (this.hTarget & 0xFF); break;
+            case 0x2214: this.vTarget = (this.vTarget & 0x100) | value; break; // VCNT
+            case 0x2215: this.vTarget = ((value & 0x01) << 8) | (this.vTarget & 0xFF); break;
+            case 0x2220: case 0x2221: case 0x2222: case 0x2223: // CXB-FXB - ROM Block Select
+                this.romBlocks[address - 0x2220] = value;
+                if (this.snesBus) {
+                    this.mapROMBlocks(this.snesBus);
+                    this.mapSNESBWRAM();
+                }
+                this.mapROMBlocks(this.sa1Bus);
+                this.sa1Bus.mapHandler(0x00, 0x00, 0xF000, 0xFFFF, this.sa1Vectors);
+                break;
+            case 0x2224: // BMAPS - SNES BW-RAM Block
+                this.snesBWRAMBlock = value & 0x1F;
+                this.mapSNESBWRAM();
+                break;
+            case 0x2225: // BMAP - SA-1 BW-RAM Block
+                this.sa1BWRAMBlock = value;
+                this.mapSA1BWRAMWindow();
+                break;
+            case 0x2226: case 0x2227: case 0x2228: case 0x2229: case 0x222A: // Write protection
+                this.writeProtect[address - 0x2226] = value;
+                break;
+            case 0x2230: // DCNT - DMA Control
+                this.dmaControl = value;
+                if ((value & 0x80) === 0) this.ccLine = 0;
+                break;
+            case 0x2231: { // CDMA - Character Conversion DMA Parameters
+                const width = Math.min((value >> 2) & 0x07, 5);
+                const depth = Math.min(value & 0x03, 2);
+                this.ccControl = (width << 2) | depth;
+                // Bit 7 ends a type 1 conversion
+                if ((value & 0x80) && this.ccActive) {
+                    this.ccActive = false;
+                    this.mapSNESBWRAM();
+                }
+                break;
+            }
+            case 0x2232: this.dmaSource = (this.dmaSource & 0xFFFF00) | value; break; // SDA
+            case 0x2233: this.dmaSource = (this.dmaSource & 0xFF00FF) | (value << 8); break;
+            case 0x2234: this.dmaSource = (this.dmaSource & 0x00FFFF) | (value << 16); break;
+            case 0x2235: this.dmaDest = (this.dmaDest & 0xFFFF00) | value; break; // DDA
+            case 0x2236: // Writing the middle byte starts DMA to I-RAM and type 1 conversion
+                this.dmaDest = (this.dmaDest & 0xFF00FF) | (value << 8);
+                if ((this.dmaControl & 0x80) === 0) break;
+                if ((this.dmaControl & 0x20) === 0) {
+                    if ((this.dmaControl & 0x04) === 0) this.runDMA();
+                } else if (this.dmaControl & 0x10) {
+                    this.startCharacterConversion();
+                }
+                break;
+            case 0x2237: // Writing the high byte starts DMA to BW-RAM
+                this.dmaDest = (this.dmaDest & 0x00FFFF) | (value << 16);
+                if ((this.dmaControl & 0xA4) === 0x84) this.runDMA();
+                break;
+            case 0x2238: this.dmaLength = (this.dmaLength & 0xFF00) | value; break; // DTC
+            case 0x2239: this.dmaLength = (value << 8) | (this.dmaLength & 0xFF); break;
+            case 0x223F: // BBF - Bitmap Format
+                this.bitmapFormat = value;
+                break;
+            case 0x2250: // MCNT - Arithmetic Control
+                this.mathControl = value & 0x03;
+                if (value & 0x02) {
+                    this.mathResult = 0;
+                    this.mathOverflow = false;
+                }
+                break;
+            case 0x2251: this.multiplicand = (this.multiplicand & 0xFF00) | value; break; // MA
+            case 0x2252: this.multiplicand = (value << 8) | (this.multiplicand & 0xFF); break;
+            case 0x2253: this.multiplier = (this.multiplier & 0xFF00) | value; break; // MB
+            case 0x2254: // Writing the high byte of MB starts the operation
+                this.multiplier = (value << 8) | (this.multiplier & 0xFF);
+                this.calculate();
+                break;
+            case 0x2258: // VBD - Variable-Length Bit Processing
+                this.bitAutoIncrement = (value & 0x80) !== 0;
+                this.bitLength = (value & 0x0F) || 16;
+                // In fixed mode each write steps the stream
+                if (!this.bitAutoIncrement) this.advanceBitStream();
+                break;
+            case 0x2259: this.bitAddress = (this.bitAddress & 0xFFFF00) | value; break; // VDA
+            case 0x225A: this.bitAddress = (this.bitAddress & 0xFF00FF) | (value << 8); break;
+            case 0x225B:
+                this.bitAddress = (this.bitAddress & 0x00FFFF) | (value << 16);
+                this.bitOffset = 0;
+                break;
+            default:
+                if (address >= 0x2240 && address <= 0x224F) { // BRF - Bitmap Register File
+                    this.bitmapRegisters[address - 0x2240] = value;
+                    // Each completed row of 8 pixels converts in type 2 mode
+                    if ((address & 0x07) === 0x07 && (this.dmaControl & 0xB0) === 0xA0) {
+                        this.convertBitmapLine();
+                    }
+                }
+                break;
+        }
+    }
+
+    // --- Arithmetic ---
+
+    private calculate(): void {
+        const a = (this.multiplicand << 16) >> 16;
+        const b = (this.multiplier << 16) >> 16;
+
+        switch (this.mathControl) {
+            case 0: // Signed 16 × 16 multiply
+                this.mathResult = (a * b) >>> 0;
+                this.multiplier = 0;
+                break;
+            case 1: { // Signed 16 / unsigned 16 divide: quotient in MR bits 0-15, remainder in 16-31
+                const divisor = this.multiplier;
+                if (divisor === 0) {
+                    this.mathResult = 0;
+                } else {
+                    const remainder = ((a % divisor) + divisor) % divisor;
+                    const quotient = (a - remainder) / divisor;
+                    this.mathResult = remainder * 0x10000 + (quotient & 0xFFFF);
+                }
+                this.multiplicand = 0;
+                this.multiplier = 0;
+                break;
+            }
+            default: { // Multiply and add to the 40-bit sum
+                let sum = this.mathResult + a * b;
+                if (sum < 0 || sum >= 2 ** 40) {
+                    this.mathOverflow = true;
+                    sum = ((sum % 2 ** 40) + 2 ** 40) % 2 ** 40;
+                }
+                this.mathResult = sum;
+                this.multiplier = 0;
+                break;
+            }
+        }
+    }
+
+    // --- Variable-length bit processing ---
+
+    // 16 bits of the stream starting at the current bit
+    private readBitStream(): number {
+        const data = this.sa1Bus.read8(this.bitAddress)
+            | (this.sa1Bus.read8((this.bitAddress + 1) & 0xFFFFFF) << 8)
+            | (this.sa1Bus.read8((this.bitAddress + 2) & 0xFFFFFF) << 16);
+        return (data >> this.bitOffset) & 0xFFFF;
+    }
+
+    private advanceBitStream(): void {
+        this.bitOffset += this.bitLength;
+        this.bitAddress = (this.bitAddress + (this.bitOffset >> 3)) & 0xFFFFFF;
+        this.bitOffset &= 0x07;
+    }
+
+    // --- DMA ---
+
+    // Normal DMA between ROM, BW-RAM and I-RAM, finished immediately
+    private runDMA(): void {
+        const source = this.dmaControl & 0x03;
+        const toBWRAM = (this.dmaControl & 0x04) !== 0;
+        const bwramMask = this.bwram.length - 1;
+
+        while (this.dmaLength > 0) {
+            let value: number;
+            if (source === DMA_SOURCE_ROM) {
+                value = this.readROM(this.dmaSource);
+            } else if (source === DMA_SOURCE_BWRAM) {
+                value = this.bwram[this.dmaSource & bwramMask];
+            } else {
+                value = this.iram[this.dmaSource & (IRAM_SIZE - 1)];
+            }
+
+            if (toBWRAM) {
+                this.bwram[this.dmaDest & bwramMask] = value;
+            } else {
+                this.iram[this.dmaDest & (IRAM_SIZE - 1)] = value;
+            }
+
+            this.dmaSource = (this.dmaSource + 1) & 0xFFFFFF;
+            this.dmaDest = (this.dmaDest + 1) & 0xFFFFFF;
+            this.dmaLength--;
+        }
+        this.raiseSA1(DMA_IRQ_FLAG);
+    }
+
+    // Type 1: the SNES DMAs "from BW-RAM" and gets the bitmap at SDA back as
+    // SNES tiles, converted a tile at a time through I-RAM at DDA
+    private startCharacterConversion(): void {
+        this.ccActive = true;
+        this.mapSNESBWRAM();
+        this.raiseSNES(DMA_IRQ_FLAG);
+    }
+
+    private readConvertedCharacter(address: number): number {
+        const depth = this.ccControl & 0x03;         // 0 = 8bpp, 1 = 4bpp, 2 = 2bpp
+        const widthShift = (this.ccControl >> 2) & 0x07;
+        const charMask = (1 << (6 - depth)) - 1;     // Bytes per tile - 1
+
+        if ((address & charMask) === 0) {
+            const bpp = 2 << (2 - depth);
+            const bytesPerLine = (8 << widthShift) >> depth;
+            const bwramMask = this.bwram.length - 1;
+            const tile = ((address - this.dmaSource) & bwramMask) >> (6 - depth);
+            const tileY = tile >> widthShift;
+            const tileX = tile & ((1 << widthShift) - 1);
+            let bwramAddress = this.dmaSource + tileY * 8 * bytesPerLine + tileX * bpp;
+
+            for (let y = 0; y < 8; y++) {
+                // 8 packed pixels, lowest bits first
+                let data = 0;
+                for (let byte = 0; byte < bpp; byte++) {
+                    data += this.bwram[(bwramAddress + byte) & bwramMask] * 2 ** (byte * 8);
+                }
+                bwramAddress += bytesPerLine;
+
+                const planes = new Uint8Array(8);
+                for (let x = 0; x < 8; x++) {
+                    for (let plane = 0; plane < bpp; plane++) {
+                        planes[plane] |= (data % 2) << (7 - x);
+                        data = Math.floor(data / 2);
+                    }
+                }
+                for (let plane = 0; plane < bpp; plane++) {
+                    const index = this.dmaDest + (y << 1) + ((plane & 6) << 3) + (plane & 1);
+                    this.iram[index & (IRAM_SIZE - 1)] = planes[plane];
+                }
+            }
+        }
+
+        return this.iram[(this.dmaDest + (address & charMask)) & (IRAM_SIZE - 1)];
+    }
+
+    // Type 2: the SA-1 writes one row of 8 pixels to BRF and it lands in
+    // I-RAM as one row of a tile
+    private convertBitmapLine(): void {
+        const depth = this.ccControl & 0x03;
+        const bpp = 2 << (2 - depth);
+        const row = (this.ccLine & 1) << 3;
+
+        let address = this.dmaDest & (IRAM_SIZE - 1);
+        address &= ~((1 << (7 - depth)) - 1);
+        address += (this.ccLine & 8) * bpp;
+        address += (this.ccLine & 7) * 2;
+
+        for (let plane = 0; plane < bpp; plane++) {
+            let output = 0;
+            for (let x = 0; x < 8; x++) {
+                output |= ((this.bitmapRegisters[row + x] >> plane) & 1) << (7 - x);
+            }
+            this.iram[(address + ((plane & 6) << 3) + (plane & 1)) & (IRAM_SIZE - 1)] = output;
+        }
+
+        this.ccLine = (this.ccLine + 1) & 0x0F;
+    }
+}
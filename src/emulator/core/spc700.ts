@@ -0,0 +1,730 @@
+// Bus the SPC700 sees: 64KB of ARAM with the APU's I/O registers at $00F0-$00FF
+// and the IPL ROM overlaid at $FFC0-$FFFF (see APU).
+export interface SPC700Bus {
+    read8(address: number): number;
+    write8(address: number, value: number): void;
+}
+
+export interface SPC700State {
+    a: number;
+    x: number;
+    y: number;
+    sp: number;
+    pc: number;
+    psw: number;
+    halted: boolean;
+}
+
+// Cycle counts for every opcode with branches not taken. Taken branches add 2.
+const CYCLES = new Uint8Array([
+    //  0  1  2  3  4  5  6  7  8  9  A  B  C  D  E  F
+        2, 8, 4, 5, 3, 4, 3, 6, 2, 6, 5, 4, 5, 4, 6, 8, // 0x00
+        2, 8, 4, 5, 4, 5, 5, 6, 5, 5, 6, 5, 2, 2, 4, 6, // 0x10
+        2, 8, 4, 5, 3, 4, 3, 6, 2, 6, 5, 4, 5, 4, 5, 4, // 0x20
+        2, 8, 4, 5, 4, 5, 5, 6, 5, 5, 6, 5, 2, 2, 3, 8, // 0x30
+        2, 8, 4, 5, 3, 4, 3, 6, 2, 6, 4, 4, 5, 4, 6, 6, // 0x40
+        2, 8, 4, 5, 4, 5, 5, 6, 5, 5, 4, 5, 2, 2, 4, 3, // 0x50
+        2, 8, 4, 5, 3, 4, 3, 6, 2, 6, 4, 4, 5, 4, 5, 5, // 0x60
+        2, 8, 4, 5, 4, 5, 5, 6, 5, 5, 5, 5, 2, 2, 3, 6, // 0x70
+        2, 8, 4, 5, 3, 4, 3, 6, 2, 6, 5, 4, 5, 2, 4, 5, // 0x80
+        2, 8, 4, 5, 4, 5, 5, 6, 5, 5, 5, 5, 2, 2, 12, 5, // 0x90
+        3, 8, 4, 5, 3, 4, 3, 6, 2, 6, 4, 4, 5, 2, 4, 4, // 0xA0
+        2, 8, 4, 5, 4, 5, 5, 6, 5, 5, 5, 5, 2, 2, 3, 4, // 0xB0
+        3, 8, 4, 5, 4, 5, 4, 7, 2, 5, 6, 4, 5, 2, 4, 9, // 0xC0
+        2, 8, 4, 5, 5, 6, 6, 7, 4, 5, 5, 5, 2, 2, 6, 3, // 0xD0
+        2, 8, 4, 5, 3, 4, 3, 6, 2, 4, 5, 3, 4, 3, 4, 3, // 0xE0
+        2, 8, 4, 5, 4, 5, 5, 6, 3, 4, 5, 4, 2, 2, 4, 2  // 0xF0
+]);
+
+const VECTOR_RESET = 0xFFFE;
+const VECTOR_TCALL0 = 0xFFDE; // TCALL n reads its target from $FFDE - 2n; BRK shares TCALL 0's slot
+
+// The six two-operand ALU instructions share one encoding pattern; the high
+// three opcode bits pick the operation.
+const enum AluOp { OR, AND, EOR, CMP, ADC, SBC }
+
+export class SPC700 {
+    // Registers
+    private a: number = 0;
+    private x: number = 0;
+    private y: number = 0;
+    private sp: number = 0xEF;
+    private pc: number = 0;
+
+    // PSW flags
+    private n: boolean = false; // Negative
+    private v: boolean = false; // Overflow
+    private p: boolean = false; // Direct page select ($00xx / $01xx)
+    private b: boolean = false; // Break
+    private h: boolean = false; // Half carry
+    private i: boolean = false; // Interrupt enable (no interrupt sources are wired on the SNES)
+    private z: boolean = false; // Zero
+    private c: boolean = false; // Carry
+
+    private bus: SPC700Bus;
+
+    // Set by SLEEP/STOP; the core idles until reset
+    private halted: boolean = false;
+
+    // Cycles taken by the instruction currently executing
+    private instructionCycles: number = 0;
+
+    constructor(bus: SPC700Bus) {
+        this.bus = bus;
+    }
+
+    reset(): void {
+        this.a = 0;
+        this.x = 0;
+        this.y = 0;
+        this.sp = 0xEF;
+        this.setPSW(0x02);
+        this.halted = false;
+        this.pc = this.read16(VECTOR_RESET);
+    }
+
+    // Executes one instruction and returns the SPC700 cycles it took
+    step(): number {
+        if (this.halted) {
+            return 2;
+        }
+
+        const opcode = this.fetch8();
+        this.instructionCycles = CYCLES[opcode];
+        this.execute(opcode);
+        return this.instructionCycles;
+    }
+
+    getState(): SPC700State {
+        return {
+            a: this.a,
+            x: this.x,
+            y: this.y,
+            sp: this.sp,
+            pc: this.pc,
+            psw: this.getPSW(),
+            halted: this.halted
+        };
+    }
+
+    // --- Bus helpers ---
+
+    private read8(address: number): number {
+        return this.bus.read8(address & 0xFFFF) & 0xFF;
+    }
+
+    private write8(address: number, value: number): void {
+        this.bus.write8(address & 0xFFFF, value & 0xFF);
+    }
+
+    private read16(address: number): number {
+        return this.read8(address) | (this.read8(address + 1) << 8);
+    }
+
+    private fetch8(): number {
+        const value = this.read8(this.pc);
+        this.pc = (this.pc + 1) & 0xFFFF;
+        return value;
+    }
+
+    private fetch16(): number {
+        const lo = this.fetch8();
+        return lo | (this.fetch8() << 8);
+    }
+
+    private push8(value: number): void {
+        this.write8(0x0100 | this.sp, value);
+        this.sp = (this.sp - 1) & 0xFF;
+    }
+
+    private pop8(): number {
+        this.sp = (this.sp + 1) & 0xFF;
+        return this.read8(0x0100 | this.sp);
+    }
+
+    private push16(value: number): void {
+        this.push8(value >> 8);
+        this.push8(value & 0xFF);
+    }
+
+    private pop16(): number {
+        const lo = this.pop8();
+        return lo | (this.pop8() << 8);
+    }
+
+    private getPSW(): number {
+        return (this.n ? 0x80 : 0) | (this.v ? 0x40 : 0) | (this.p ? 0x20 : 0) | (this.b ? 0x10 : 0) |
+               (this.h ? 0x08 : 0) | (this.i ? 0x04 : 0) | (this.z ? 0x02 : 0) | (this.c ? 0x01 : 0);
+    }
+
+    private setPSW(value: number): void {
+        this.n = (value & 0x80) !== 0;
+        this.v = (value & 0x40) !== 0;
+        this.p = (value & 0x20) !== 0;
+        this.b = (value & 0x10) !== 0;
+        this.h = (value & 0x08) !== 0;
+        this.i = (value & 0x04) !== 0;
+        this.z = (value & 0x02) !== 0;
+        this.c = (value & 0x01) !== 0;
+    }
+
+    private setNZ(value: number): void {
+        this.n = (value & 0x80) !== 0;
+        this.z = (value & 0xFF) === 0;
+    }
+
+    private setNZ16(value: number): void {
+        this.n = (value & 0x8000) !== 0;
+        this.z = (value & 0xFFFF) === 0;
+    }
+
+    // --- Addressing modes (all return a 16-bit ARAM address) ---
+
+    // Direct page addresses wrap within the selected page
+    private dp(offset: number): number {
+        return (this.p ? 0x0100 : 0) | (offset & 0xFF);
+    }
+
+    private addrDirect(): number {
+        return this.dp(this.fetch8());
+    }
+
+    private addrDirectX(): number {
+        return this.dp(this.fetch8() + this.x);
+    }
+
+    private addrDirectY(): number {
+        return this.dp(this.fetch8() + this.y);
+    }
+
+    private addrIndirectX(): number {
+        return this.dp(this.x);
+    }
+
+    private addrIndirectY(): number {
+        return this.dp(this.y);
+    }
+
+    private addrAbsolute(): number {
+        return this.fetch16();
+    }
+
+    private addrAbsoluteIndexed(index: number): number {
+        return (this.fetch16() + index) & 0xFFFF;
+    }
+
+    // [d+X]
+    private addrDirectIndexedIndirect(): number {
+        return this.readDirectWord(this.fetch8() + this.x);
+    }
+
+    // [d]+Y
+    private addrDirectIndirectIndexed(): number {
+        return (this.readDirectWord(this.fetch8()) + this.y) & 0xFFFF;
+    }
+
+    private readDirectWord(offset: number): number {
+        return this.read8(this.dp(offset)) | (this.read8(this.dp(offset + 1)) << 8);
+    }
+
+    private writeDirectWord(offset: number, value: number): void {
+        this.write8(this.dp(offset), value & 0xFF);
+        this.write8(this.dp(offset + 1), value >> 8);
+    }
+
+    // m.b operands: 13-bit absolute address with the bit number in the top three bits
+    private fetchMemoryBit(): { address: number, bit: number } {
+        const operand = this.fetch16();
+        return { address: operand & 0x1FFF, bit: operand >> 13 };
+    }
+
+    private readMemoryBit(): boolean {
+        const { address, bit } = this.fetchMemoryBit();
+        return ((this.read8(address) >> bit) & 1) !== 0;
+    }
+
+    // --- ALU ---
+
+    private alu(op: AluOp, left: number, right: number): number {
+        let result: number;
+        switch (op) {
+            case AluOp.OR:
+                result = left | right;
+                break;
+            case AluOp.AND:
+                result = left & right;
+                break;
+            case AluOp.EOR:
+                result = left ^ right;
+                break;
+            case AluOp.CMP:
+                result = left - right;
+                this.c = result >= 0;
+                this.setNZ(result);
+                return left; // CMP never writes back
+            case AluOp.ADC:
+                return this.adc(left, right);
+            case AluOp.SBC:
+                return this.adc(left, right ^ 0xFF);
+        }
+        this.setNZ(result);
+        return result & 0xFF;
+    }
+
+    private adc(left: number, right: number): number {
+        const result = left + right + (this.c ? 1 : 0);
+        this.v = (~(left ^ right) & (left ^ result) & 0x80) !== 0;
+        this.h = ((left ^ right ^ result) & 0x10) !== 0;
+        this.c = result > 0xFF;
+        this.setNZ(result);
+        return result & 0xFF;
+    }
+
+    // A op memory, result in A
+    private aluA(op: AluOp, address: number): void {
+        this.a = this.alu(op, this.a, this.read8(address));
+    }
+
+    private aluImmediate(op: AluOp): void {
+        this.a = this.alu(op, this.a, this.fetch8());
+    }
+
+    // Memory-to-memory forms: the destination is also the left operand
+    private aluMemory(op: AluOp, destination: number, value: number): void {
+        const result = this.alu(op, this.read8(destination), value);
+        if (op !== AluOp.CMP) {
+            this.write8(destination, result);
+        }
+    }
+
+    private compareRegister(register: number, value: number): void {
+        this.alu(AluOp.CMP, register, value);
+    }
+
+    private shiftLeft(value: number, rotate: boolean): number {
+        const result = (value << 1) | (rotate && this.c ? 1 : 0);
+        this.c = (value & 0x80) !== 0;
+        this.setNZ(result);
+        return result & 0xFF;
+    }
+
+    private shiftRight(value: number, rotate: boolean): number {
+        const result = (value >> 1) | (rotate && this.c ? 0x80 : 0);
+        this.c = (value & 0x01) !== 0;
+        this.setNZ(result);
+        return result;
+    }
+
+    private modify(address: number, operation: (value: number) => number): void {
+        this.write8(address, operation(this.read8(address)));
+    }
+
+    private inc(value: number): number {
+        const result = (value + 1) & 0xFF;
+        this.setNZ(result);
+        return result;
+    }
+
+    private dec(value: number): number {
+        const result = (value - 1) & 0xFF;
+        this.setNZ(result);
+        return result;
+    }
+
+    private load(value: number): number {
+        this.setNZ(value);
+        return value;
+    }
+
+    // 16-bit YA arithmetic: the low byte sets up the carry, the high byte sets H and V
+    private addWord(value: number, subtract: boolean): void {
+        if (subtract) {
+            value = (value ^ 0xFFFF);
+        }
+        this.c = subtract;
+        const lo = this.adc(this.a, value & 0xFF);
+        const hi = this.adc(this.y, value >> 8);
+        this.a = lo;
+        this.y = hi;
+        this.z = (this.a | this.y) === 0;
+    }
+
+    private getYA(): number {
+        return (this.y << 8) | this.a;
+    }
+
+    private setYA(value: number): void {
+        this.a = value & 0xFF;
+        this.y = (value >> 8) & 0xFF;
+    }
+
+    // --- Control flow ---
+
+    private branch(condition: boolean): void {
+        const offset = (this.fetch8() << 24) >> 24; // Sign-extend
+        if (condition) {
+            this.pc = (this.pc + offset) & 0xFFFF;
+            this.instructionCycles += 2;
+        }
+    }
+
+    private call(target: number): void {
+        this.push16(this.pc);
+        this.pc = target;
+    }
+
+    private execute(opcode: number): void {
+        // Rows share column layouts; handle the regular groups first
+        const column = opcode & 0x0F;
+
+        // TCALL n
+        if (column === 0x01) {
+            this.call(this.read16(VECTOR_TCALL0 - (opcode >> 4) * 2));
+            return;
+        }
+
+        // SET1 d.b / CLR1 d.b
+        if (column === 0x02) {
+            const address = this.addrDirect();
+            const mask = 1 << (opcode >> 5);
+            const value = this.read8(address);
+            this.write8(address, (opcode & 0x10) ? value & ~mask : value | mask);
+            return;
+        }
+
+        // BBS d.b,r / BBC d.b,r
+        if (column === 0x03) {
+            const value = this.read8(this.addrDirect());
+            const set = ((value >> (opcode >> 5)) & 1) !== 0;
+            this.branch((opcode & 0x10) ? !set : set);
+            return;
+        }
+
+        // OR/AND/EOR/CMP/ADC/SBC in columns 4-9 of rows 0x00-0xBF
+        if (opcode < 0xC0 && column >= 0x04 && column <= 0x09) {
+            const op = (opcode >> 5) as AluOp;
+            if ((opcode & 0x10) === 0) {
+                switch (column) {
+                    case 0x04: this.aluA(op, this.addrDirect()); return;
+                    case 0x05: this.aluA(op, this.addrAbsolute()); return;
+                    case 0x06: this.aluA(op, this.addrIndirectX()); return;
+                    case 0x07: this.aluA(op, this.addrDirectIndexedIndirect()); return;
+                    case 0x08: this.aluImmediate(op); return;
+                    case 0x09: { // dd,ds
+                        const value = this.read8(this.addrDirect());
+                        this.aluMemory(op, this.addrDirect(), value);
+                        return;
+                    }
+                }
+            } else {
+                switch (column) {
+                    case 0x04: this.aluA(op, this.addrDirectX()); return;
+                    case 0x05: this.aluA(op, this.addrAbsoluteIndexed(this.x)); return;
+                    case 0x06: this.aluA(op, this.addrAbsoluteIndexed(this.y)); return;
+                    case 0x07: this.aluA(op, this.addrDirectIndirectIndexed()); return;
+                    case 0x08: { // d,#i
+                        const value = this.fetch8();
+                        this.aluMemory(op, this.addrDirect(), value);
+                        return;
+                    }
+                    case 0x09: { // (X),(Y)
+                        const value = this.read8(this.addrIndirectY());
+                        this.aluMemory(op, this.addrIndirectX(), value);
+                        return;
+                    }
+                }
+            }
+        }
+
+        switch (opcode) {
+            // --- Column 0: branches and flag operations ---
+            case 0x00: break; // NOP
+            case 0x10: this.branch(!this.n); break; // BPL
+            case 0x20: this.p = false; break; // CLRP
+            case 0x30: this.branch(this.n); break; // BMI
+            case 0x40: this.p = true; break; // SETP
+            case 0x50: this.branch(!this.v); break; // BVC
+            case 0x60: this.c = false; break; // CLRC
+            case 0x70: this.branch(this.v); break; // BVS
+            case 0x80: this.c = true; break; // SETC
+            case 0x90: this.branch(!this.c); break; // BCC
+            case 0xA0: this.i = true; break; // EI
+            case 0xB0: this.branch(this.c); break; // BCS
+            case 0xC0: this.i = false; break; // DI
+            case 0xD0: this.branch(!this.z); break; // BNE
+            case 0xE0: this.v = false; this.h = false; break; // CLRV
+            case 0xF0: this.branch(this.z); break; // BEQ
+
+            // --- MOV stores ---
+            case 0xC4: this.write8(this.addrDirect(), this.a); break;
+            case 0xC5: this.write8(this.addrAbsolute(), this.a); break;
+            case 0xC6: this.write8(this.addrIndirectX(), this.a); break;
+            case 0xC7: this.write8(this.addrDirectIndexedIndirect(), this.a); break;
+            case 0xD4: this.write8(this.addrDirectX(), this.a); break;
+            case 0xD5: this.write8(this.addrAbsoluteIndexed(this.x), this.a); break;
+            case 0xD6: this.write8(this.addrAbsoluteIndexed(this.y), this.a); break;
+            case 0xD7: this.write8(this.addrDirectIndirectIndexed(), this.a); break;
+            case 0xC9: this.write8(this.addrAbsolute(), this.x); break;
+            case 0xD8: this.write8(this.addrDirect(), this.x); break;
+            case 0xD9: this.write8(this.addrDirectY(), this.x); break;
+            case 0xCB: this.write8(this.addrDirect(), this.y); break;
+            case 0xCC: this.write8(this.addrAbsolute(), this.y); break;
+            case 0xDB: this.write8(this.addrDirectX(), this.y); break;
+            case 0xAF: // MOV (X)+,A
+                this.write8(this.addrIndirectX(), this.a);
+                this.x = (this.x + 1) & 0xFF;
+                break;
+            case 0x8F: { // MOV d,#i
+                const value = this.fetch8();
+                this.write8(this.addrDirect(), value);
+                break;
+            }
+            case 0xFA: { // MOV dd,ds
+                const value = this.read8(this.addrDirect());
+                this.write8(this.addrDirect(), value);
+                break;
+            }
+
+            // --- MOV loads ---
+            case 0xE4: this.a = this.load(this.read8(this.addrDirect())); break;
+            case 0xE5: this.a = this.load(this.read8(this.addrAbsolute())); break;
+            case 0xE6: this.a = this.load(this.read8(this.addrIndirectX())); break;
+            case 0xE7: this.a = this.load(this.read8(this.addrDirectIndexedIndirect())); break;
+            case 0xE8: this.a = this.load(this.fetch8()); break;
+            case 0xF4: this.a = this.load(this.read8(this.addrDirectX())); break;
+            case 0xF5: this.a = this.load(this.read8(this.addrAbsoluteIndexed(this.x))); break;
+            case 0xF6: this.a = this.load(this.read8(this.addrAbsoluteIndexed(this.y))); break;
+            case 0xF7: this.a = this.load(this.read8(this.addrDirectIndirectIndexed())); break;
+            case 0xBF: // MOV A,(X)+
+                this.a = this.load(this.read8(this.addrIndirectX()));
+                this.x = (this.x + 1) & 0xFF;
+                break;
+            case 0xCD: this.x = this.load(this.fetch8()); break;
+            case 0xE9: this.x = this.load(this.read8(this.addrAbsolute())); break;
+            case 0xF8: this.x = this.load(this.read8(this.addrDirect())); break;
+            case 0xF9: this.x = this.load(this.read8(this.addrDirectY())); break;
+            case 0x8D: this.y = this.load(this.fetch8()); break;
+            case 0xEB: this.y = this.load(this.read8(this.addrDirect())); break;
+            case 0xEC: this.y = this.load(this.read8(this.addrAbsolute())); break;
+            case 0xFB: this.y = this.load(this.read8(this.addrDirectX())); break;
+
+            // --- Register transfers ---
+            case 0x5D: this.x = this.load(this.a); break; // MOV X,A
+            case 0x7D: this.a = this.load(this.x); break; // MOV A,X
+            case 0xDD: this.a = this.load(this.y); break; // MOV A,Y
+            case 0xFD: this.y = this.load(this.a); break; // MOV Y,A
+            case 0x9D: this.x = this.load(this.sp); break; // MOV X,SP
+            case 0xBD: this.sp = this.x; break; // MOV SP,X
+
+            // --- Index register compares ---
+            case 0xC8: this.compareRegister(this.x, this.fetch8()); break;
+            case 0x3E: this.compareRegister(this.x, this.read8(this.addrDirect())); break;
+            case 0x1E: this.compareRegister(this.x, this.read8(this.addrAbsolute())); break;
+            case 0xAD: this.compareRegister(this.y, this.fetch8()); break;
+            case 0x7E: this.compareRegister(this.y, this.read8(this.addrDirect())); break;
+            case 0x5E: this.compareRegister(this.y, this.read8(this.addrAbsolute())); break;
+
+            // --- Shifts and rotates ---
+            case 0x0B: this.modify(this.addrDirect(), v => this.shiftLeft(v, false)); break;
+            case 0x0C: this.modify(this.addrAbsolute(), v => this.shiftLeft(v, false)); break;
+            case 0x1B: this.modify(this.addrDirectX(), v => this.shiftLeft(v, false)); break;
+            case 0x1C: this.a = this.shiftLeft(this.a, false); break;
+            case 0x2B: this.modify(this.addrDirect(), v => this.shiftLeft(v, true)); break;
+            case 0x2C: this.modify(this.addrAbsolute(), v => this.shiftLeft(v, true)); break;
+            case 0x3B: this.modify(this.addrDirectX(), v => this.shiftLeft(v, true)); break;
+            case 0x3C: this.a = this.shiftLeft(this.a, true); break;
+            case 0x4B: this.modify(this.addrDirect(), v => this.shiftRight(v, false)); break;
+            case 0x4C: this.modify(this.addrAbsolute(), v => this.shiftRight(v, false)); break;
+            case 0x5B: this.modify(this.addrDirectX(), v => this.shiftRight(v, false)); break;
+            case 0x5C: this.a = this.shiftRight(this.a, false); break;
+            case 0x6B: this.modify(this.addrDirect(), v => this.shiftRight(v, true)); break;
+            case 0x6C: this.modify(this.addrAbsolute(), v => this.shiftRight(v, true)); break;
+            case 0x7B: this.modify(this.addrDirectX(), v => this.shiftRight(v, true)); break;
+            case 0x7C: this.a = this.shiftRight(this.a, true); break;
+
+            // --- Increment / decrement ---
+            case 0xAB: this.modify(this.addrDirect(), v => this.inc(v)); break;
+            case 0xAC: this.modify(this.addrAbsolute(), v => this.inc(v)); break;
+            case 0xBB: this.modify(this.addrDirectX(), v => this.inc(v)); break;
+            case 0xBC: this.a = this.inc(this.a); break;
+            case 0x3D: this.x = this.inc(this.x); break;
+            case 0xFC: this.y = this.inc(this.y); break;
+            case 0x8B: this.modify(this.addrDirect(), v => this.dec(v)); break;
+            case 0x8C: this.modify(this.addrAbsolute(), v => this.dec(v)); break;
+            case 0x9B: this.modify(this.addrDirectX(), v => this.dec(v)); break;
+            case 0x9C: this.a = this.dec(this.a); break;
+            case 0x1D: this.x = this.dec(this.x); break;
+            case 0xDC: this.y = this.dec(this.y); break;
+
+            // --- 16-bit operations ---
+            case 0x1A: { // DECW d
+                const offset = this.fetch8();
+                const result = (this.readDirectWord(offset) - 1) & 0xFFFF;
+                this.writeDirectWord(offset, result);
+                this.setNZ16(result);
+                break;
+            }
+            case 0x3A: { // INCW d
+                const offset = this.fetch8();
+                const result = (this.readDirectWord(offset) + 1) & 0xFFFF;
+                this.writeDirectWord(offset, result);
+                this.setNZ16(result);
+                break;
+            }
+            case 0x5A: { // CMPW YA,d
+                const result = this.getYA() - this.readDirectWord(this.fetch8());
+                this.c = result >= 0;
+                this.setNZ16(result);
+                break;
+            }
+            case 0x7A: this.addWord(this.readDirectWord(this.fetch8()), false); break; // ADDW YA,d
+            case 0x9A: this.addWord(this.readDirectWord(this.fetch8()), true); break; // SUBW YA,d
+            case 0xBA: { // MOVW YA,d
+                this.setYA(this.readDirectWord(this.fetch8()));
+                this.setNZ16(this.getYA());
+                break;
+            }
+            case 0xDA: this.writeDirectWord(this.fetch8(), this.getYA()); break; // MOVW d,YA
+
+            // --- Multiply / divide / decimal ---
+            case 0xCF: { // MUL YA
+                this.setYA(this.y * this.a);
+                this.setNZ(this.y);
+                break;
+            }
+            case 0x9E: { // DIV YA,X
+                const ya = this.getYA();
+                const x = this.x;
+                this.v = this.y >= x;
+                this.h = (this.y & 0x0F) >= (x & 0x0F);
+                if (this.y < (x << 1)) {
+                    this.a = Math.floor(ya / x) & 0xFF;
+                    this.y = (ya % x) & 0xFF;
+                } else {
+                    // Quotient overflow (including X = 0): the hardware's iterative divider produces these values
+                    this.a = (255 - Math.floor((ya - (x << 9)) / (256 - x))) & 0xFF;
+                    this.y = (x + ((ya - (x << 9)) % (256 - x))) & 0xFF;
+                }
+                this.setNZ(this.a);
+                break;
+            }
+            case 0xDF: { // DAA
+                if (this.c || this.a > 0x99) {
+                    this.a = (this.a + 0x60) & 0xFF;
+                    this.c = true;
+                }
+                if (this.h || (this.a & 0x0F) > 0x09) {
+                    this.a = (this.a + 0x06) & 0xFF;
+                }
+                this.setNZ(this.a);
+                break;
+            }
+            case 0xBE: { // DAS
+                if (!this.c || this.a > 0x99) {
+                    this.a = (this.a - 0x60) & 0xFF;
+                    this.c = false;
+                }
+                if (!this.h || (this.a & 0x0F) > 0x09) {
+                    this.a = (this.a - 0x06) & 0xFF;
+                }
+                this.setNZ(this.a);
+                break;
+            }
+            case 0x9F: // XCN A
+                this.a = ((this.a >> 4) | (this.a << 4)) & 0xFF;
+                this.setNZ(this.a);
+                break;
+
+            // --- Bit operations ---
+            case 0x0E: case 0x4E: { // TSET1 !a / TCLR1 !a
+                const address = this.addrAbsolute();
+                const value = this.read8(address);
+                this.setNZ(this.a - value);
+                this.write8(address, opcode === 0x0E ? value | this.a : value & ~this.a);
+                break;
+            }
+            case 0x0A: if (this.readMemoryBit()) this.c = true; break; // OR1 C,m.b
+            case 0x2A: if (!this.readMemoryBit()) this.c = true; break; // OR1 C,/m.b
+            case 0x4A: if (!this.readMemoryBit()) this.c = false; break; // AND1 C,m.b
+            case 0x6A: if (this.readMemoryBit()) this.c = false; break; // AND1 C,/m.b
+            case 0x8A: if (this.readMemoryBit()) this.c = !this.c; break; // EOR1 C,m.b
+            case 0xAA: this.c = this.readMemoryBit(); break; // MOV1 C,m.b
+            case 0xCA: { // MOV1 m.b,C
+                const { address, bit } = this.fetchMemoryBit();
+                const value = this.read8(address) & ~(1 << bit);
+                this.write8(address, value | ((this.c ? 1 : 0) << bit));
+                break;
+            }
+            case 0xEA: { // NOT1 m.b
+                const { address, bit } = this.fetchMemoryBit();
+                this.write8(address, this.read8(address) ^ (1 << bit));
+                break;
+            }
+            case 0xED: this.c = !this.c; break; // NOTC
+
+            // --- Stack ---
+            case 0x0D: this.push8(this.getPSW()); break;
+            case 0x2D: this.push8(this.a); break;
+            case 0x4D: this.push8(this.x); break;
+            case 0x6D: this.push8(this.y); break;
+            case 0x8E: this.setPSW(this.pop8()); break;
+            case 0xAE: this.a = this.pop8(); break;
+            case 0xCE: this.x = this.pop8(); break;
+            case 0xEE: this.y = this.pop8(); break;
+
+            // --- Compare-and-branch loops ---
+            case 0x2E: { // CBNE d,r
+                const value = this.read8(this.addrDirect());
+                this.branch(this.a !== value);
+                break;
+            }
+            case 0xDE: { // CBNE d+X,r
+                const value = this.read8(this.addrDirectX());
+                this.branch(this.a !== value);
+                break;
+            }
+            case 0x6E: { // DBNZ d,r
+                const address = this.addrDirect();
+                const value = (this.read8(address) - 1) & 0xFF;
+                this.write8(address, value);
+                this.branch(value !== 0);
+                break;
+            }
+            case 0xFE: // DBNZ Y,r
+                this.y = (this.y - 1) & 0xFF;
+                this.branch(this.y !== 0);
+                break;
+
+            // --- Jumps and calls ---
+            case 0x2F: this.branch(true); break; // BRA
+            case 0x5F: this.pc = this.addrAbsolute(); break; // JMP !a
+            case 0x1F: this.pc = this.read16(this.addrAbsoluteIndexed(this.x)); break; // JMP [!a+X]
+            case 0x3F: this.call(this.addrAbsolute()); break; // CALL !a
+            case 0x4F: this.call(0xFF00 | this.fetch8()); break; // PCALL u
+            case 0x6F: this.pc = this.pop16(); break; // RET
+            case 0x7F: // RETI
+                this.setPSW(this.pop8());
+                this.pc = this.pop16();
+                break;
+            case 0x0F: // BRK
+                this.push16(this.pc);
+                this.push8(this.getPSW());
+                this.b = true;
+                this.i = false;
+                this.pc = this.read16(VECTOR_TCALL0);
+                break;
+
+            // --- Halt ---
+            case 0xEF: // SLEEP
+            case 0xFF: // STOP
+                this.halted = true;
+                console.debug(`[DEBUG] SPC700: Halted by ${opcode === 0xEF ? 'SLEEP' : 'STOP'} at 0x${((this.pc - 1) & 0xFFFF).toString(16).padStart(4, '0')}`);
+                break;
+
+            default:
+                // Every opcode is covered above; reaching here means the tables disagree
+                console.error(`[ERROR] SPC700: Unhandled opcode 0x${opcode.toString(16).padStart(2, '0')}`);
+                break;
+        }
+    }
+}
@@ -0,0 +1,905 @@
+import { mirrorAddress } from './bus';
+import { BusHandler, CartridgeBus, Mapper } from './mappers';
+
+// Cache RAM: 512 bytes in 32 lines of 16, loaded a line at a time on first use
+const CACHE_SIZE = 0x200;
+const CACHE_LINES = CACHE_SIZE >> 4;
+
+// Game Pak RAM for boards whose header declares none (Star Fox has no
+// expanded header but still carries 32KB)
+const DEFAULT_RAM_SIZE = 0x8000;
+
+// Version code read from VCR ($303B)
+const GSU_VERSION = 0x04;
+
+// SCMR ($303A) bits
+const SCMR_RAN = 0x08; // GSU owns Game Pak RAM
+const SCMR_RON = 0x10; // GSU owns Game Pak ROM
+
+// POR (plot option, set by CMODE) bits
+const POR_TRANSPARENT = 0x01; // Plot colour 0 too
+const POR_DITHER = 0x02;      // Alternate nibbles of COLR on odd pixels (not in 256-colour mode)
+const POR_HIGH_NIBBLE = 0x04; // COLOR/GETC take the source's high nibble
+const POR_FREEZE_HIGH = 0x08; // COLOR/GETC keep COLR's high nibble
+const POR_OBJ = 0x10;         // Lay characters out as OBJ (16×16 grid) regardless of height
+
+// What the SNES reads from ROM while the GSU owns it: the vectors point every
+// interrupt into WRAM at $0100-$010C
+const ROM_LOCKOUT_VECTORS = [0x00, 0x01, 0x00, 0x01, 0x04, 0x01, 0x00, 0x01, 0x00, 0x01, 0x08, 0x01, 0x00, 0x01, 0x0C, 0x01];
+
+// One 8-pixel row of a character waiting to be written to the screen
+interface PixelCache {
+    offset: number;  // (y << 5) + (x >> 3)
+    bitpend: number; // Pixels plotted so far, bit 7 = leftmost
+    data: Uint8Array;
+}
+
+/**
+ * Super FX (GSU-1/GSU-2) cartridge: a 16-bit RISC CPU with sixteen registers,
+ * a 512-byte instruction cache and a plot unit that draws pixels into
+ * SNES-format characters in Game Pak RAM. While the GSU runs (SFR.G) with
+ * SCMR.RON/RAN set it owns the ROM/RAM, and the SNES reads fixed vectors
+ * instead of ROM and open bus instead of RAM.
+ */
+export class SuperFXMapper extends Mapper {
+    readonly name: string = 'Super FX';
+    readonly coprocessor: string | null = 'Super FX';
+
+    private ram: Uint8Array;
+    private snesBus: CartridgeBus | null = null;
+    private snesOwnsROM: boolean = true;
+    private snesOwnsRAM: boolean = true;
+    private cycleDebt: number = 0; // Master cycles owed to the GSU
+    private cycles: number = 0;    // Master cycles used by the current instruction
+
+    // R0-R15; R15 is the program counter
+    private r = new Uint16Array(16);
+    private r15Modified: boolean = false;
+    private pipeline: number = 0x01; // Prefetched opcode, NOP after reset and STOP
+
+    // SFR ($3030/$3031)
+    private z: boolean = false;
+    private cy: boolean = false;
+    private s: boolean = false;
+    private ov: boolean = false;
+    private running: boolean = false; // G
+    private alt1: boolean = false;
+    private alt2: boolean = false;
+    private b: boolean = false;       // WITH prefix pending
+    private irq: boolean = false;
+
+    // Prefix state: source and destination registers for the next instruction
+    private sreg: number = 0;
+    private dreg: number = 0;
+
+    private pbr: number = 0;     // Program bank ($3034)
+    private rombr: number = 0;   // ROM bank for GETx ($3036)
+    private rambr: number = 0;   // RAM bank for loads and stores ($303C)
+    private cbr: number = 0;     // Cache base ($303E/$303F)
+    private bramr: number = 0;   // Backup RAM enable ($3033)
+    private cfgr: number = 0;    // Config ($3037): bit 7 masks the STOP IRQ, bit 5 fast multiply
+    private scbr: number = 0;    // Screen base in 1KB units ($3038)
+    private clsr: number = 0;    // Clock select ($3039): 1 = 21MHz
+    private scmr: number = 0;    // Screen mode ($303A): bits 0-1 colour depth, bits 2/5 height
+    private colr: number = 0;    // Plot colour
+    private por: number = 0;     // Plot options
+    private romdr: number = 0;   // ROM buffer, reloaded whenever R14 changes
+    private ramaddr: number = 0; // Address of the last RAM load or store, used by SBK
+
+    private cache = new Uint8Array(CACHE_SIZE);
+    private cacheValid = new Array<boolean>(CACHE_LINES).fill(false);
+    private pixelCaches: PixelCache[] = [
+        { offset: -1, bitpend: 0, data: new Uint8Array(8) },
+        { offset: -1, bitpend: 0, data: new Uint8Array(8) }
+    ];
+
+    // $3000-$3FFF of banks $00-$3F/$80-$BF
+    private io: BusHandler = {
+        read8: (address) => this.readRegister(address & 0xFFFF),
+        write8: (address, value) => this.writeRegister(address & 0xFFFF, value)
+    };
+
+    private romLockout: BusHandler = {
+        read8: (address) => ROM_LOCKOUT_VECTORS[address & 0x0F],
+        write8: () => {}
+    };
+
+    constructor(rom: Uint8Array, sram: Uint8Array) {
+        super(rom, sram);
+        this.ram = sram.length > 0 ? sram : new Uint8Array(DEFAULT_RAM_SIZE);
+    }
+
+    map(bus: CartridgeBus): void {
+        this.snesBus = bus;
+        bus.mapHandler(0x00, 0x3F, 0x3000, 0x3FFF, this.io);
+        bus.mapHandler(0x80, 0xBF, 0x3000, 0x3FFF, this.io);
+        this.snesOwnsROM = !this.gsuOwns(SCMR_RON);
+        this.snesOwnsRAM = !this.gsuOwns(SCMR_RAN);
+        this.mapSNESROM(bus);
+        this.mapSNESRAM(bus);
+    }
+
+    reset(): void {
+        this.r.fill(0);
+        this.r15Modified = false;
+        this.pipeline = 0x01;
+        this.z = this.cy = this.s = this.ov = false;
+        this.running = false;
+        this.setIRQ(false);
+        this.resetPrefix();
+        this.pbr = 0;
+        this.rombr = 0;
+        this.rambr = 0;
+        this.cbr = 0;
+        this.bramr = 0;
+        this.cfgr = 0;
+        this.scbr = 0;
+        this.clsr = 0;
+        this.scmr = 0;
+        this.colr = 0;
+        this.por = 0;
+        this.romdr = 0;
+        this.ramaddr = 0;
+        this.cycleDebt = 0;
+        this.flushCache();
+        for (const pixelCache of this.pixelCaches) {
+            pixelCache.offset = -1;
+            pixelCache.bitpend = 0;
+        }
+        this.updateBusOwnership();
+    }
+
+    run(masterCycles: number): void {
+        if (!this.running) return;
+
+        this.cycleDebt += masterCycles;
+        while (this.cycleDebt > 0 && this.running) {
+            this.cycleDebt -= this.step();
+        }
+        if (!this.running) this.cycleDebt = 0;
+    }
+
+    // --- Memory map ---
+
+    // ROM in the upper half of $00-$3F/$80-$BF (LoROM layout) and all of
+    // $40-$5F/$C0-$DF (HiROM layout). The GSU sees both halves of $00-$3F.
+    protected romOffset(bank: number, address: number): number {
+        if (bank & 0x40) return ((bank & 0x1F) << 16) | address;
+        return (bank & 0x3F) * 0x8000 + (address & 0x7FFF);
+    }
+
+    // RAM in $70-$71/$F0-$F1, its first 8KB also at $6000-$7FFF of $00-$3F/$80-$BF
+    protected sramOffset(bank: number, address: number): number {
+        if (bank & 0x40) return ((bank & 0x01) << 16) | address;
+        return address & 0x1FFF;
+    }
+
+    private gsuOwns(scmrBit: number): boolean {
+        return this.running && (this.scmr & scmrBit) !== 0;
+    }
+
+    // Remaps the SNES side when G, RON or RAN change who owns ROM and RAM
+    private updateBusOwnership(): void {
+        const bus = this.snesBus;
+        if (!bus) return;
+
+        const snesOwnsROM = !this.gsuOwns(SCMR_RON);
+        if (snesOwnsROM !== this.snesOwnsROM) {
+            this.snesOwnsROM = snesOwnsROM;
+            this.mapSNESROM(bus);
+        }
+        const snesOwnsRAM = !this.gsuOwns(SCMR_RAN);
+        if (snesOwnsRAM !== this.snesOwnsRAM) {
+            this.snesOwnsRAM = snesOwnsRAM;
+            this.mapSNESRAM(bus);
+        }
+    }
+
+    private mapSNESROM(bus: CartridgeBus): void {
+        const ranges: [number, number, number][] = [[0x00, 0x3F, 0x8000], [0x80, 0xBF, 0x8000], [0x40, 0x5F, 0x0000], [0xC0, 0xDF, 0x0000]];
+        for (const [first, last, start] of ranges) {
+            if (this.snesOwnsROM) {
+                this.mapROM(bus, first, last, start, 0xFFFF);
+            } else {
+                bus.mapHandler(first, last, start, 0xFFFF, this.romLockout);
+            }
+        }
+    }
+
+    private mapSNESRAM(bus: CartridgeBus): void {
+        const ranges: [number, number, number, number][] = [[0x00, 0x3F, 0x6000, 0x7FFF], [0x80, 0xBF, 0x6000, 0x7FFF], [0x70, 0x71, 0x0000, 0xFFFF], [0xF0, 0xF1, 0x0000, 0xFFFF]];
+        for (const [first, last, start, end] of ranges) {
+            if (this.snesOwnsRAM) {
+                bus.mapMemory(first, last, start, end, this.ram, (bank, address) => this.sramOffset(bank, address), true);
+            } else {
+                bus.unmap(first, last, start, end);
+            }
+        }
+    }
+
+    // The GSU's own bus: ROM in $00-$5F, RAM in $70-$71. It doesn't wait for
+    // the SNES to hand over ROM or RAM; games set RON/RAN before starting it.
+    private read(address: number): number {
+        const bank = (address >> 16) & 0x7F;
+        if (bank < 0x60) {
+            return this.rom[mirrorAddress(this.romOffset(bank, address & 0xFFFF), this.rom.length)];
+        }
+        return this.ram[address & (this.ram.length - 1)];
+    }
+
+    private write(address: number, value: number): void {
+        if (((address >> 16) & 0x7F) >= 0x60) {
+            this.ram[address & (this.ram.length - 1)] = value & 0xFF;
+        }
+    }
+
+    // Master cycles for one access to ROM/RAM, or to the cache
+    private get memoryCycles(): number {
+        return this.clsr ? 5 : 6;
+    }
+
+    private get cacheCycles(): number {
+        return this.clsr ? 1 : 2;
+    }
+
+    private readRAM(address: number): number {
+        this.cycles += this.memoryCycles;
+        return this.read(0x700000 | (this.rambr << 16) | (address & 0xFFFF));
+    }
+
+    private writeRAM(address: number, value: number): void {
+        this.cycles += this.memoryCycles;
+        this.write(0x700000 | (this.rambr << 16) | (address & 0xFFFF), value);
+    }
+
+    // --- Cache ---
+
+    private flushCache(): void {
+        this.cacheValid.fill(false);
+    }
+
+    private fetch(address: number): number {
+        const offset = (address - this.cbr) & 0xFFFF;
+        if (offset < CACHE_SIZE) {
+            const line = offset >> 4;
+            if (!this.cacheValid[line]) {
+                const base = (this.pbr << 16) | ((this.cbr + (offset & 0x1F0)) & 0xFFF0);
+                for (let i = 0; i < 16; i++) {
+                    this.cycles += this.memoryCycles;
+                    this.cache[(offset & 0x1F0) + i] = this.read(base + i);
+                }
+                this.cacheValid[line] = true;
+            } else {
+                this.cycles += this.cacheCycles;
+            }
+            return this.cache[offset];
+        }
+
+        this.cycles += this.memoryCycles;
+        return this.read((this.pbr << 16) | address);
+    }
+
+    // --- Registers ---
+
+    // SFR's IRQ flag drives the cartridge IRQ line until the SNES reads it
+    private setIRQ(irq: boolean): void {
+        this.irq = irq;
+        this.snesBus?.setIRQLine(irq);
+    }
+
+    private get sfr(): number {
+        return (this.z ? 0x0002 : 0) | (this.cy ? 0x0004 : 0) | (this.s ? 0x0008 : 0) | (this.ov ? 0x0010 : 0) |
+               (this.running ? 0x0020 : 0) | (this.alt1 ? 0x0100 : 0) | (this.alt2 ? 0x0200 : 0) |
+               (this.b ? 0x1000 : 0) | (this.irq ? 0x8000 : 0);
+    }
+
+    private readRegister(address: number): number {
+        if (address >= 0x3100 && address <= 0x32FF) {
+            return this.cache[(address - 0x3100 + this.cbr) & (CACHE_SIZE - 1)];
+        }
+        if (address >= 0x3000 && address <= 0x301F) {
+            const value = this.r[(address >> 1) & 0x0F];
+            return (address & 1) ? value >> 8 : value & 0xFF;
+        }
+
+        switch (address) {
+            case 0x3030: // SFR - Status/Flag Register
+                return this.sfr & 0xFF;
+            case 0x3031: { // Reading the high byte acknowledges the IRQ
+                const value = this.sfr >> 8;
+                this.setIRQ(false);
+                return value;
+            }
+            case 0x3034: // PBR - Program Bank
+                return this.pbr;
+            case 0x3036: // ROMBR - ROM Bank
+                return this.rombr;
+            case 0x303B: // VCR - Version Code
+                return GSU_VERSION;
+            case 0x303C: // RAMBR - RAM Bank
+                return this.rambr;
+            case 0x303E: // CBR - Cache Base
+                return this.cbr & 0xFF;
+            case 0x303F:
+                return this.cbr >> 8;
+            default:
+                return 0;
+        }
+    }
+
+    private writeRegister(address: number, value: number): void {
+        if (address >= 0x3100 && address <= 0x32FF) {
+            const offset = (address - 0x3100 + this.cbr) & (CACHE_SIZE - 1);
+            this.cache[offset] = value;
+            // Filling the last byte of a line marks it loaded
+            if ((offset & 0x0F) === 0x0F) this.cacheValid[offset >> 4] = true;
+            return;
+        }
+        if (address >= 0x3000 && address <= 0x301F) {
+            const n = (address >> 1) & 0x0F;
+            const current = this.r[n];
+            this.setRegister(n, (address & 1) ? (value << 8) | (current & 0xFF) : (current & 0xFF00) | value);
+            // Writing the high byte of R15 starts the GSU
+            if (address === 0x301F) {
+                this.running = true;
+                this.updateBusOwnership();
+            }
+            return;
+        }
+
+        switch (address) {
+            case 0x3030: { // SFR - Status/Flag Register
+                const wasRunning = this.running;
+                this.z = (value & 0x02) !== 0;
+                this.cy = (value & 0x04) !== 0;
+                this.s = (value & 0x08) !== 0;
+                this.ov = (value & 0x10) !== 0;
+                this.running = (value & 0x20) !== 0;
+                // Stopping the GSU from the SNES side also clears the cache
+                if (wasRunning && !this.running) {
+                    this.cbr = 0;
+                    this.flushCache();
+                }
+                this.updateBusOwnership();
+                break;
+            }
+            case 0x3031:
+                this.alt1 = (value & 0x01) !== 0;
+                this.alt2 = (value & 0x02) !== 0;
+                this.b = (value & 0x10) !== 0;
+                this.setIRQ((value & 0x80) !== 0);
+                break;
+            case 0x3033: // BRAMR - Backup RAM Register
+                this.bramr = value & 0x01;
+                break;
+            case 0x3034: // PBR - Program Bank
+                this.pbr = value & 0x7F;
+                this.flushCache();
+                break;
+            case 0x3037: // CFGR - Config Register
+                this.cfgr = value;
+                break;
+            case 0x3038: // SCBR - Screen Base
+                this.scbr = value;
+                break;
+            case 0x3039: // CLSR - Clock Select
+                this.clsr = value & 0x01;
+                break;
+            case 0x303A: // SCMR - Screen Mode
+                this.scmr = value;
+                this.updateBusOwnership();
+                break;
+        }
+    }
+
+    private setRegister(n: number, value: number): void {
+        this.r[n] = value;
+        if (n === 14) {
+            // R14 is the ROM pointer: each change starts a read into the ROM buffer
+            this.cycles += this.memoryCycles;
+            this.romdr = this.read((this.rombr << 16) | this.r[14]);
+        } else if (n === 15) {
+            this.r15Modified = true;
+        }
+    }
+
+    private get sr(): number {
+        return this.r[this.sreg];
+    }
+
+    private setDR(value: number): void {
+        this.setRegister(this.dreg, value);
+    }
+
+    private setSZ(value: number): void {
+        this.s = (value & 0x8000) !== 0;
+        this.z = (value & 0xFFFF) === 0;
+    }
+
+    // Every instruction other than a prefix ends by clearing the prefixes
+    private resetPrefix(): void {
+        this.alt1 = false;
+        this.alt2 = false;
+        this.b = false;
+        this.sreg = 0;
+        this.dreg = 0;
+    }
+
+    // --- Execution ---
+
+    // Next byte of the instruction stream. The GSU executes the byte in the
+    // pipeline while fetching the one at R15, which is why jumps and branches
+    // have a delay slot.
+    private pipe(): number {
+        const value = this.pipeline;
+        this.r[15]++;
+        this.pipeline = this.fetch(this.r[15]);
+        this.r15Modified = false;
+        return value;
+    }
+
+    // Executes one instruction. Returns the master cycles consumed.
+    private step(): number {
+        this.cycles = 0;
+        const opcode = this.pipeline;
+        this.pipeline = this.fetch(this.r[15]);
+        this.r15Modified = false;
+
+        this.execute(opcode);
+
+        if (!this.r15Modified) this.r[15]++;
+        return this.cycles;
+    }
+
+    private execute(opcode: number): void {
+        const n = opcode & 0x0F;
+
+        switch (opcode >> 4) {
+            case 0x0:
+                this.executeControl(opcode);
+                return;
+            case 0x1: // TO Rn / MOVE Rn, Rs
+                if (!this.b) {
+                    this.dreg = n;
+                    return;
+                }
+                this.setRegister(n, this.sr);
+                break;
+            case 0x2: // WITH Rn
+                this.sreg = n;
+                this.dreg = n;
+                this.b = true;
+                return;
+            case 0x3:
+                if (n <= 0x0B) { // STW (Rn) / STB (Rn)
+                    this.ramaddr = this.r[n];
+                    this.writeRAM(this.ramaddr, this.sr & 0xFF);
+                    if (!this.alt1) this.writeRAM(this.ramaddr ^ 1, this.sr >> 8);
+                } else if (n === 0x0C) { // LOOP
+                    this.r[12]--;
+                    this.setSZ(this.r[12]);
+                    if (!this.z) this.setRegister(15, this.r[13]);
+                } else { // ALT1 / ALT2 / ALT3
+                    this.b = false;
+                    this.alt1 = (n & 0x01) !== 0;
+                    this.alt2 = (n & 0x02) !== 0;
+                    return;
+                }
+                break;
+            case 0x4:
+                this.executeLoadAndPlot(opcode);
+                break;
+            case 0x5: { // ADD / ADC / ADD #n / ADC #n
+                const operand = this.alt2 ? n : this.r[n];
+                const result = this.sr + operand + (this.alt1 && this.cy ? 1 : 0);
+                this.ov = (~(this.sr ^ operand) & (operand ^ result) & 0x8000) !== 0;
+                this.cy = result >= 0x10000;
+                this.setSZ(result);
+                this.setDR(result);
+                break;
+            }
+            case 0x6: { // SUB / SBC / SUB #n / CMP
+                const operand = (!this.alt2 || this.alt1) ? this.r[n] : n;
+                const result = this.sr - operand - (!this.alt2 && this.alt1 && !this.cy ? 1 : 0);
+                this.ov = ((this.sr ^ operand) & (this.sr ^ result) & 0x8000) !== 0;
+                this.cy = result >= 0;
+                this.setSZ(result);
+                if (!this.alt2 || !this.alt1) this.setDR(result);
+                break;
+            }
+            case 0x7:
+                if (n === 0) { // MERGE
+                    const result = (this.r[7] & 0xFF00) | (this.r[8] >> 8);
+                    this.ov = (result & 0xC0C0) !== 0;
+                    this.s = (result & 0x8080) !== 0;
+                    this.cy = (result & 0xE0E0) !== 0;
+                    this.z = (result & 0xF0F0) !== 0;
+                    this.setDR(result);
+                } else { // AND / BIC / AND #n / BIC #n
+                    const operand = this.alt2 ? n : this.r[n];
+                    const result = this.sr & (this.alt1 ? ~operand : operand);
+                    this.setSZ(result);
+                    this.setDR(result);
+                }
+                break;
+            case 0x8: { // MULT / UMULT / MULT #n / UMULT #n
+                const operand = this.alt2 ? n : this.r[n];
+                const result = this.alt1
+                    ? (this.sr & 0xFF) * (operand & 0xFF)
+                    : ((this.sr << 24) >> 24) * ((operand << 24) >> 24);
+                this.setSZ(result);
+                this.setDR(result);
+                if (!(this.cfgr & 0x20)) this.cycles += this.cacheCycles;
+                break;
+            }
+            case 0x9:
+                this.executeMisc(opcode);
+                break;
+            case 0xA: // IBT Rn, #pp / LMS Rn, (yy) / SMS (yy), Rn
+                if (this.alt1) {
+                    this.ramaddr = this.pipe() << 1;
+                    this.setRegister(n, this.readRAM(this.ramaddr) | (this.readRAM(this.ramaddr ^ 1) << 8));
+                } else if (this.alt2) {
+                    this.ramaddr = this.pipe() << 1;
+                    this.writeRAM(this.ramaddr, this.r[n] & 0xFF);
+                    this.writeRAM(this.ramaddr ^ 1, this.r[n] >> 8);
+                } else {
+                    this.setRegister(n, (this.pipe() << 24) >> 24);
+                }
+                break;
+            case 0xB: // FROM Rn / MOVES Rd, Rn
+                if (!this.b) {
+                    this.sreg = n;
+                    return;
+                }
+                this.ov = (this.r[n] & 0x80) !== 0;
+                this.setSZ(this.r[n]);
+                this.setDR(this.r[n]);
+                break;
+            case 0xC:
+                if (n === 0) { // HIB
+                    const result = this.sr >> 8;
+                    this.s = (result & 0x80) !== 0;
+                    this.z = result === 0;
+                    this.setDR(result);
+                } else { // OR / XOR / OR #n / XOR #n
+                    const operand = this.alt2 ? n : this.r[n];
+                    const result = this.alt1 ? this.sr ^ operand : this.sr | operand;
+                    this.setSZ(result);
+                    this.setDR(result);
+                }
+                break;
+            case 0xD:
+                if (n <= 0x0E) { // INC Rn
+                    this.setRegister(n, this.r[n] + 1);
+                    this.setSZ(this.r[n]);
+                } else if (!this.alt2) { // GETC
+                    this.colr = this.color(this.romdr);
+                } else if (!this.alt1) { // RAMB
+                    this.rambr = this.sr & 0x01;
+                } else { // ROMB
+                    this.rombr = this.sr & 0x7F;
+                }
+                break;
+            case 0xE:
+                if (n <= 0x0E) { // DEC Rn
+                    this.setRegister(n, this.r[n] - 1);
+                    this.setSZ(this.r[n]);
+                } else if (!this.alt1 && !this.alt2) { // GETB
+                    this.setDR(this.romdr);
+                } else if (!this.alt2) { // GETBH
+                    this.setDR((this.romdr << 8) | (this.sr & 0xFF));
+                } else if (!this.alt1) { // GETBL
+                    this.setDR((this.sr & 0xFF00) | this.romdr);
+                } else { // GETBS
+                    this.setDR((this.romdr << 24) >> 24);
+                }
+                break;
+            case 0xF: // IWT Rn, #xx / LM Rn, (xx) / SM (xx), Rn
+                if (this.alt1) {
+                    this.ramaddr = this.pipe() | (this.pipe() << 8);
+                    this.setRegister(n, this.readRAM(this.ramaddr) | (this.readRAM(this.ramaddr ^ 1) << 8));
+                } else if (this.alt2) {
+                    this.ramaddr = this.pipe() | (this.pipe() << 8);
+                    this.writeRAM(this.ramaddr, this.r[n] & 0xFF);
+                    this.writeRAM(this.ramaddr ^ 1, this.r[n] >> 8);
+                } else {
+                    this.setRegister(n, this.pipe() | (this.pipe() << 8));
+                }
+                break;
+        }
+
+        this.resetPrefix();
+    }
+
+    // $00-$0F: STOP, NOP, CACHE, shifts and branches
+    private executeControl(opcode: number): void {
+        switch (opcode) {
+            case 0x00: // STOP
+                if (!(this.cfgr & 0x80)) this.setIRQ(true);
+                this.running = false;
+                this.pipeline = 0x01;
+                this.updateBusOwnership();
+                break;
+            case 0x01: // NOP
+                break;
+            case 0x02: // CACHE
+                if (this.cbr !== (this.r[15] & 0xFFF0)) {
+                    this.cbr = this.r[15] & 0xFFF0;
+                    this.flushCache();
+                }
+                break;
+            case 0x03: { // LSR
+                this.cy = (this.sr & 0x01) !== 0;
+                const result = this.sr >> 1;
+                this.setSZ(result);
+                this.setDR(result);
+                break;
+            }
+            case 0x04: { // ROL
+                const carry = (this.sr & 0x8000) !== 0;
+                const result = ((this.sr << 1) | (this.cy ? 1 : 0)) & 0xFFFF;
+                this.cy = carry;
+                this.setSZ(result);
+                this.setDR(result);
+                break;
+            }
+            default: { // BRA, BGE, BLT, BNE, BEQ, BPL, BMI, BCC, BCS, BVC, BVS
+                const displacement = (this.pipe() << 24) >> 24;
+                if (this.branchTaken(opcode)) {
+                    this.setRegister(15, this.r[15] + displacement);
+                }
+                // Branches leave the prefixes alone
+                return;
+            }
+        }
+        this.resetPrefix();
+    }
+
+    private branchTaken(opcode: number): boolean {
+        switch (opcode) {
+            case 0x05: return true;
+            case 0x06: return this.s === this.ov;
+            case 0x07: return this.s !== this.ov;
+            case 0x08: return !this.z;
+            case 0x09: return this.z;
+            case 0x0A: return !this.s;
+            case 0x0B: return this.s;
+            case 0x0C: return !this.cy;
+            case 0x0D: return this.cy;
+            case 0x0E: return !this.ov;
+            default: return this.ov;
+        }
+    }
+
+    // $40-$4F: LDW/LDB, PLOT/RPIX, SWAP, COLOR/CMODE, NOT
+    private executeLoadAndPlot(opcode: number): void {
+        const n = opcode & 0x0F;
+        if (n <= 0x0B) { // LDW (Rn) / LDB (Rn)
+            this.ramaddr = this.r[n];
+            let value = this.readRAM(this.ramaddr);
+            if (!this.alt1) value |= this.readRAM(this.ramaddr ^ 1) << 8;
+            this.setDR(value);
+            return;
+        }
+
+        switch (n) {
+            case 0x0C:
+                if (!this.alt1) { // PLOT
+                    this.plot(this.r[1] & 0xFF, this.r[2] & 0xFF);
+                    this.r[1]++;
+                } else { // RPIX
+                    const value = this.rpix(this.r[1] & 0xFF, this.r[2] & 0xFF);
+                    this.setSZ(value);
+                    this.setDR(value);
+                }
+                break;
+            case 0x0D: { // SWAP
+                const result = ((this.sr >> 8) | (this.sr << 8)) & 0xFFFF;
+                this.setSZ(result);
+                this.setDR(result);
+                break;
+            }
+            case 0x0E:
+                if (!this.alt1) { // COLOR
+                    this.colr = this.color(this.sr);
+                } else { // CMODE
+                    this.por = this.sr & 0x1F;
+                }
+                break;
+            case 0x0F: { // NOT
+                const result = ~this.sr & 0xFFFF;
+                this.setSZ(result);
+                this.setDR(result);
+                break;
+            }
+        }
+    }
+
+    // $90-$9F: SBK, LINK, SEX, ASR/DIV2, ROR, JMP/LJMP, LOB, FMULT/LMULT
+    private executeMisc(opcode: number): void {
+        const n = opcode & 0x0F;
+        switch (n) {
+            case 0x00: // SBK
+                this.writeRAM(this.ramaddr, this.sr & 0xFF);
+                this.writeRAM(this.ramaddr ^ 1, this.sr >> 8);
+                break;
+            case 0x01: case 0x02: case 0x03: case 0x04: // LINK #n
+                this.setRegister(11, this.r[15] + n);
+                break;
+            case 0x05: { // SEX
+                const result = (this.sr << 24) >> 24;
+                this.setSZ(result);
+                this.setDR(result);
+                break;
+            }
+            case 0x06: { // ASR / DIV2 (which rounds -1 to 0)
+                this.cy = (this.sr & 0x01) !== 0;
+                const signed = (this.sr << 16) >> 16;
+                const result = (signed >> 1) + (this.alt1 && signed === -1 ? 1 : 0);
+                this.setSZ(result);
+                this.setDR(result);
+                break;
+            }
+            case 0x07: { // ROR
+                const carry = (this.sr & 0x01) !== 0;
+                const result = (this.cy ? 0x8000 : 0) | (this.sr >> 1);
+                this.cy = carry;
+                this.setSZ(result);
+                this.setDR(result);
+                break;
+            }
+            case 0x0E: { // LOB
+                const result = this.sr & 0xFF;
+                this.s = (result & 0x80) !== 0;
+                this.z = result === 0;
+                this.setDR(result);
+                break;
+            }
+            case 0x0F: { // FMULT / LMULT: signed 16 × R6, high word to Rd (LMULT puts the low word in R4)
+                const result = ((this.sr << 16) >> 16) * ((this.r[6] << 16) >> 16);
+                if (this.alt1) this.setRegister(4, result & 0xFFFF);
+                const high = (result >> 16) & 0xFFFF;
+                this.s = result < 0;
+                this.cy = (result & 0x8000) !== 0;
+                this.z = high === 0;
+                this.setDR(high);
+                this.cycles += ((this.cfgr & 0x20) ? 3 : 7) * this.cacheCycles;
+                break;
+            }
+            default: // JMP Rn / LJMP Rn ($98-$9D)
+                if (!this.alt1) {
+                    this.setRegister(15, this.r[n]);
+                } else {
+                    this.pbr = this.r[n] & 0x7F;
+                    this.setRegister(15, this.sr);
+                    this.cbr = this.r[15] & 0xFFF0;
+                    this.flushCache();
+                }
+                break;
+        }
+    }
+
+    // --- Plot unit ---
+
+    // COLOR/GETC: the source byte filtered by the POR nibble options
+    private color(source: number): number {
+        if (this.por & POR_HIGH_NIBBLE) return (this.colr & 0xF0) | ((source >> 4) & 0x0F);
+        if (this.por & POR_FREEZE_HIGH) return (this.colr & 0xF0) | (source & 0x0F);
+        return source & 0xFF;
+    }
+
+    private get colorDepth(): number {
+        return this.scmr & 0x03;
+    }
+
+    // Bitplanes per pixel: 2, 4, 4 or 8
+    private get bitsPerPixel(): number {
+        const depth = this.colorDepth;
+        return 2 << (depth - (depth >> 1));
+    }
+
+    // RAM address of the row of the character holding (x, y)
+    private characterAddress(x: number, y: number): number {
+        const height = ((this.scmr >> 2) & 0x01) | ((this.scmr >> 4) & 0x02);
+        let character: number;
+        switch ((this.por & POR_OBJ) ? 3 : height) {
+            case 0: // 128 pixels high
+                character = ((x & 0xF8) << 1) + ((y & 0xF8) >> 3);
+                break;
+            case 1: // 160 pixels high
+                character = ((x & 0xF8) << 1) + ((x & 0xF8) >> 1) + ((y & 0xF8) >> 3);
+                break;
+            case 2: // 192 pixels high
+                character = ((x & 0xF8) << 1) + (x & 0xF8) + ((y & 0xF8) >> 3);
+                break;
+            default: // OBJ layout
+                character = ((y & 0x80) << 2) + ((x & 0x80) << 1) + ((y & 0x78) << 1) + ((x & 0x78) >> 3);
+                break;
+        }
+        return 0x700000 + character * (this.bitsPerPixel << 3) + (this.scbr << 10) + ((y & 0x07) << 1);
+    }
+
+    private plot(x: number, y: number): void {
+        let color = this.colr;
+        const depth = this.colorDepth;
+
+        if ((this.por & POR_DITHER) && depth !== 3) {
+            if ((x ^ y) & 1) color >>= 4;
+            color &= 0x0F;
+        }
+
+        if (!(this.por & POR_TRANSPARENT)) {
+            if (depth === 3 && !(this.por & POR_FREEZE_HIGH)) {
+                if (color === 0) return;
+            } else if ((color & 0x0F) === 0) {
+                return;
+            }
+        }
+
+        const [current, previous] = this.pixelCaches;
+        const offset = (y << 5) + (x >> 3);
+        if (offset !== current.offset) {
+            this.flushPixelCache(previous);
+            this.swapPixelCaches();
+            this.pixelCaches[0].bitpend = 0;
+            this.pixelCaches[0].offset = offset;
+        }
+
+        const bit = (x & 7) ^ 7;
+        const cache = this.pixelCaches[0];
+        cache.data[bit] = color;
+        cache.bitpend |= 1 << bit;
+        // A complete row moves to the secondary cache to be written out
+        if (cache.bitpend === 0xFF) {
+            this.flushPixelCache(this.pixelCaches[1]);
+            this.swapPixelCaches();
+            this.pixelCaches[0].bitpend = 0;
+        }
+    }
+
+    private swapPixelCaches(): void {
+        const [current, previous] = this.pixelCaches;
+        previous.offset = current.offset;
+        previous.bitpend = current.bitpend;
+        previous.data.set(current.data);
+    }
+
+    private flushPixelCache(cache: PixelCache): void {
+        if (cache.bitpend === 0) return;
+
+        const x = (cache.offset << 3) & 0xFF;
+        const y = (cache.offset >> 5) & 0xFF;
+        const address = this.characterAddress(x, y);
+
+        for (let plane = 0; plane < this.bitsPerPixel; plane++) {
+            const byte = address + ((plane >> 1) << 4) + (plane & 1);
+            let data = 0;
+            for (let bit = 0; bit < 8; bit++) {
+                data |= ((cache.data[bit] >> plane) & 1) << bit;
+            }
+            // Partly plotted rows keep the pixels already in RAM
+            if (cache.bitpend !== 0xFF) {
+                this.cycles += this.memoryCycles;
+                data = (data & cache.bitpend) | (this.read(byte) & ~cache.bitpend);
+            }
+            this.cycles += this.memoryCycles;
+            this.write(byte, data);
+        }
+        cache.bitpend = 0;
+    }
+
+    private rpix(x: number, y: number): number {
+        this.flushPixelCache(this.pixelCaches[1]);
+        this.flushPixelCache(this.pixelCaches[0]);
+
+        const address = this.characterAddress(x, y);
+        const bit = (x & 7) ^ 7;
+        let value = 0;
+        for (let plane = 0; plane < this.bitsPerPixel; plane++) {
+            this.cycles += this.memoryCycles;
+            value |= ((this.read(address + ((plane >> 1) << 4) + (plane & 1)) >> bit) & 1) << plane;
+        }
+        return value;
+    }
+}
@@ -1,4 +1,6 @@
 // types/games.ts
+import type { PeripheralType } from '@/src/emulator/core/controller';
+
 export interface Screenshot {
     id: number;
     title: string;
@@ -24,6 +26,8 @@ export interface Screenshot {
     features: string[];
     screenshots: string[];
     similarGames: Screenshot[];
+    // Devices in controller ports 1 and 2; standard pads when absent
+    controllers?: PeripheralType[];
   }
   
   export type GamesData = {